@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import authHandler from '@/pages/api/auth';
+import loginHandler from '@/pages/api/login';
+import { setStorage } from '@/lib/storage';
+import { createLoginToken, SESSION_COOKIE } from '@/lib/auth';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage } from '../helpers/memoryStorage';
+import { alice, bob, carol, signedInAs } from '../helpers/fixtures';
+
+describe('sign-in', () => {
+  const webhook = vi.fn();
+
+  beforeEach(() => {
+    setStorage(createMemoryStorage({ engineers: [alice, bob, { ...carol, email: 'carol@example.com' }] }));
+    vi.stubEnv('APP_URL', 'https://availability.example.com');
+    vi.stubEnv('LOGIN_WEBHOOK_URL', 'https://n8n.example.com/webhook/login');
+    webhook.mockReset().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', webhook);
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends a sign-in link to a known email', async () => {
+    const res = await callApi(authHandler, { method: 'POST', body: { email: ' Alice@Example.com ' } });
+
+    expect(res.status).toBe(200);
+    expect(webhook).toHaveBeenCalledTimes(1);
+    const [url, init] = webhook.mock.calls[0];
+    expect(url).toBe('https://n8n.example.com/webhook/login');
+    const payload = JSON.parse(init.body);
+    expect(payload.email).toBe(alice.email);
+    expect(payload.link).toMatch(/^https:\/\/availability\.example\.com\/api\/login\?token=/);
+  });
+
+  it('answers the same way for unknown and inactive emails without sending anything', async () => {
+    const known = await callApi(authHandler, { method: 'POST', body: { email: alice.email } });
+    webhook.mockClear();
+
+    const unknown = await callApi(authHandler, { method: 'POST', body: { email: 'nobody@example.com' } });
+    const inactive = await callApi(authHandler, { method: 'POST', body: { email: 'carol@example.com' } });
+
+    expect(unknown.body).toEqual(known.body);
+    expect(inactive.body).toEqual(known.body);
+    expect(webhook).not.toHaveBeenCalled();
+  });
+
+  it('logs links without a webhook only outside production', async () => {
+    vi.stubEnv('LOGIN_WEBHOOK_URL', '');
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      vi.stubEnv('NODE_ENV', 'development');
+      expect((await callApi(authHandler, { method: 'POST', body: { email: alice.email } })).status).toBe(200);
+      expect(log).toHaveBeenCalledTimes(1);
+
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.stubEnv('AUTH_SECRET', 'test-secret');
+      const res = await callApi(authHandler, { method: 'POST', body: { email: alice.email } });
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: 'Sign-in is not configured' });
+      expect(log).toHaveBeenCalledTimes(1);
+    } finally {
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+
+  it('swaps a valid link for a session cookie', async () => {
+    const res = await callApi(loginHandler, { query: { token: createLoginToken(alice) } });
+
+    expect(res.status).toBe(302);
+    expect(res.redirect).toBe('/');
+    expect(res.headers['set-cookie']).toMatch(new RegExp(`^${SESSION_COOKIE}=[^;]+; Path=/; HttpOnly; SameSite=Lax`));
+  });
+
+  it('refuses a link that has already been used', async () => {
+    const token = createLoginToken(alice);
+    expect((await callApi(loginHandler, { query: { token } })).redirect).toBe('/');
+
+    const replay = await callApi(loginHandler, { query: { token } });
+    expect(replay.redirect).toBe('/?login=expired');
+    expect(replay.headers['set-cookie']).toBeUndefined();
+  });
+
+  it('sends bad links and deactivated engineers back to sign in', async () => {
+    const bad = await callApi(loginHandler, { query: { token: 'nope' } });
+    expect(bad.redirect).toBe('/?login=expired');
+
+    const deactivated = await callApi(loginHandler, { query: { token: createLoginToken(carol) } });
+    expect(deactivated.redirect).toBe('/?login=expired');
+    expect(deactivated.headers['set-cookie']).toBeUndefined();
+  });
+
+  it('reports the signed-in user', async () => {
+    expect((await callApi(authHandler)).status).toBe(401);
+
+    const res = await callApi(authHandler, { cookies: signedInAs(bob) });
+    expect(res.body.user).toEqual({ engineerId: bob.id, name: bob.name, admin: true });
+  });
+
+  it('clears the cookie on sign out', async () => {
+    const res = await callApi(authHandler, { method: 'DELETE', cookies: signedInAs(alice) });
+    expect(res.headers['set-cookie']).toMatch(/Max-Age=0/);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import handler from '@/pages/api/availability';
+import { setStorage } from '@/lib/storage';
+import { createMemoryCacheStore, withCache } from '@/lib/cache';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage, MemoryStorage } from '../helpers/memoryStorage';
+import {
+  MONDAY,
+  READ_KEY,
+  TEST_API_KEYS,
+  alice,
+  bob,
+  carol,
+  oneTimeRule,
+  recurringRule,
+  session,
+  signedInAs,
+  withApiKey,
+} from '../helpers/fixtures';
+
+describe('/api/availability', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    vi.stubEnv('API_KEYS', TEST_API_KEYS);
+    storage = createMemoryStorage({
+      engineers: [alice, bob, carol],
+      rules: [
+        recurringRule('recAliceWeek', 'Available', ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], '09:00', '17:00'),
+        oneTimeRule('recBobMaybe', 'Maybe', `${MONDAY}T09:00:00`, `${MONDAY}T12:00:00`, {
+          engineerId: bob.id,
+        }),
+      ],
+      // 14:00Z is 10:00 in New York
+      sessions: [session('recSession', `${MONDAY}T14:00:00.000Z`, `${MONDAY}T15:00:00.000Z`)],
+    });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  function get(query: Record<string, string> = {}) {
+    return callApi(handler, { query, headers: withApiKey(READ_KEY) });
+  }
+
+  it('summarizes active engineers for a time window', async () => {
+    const res = await get({ date: MONDAY, start: '09:00', end: '09:30' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.summary).toEqual({
+      available: ['Alice Smith'],
+      maybe: ['Bob Jones'],
+      unavailable: [],
+      booked: [],
+      not_set: [],
+    });
+  });
+
+  it('returns a per-slot team heatmap for a week', async () => {
+    const res = await get({ from: MONDAY, days: '7', heatmap: 'true' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.heatmap).toHaveLength(7);
+    const monday = res.body.heatmap[0];
+    expect(monday.slots).toHaveLength(48);
+    expect(monday.slots.find((s: any) => s.time === '09:00')).toMatchObject({
+      datetime: '2026-10-19T13:00:00.000Z',
+      available: ['Alice Smith'],
+      maybe: ['Bob Jones'],
+    });
+    expect(monday.slots.find((s: any) => s.time === '10:00')).toMatchObject({
+      booked: ['Alice Smith'],
+      maybe: ['Bob Jones'],
+    });
+    expect(res.body.heatmap[5].slots[20].not_set).toEqual(['Alice Smith', 'Bob Jones']);
+  });
+
+  it('reports engineers with a session in the window as booked', async () => {
+    const res = await get({ date: MONDAY, start: '10:00', end: '11:00' });
+
+    expect(res.body.summary.booked).toEqual(['Alice Smith']);
+  });
+
+  it('fetches rules and sessions for the whole team in one query each', async () => {
+    const rangeQuery = vi.spyOn(storage, 'getAvailabilityRulesInRange');
+    const sessionQuery = vi.spyOn(storage, 'getSessions');
+    const perEngineer = vi.spyOn(storage, 'getAvailabilityRules');
+
+    const res = await get({ from: MONDAY, to: '2026-10-25', start: '09:00', end: '09:30' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.summaries[MONDAY].available).toEqual(['Alice Smith']);
+    expect(rangeQuery).toHaveBeenCalledTimes(1);
+    expect(rangeQuery.mock.calls[0][2]).toBeUndefined();
+    expect(sessionQuery).toHaveBeenCalledTimes(1);
+    expect(perEngineer).not.toHaveBeenCalled();
+  });
+
+  it('says whether the answer came from the cache and how old it is', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createMemoryCacheStore();
+    setStorage(withCache(storage, { ttlSeconds: 60, store: () => store }));
+    try {
+      const first = await get({ date: MONDAY, start: '09:00', end: '09:30' });
+      expect(first.headers['x-cache']).toBe('MISS');
+      expect(first.headers['age']).toBe('0');
+
+      vi.advanceTimersByTime(12_000);
+      const second = await get({ date: MONDAY, start: '09:00', end: '09:30' });
+      expect(second.headers['x-cache']).toBe('HIT');
+      expect(second.headers['age']).toBe('12');
+      expect(second.body).toEqual(first.body);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('returns slot data for one engineer by name, case-insensitively', async () => {
+    const res = await get({ date: MONDAY, engineer: 'alice smith', detailed: 'true' });
+
+    expect(res.status).toBe(200);
+    expect(Object.keys(res.body.engineers)).toEqual([alice.id]);
+    const [day] = res.body.engineers[alice.id];
+    expect(day.slots.find((s: any) => s.time === '09:00').status).toBe('Available');
+    expect(day.slots.find((s: any) => s.time === '10:00').status).toBe('Booked');
+  });
+
+  it('returns one summary per day for a range', async () => {
+    const res = await get({ from: MONDAY, to: '2026-10-25', start: '13:00', end: '14:00' });
+
+    expect(res.status).toBe(200);
+    expect(Object.keys(res.body.summaries)).toHaveLength(7);
+    expect(res.body.summaries['2026-10-23'].available).toEqual(['Alice Smith']);
+    expect(res.body.summaries['2026-10-24'].not_set).toEqual(['Alice Smith', 'Bob Jones']);
+  });
+
+  it('rejects missing dates, oversized ranges and unknown timezones', async () => {
+    expect((await get()).status).toBe(400);
+    expect((await get({ from: MONDAY, days: '100' })).status).toBe(400);
+    expect((await get({ date: MONDAY, tz: 'Mars/Olympus' })).status).toBe(400);
+  });
+
+  it('resolves first names and reports who matched', async () => {
+    const res = await get({ date: MONDAY, engineer: 'bob', detailed: 'true' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.matched_engineer).toEqual({ id: bob.id, name: 'Bob Jones', matchedOn: 'name' });
+    expect(Object.keys(res.body.engineers)).toEqual([bob.id]);
+  });
+
+  it('keeps engineers who share a name apart', async () => {
+    const twin = { ...bob, id: 'recAliceTwin00001', name: alice.name, admin: false };
+    setStorage(createMemoryStorage({ engineers: [alice, twin] }));
+
+    const detailed = await get({ date: MONDAY, detailed: 'true' });
+    expect(Object.keys(detailed.body.engineers)).toEqual([alice.id, twin.id]);
+
+    const summary = await get({ date: MONDAY });
+    expect(summary.body.summary.not_set).toEqual(['Alice Smith', 'Alice Smith']);
+
+    const byId = await get({ date: MONDAY, engineer: twin.id, detailed: 'true' });
+    expect(Object.keys(byId.body.engineers)).toEqual([twin.id]);
+  });
+
+  it('returns 409 with candidates when the engineer is ambiguous', async () => {
+    setStorage(createMemoryStorage({ engineers: [alice, { ...bob, name: 'Alicia Jones' }] }));
+
+    const res = await get({ date: MONDAY, engineer: 'ali' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.candidates.map((c: any) => c.name)).toEqual(['Alice Smith', 'Alicia Jones']);
+  });
+
+  it('returns 404 for unknown or inactive engineers', async () => {
+    const unknown = await get({ date: MONDAY, engineer: 'Nobody' });
+    expect(unknown.status).toBe(404);
+
+    const inactive = await get({ date: MONDAY, engineer: carol.name });
+    expect(inactive.status).toBe(404);
+  });
+
+  it('only accepts GET', async () => {
+    expect((await callApi(handler, { method: 'POST', headers: withApiKey(READ_KEY) })).status).toBe(405);
+  });
+
+  it('requires an API key or a signed-in engineer', async () => {
+    const anonymous = await callApi(handler, { query: { date: MONDAY } });
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.body).toEqual({ error: 'API key or sign-in required' });
+
+    const badKey = await callApi(handler, { query: { date: MONDAY }, headers: withApiKey('nope') });
+    expect(badKey.status).toBe(401);
+
+    const signedIn = await callApi(handler, { query: { date: MONDAY }, cookies: signedInAs(alice) });
+    expect(signedIn.status).toBe(200);
+  });
+});
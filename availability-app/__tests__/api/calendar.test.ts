@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import handler from '@/pages/api/calendar';
+import { setStorage } from '@/lib/storage';
+import { createCalendarToken, createSessionToken, toAuthUser } from '@/lib/auth';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage } from '../helpers/memoryStorage';
+import { MONDAY, alice, bob, carol, recurringRule, session, signedInAs } from '../helpers/fixtures';
+
+describe('/api/calendar', () => {
+  beforeEach(() => {
+    vi.stubEnv('APP_URL', 'https://availability.example.com');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${MONDAY}T12:00:00.000Z`));
+    setStorage(
+      createMemoryStorage({
+        engineers: [alice, bob, carol],
+        rules: [
+          recurringRule('recAliceWeek', 'Available', ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], '09:00', '17:00'),
+          recurringRule('recBobWeek', 'Maybe', ['Sat'], '10:00', '14:00', { engineerId: bob.id }),
+        ],
+        calendarSecrets: { [alice.id]: 'alice-secret', [carol.id]: 'carol-secret' },
+        sessions: [
+          session('recAliceSession', '2026-10-20T13:00:00.000Z', '2026-10-20T15:00:00.000Z'),
+          session('recBobSession', '2026-10-20T13:00:00.000Z', '2026-10-20T15:00:00.000Z', bob.id),
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("serves the token owner's feed as text/calendar", async () => {
+    const res = await callApi(handler, { query: { token: createCalendarToken(alice, 'alice-secret') } });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('text/calendar; charset=utf-8');
+    expect(res.body).toContain('UID:recAliceWeek@engineer-availability');
+    expect(res.body).toContain('UID:recAliceSession@engineer-availability');
+    expect(res.body).not.toContain('recBob');
+  });
+
+  it('rejects missing, session and inactive-engineer tokens', async () => {
+    expect((await callApi(handler, {})).status).toBe(401);
+    expect((await callApi(handler, { query: { token: createSessionToken(toAuthUser(alice)) } })).status).toBe(401);
+    expect((await callApi(handler, { query: { token: createCalendarToken(carol, 'carol-secret') } })).status).toBe(404);
+  });
+
+  it('hands signed-in engineers a subscription URL for their own calendar', async () => {
+    const res = await callApi(handler, { method: 'POST', cookies: signedInAs(alice) });
+
+    expect(res.status).toBe(200);
+    expect(res.body.url).toMatch(/^https:\/\/availability\.example\.com\/api\/calendar\?token=/);
+    expect(res.body.webcal).toMatch(/^webcal:\/\/availability\.example\.com\//);
+
+    const feed = await callApi(handler, { query: { token: decodeURIComponent(res.body.url.split('token=')[1]) } });
+    expect(feed.status).toBe(200);
+  });
+
+  it('reuses the feed secret until asked to regenerate it, which revokes earlier links', async () => {
+    const tokenOf = (res: { body: { url: string } }) => decodeURIComponent(res.body.url.split('token=')[1]);
+    const first = tokenOf(await callApi(handler, { method: 'POST', cookies: signedInAs(alice) }));
+    expect((await callApi(handler, { query: { token: first } })).status).toBe(200);
+    expect((await callApi(handler, { query: { token: createCalendarToken(alice, 'guessed') } })).status).toBe(401);
+
+    const reset = tokenOf(
+      await callApi(handler, { method: 'POST', body: { regenerate: true }, cookies: signedInAs(alice) })
+    );
+    expect((await callApi(handler, { query: { token: first } })).status).toBe(401);
+    expect((await callApi(handler, { query: { token: reset } })).status).toBe(200);
+  });
+
+  it("only lets admins subscribe to someone else's calendar", async () => {
+    const engineer = await callApi(handler, { method: 'POST', body: { engineerId: bob.id }, cookies: signedInAs(alice) });
+    expect(engineer.status).toBe(403);
+
+    const admin = await callApi(handler, { method: 'POST', body: { engineerId: alice.id }, cookies: signedInAs(bob) });
+    expect(admin.status).toBe(200);
+
+    const anonymous = await callApi(handler, { method: 'POST', cookies: {} });
+    expect(anonymous.status).toBe(401);
+  });
+});
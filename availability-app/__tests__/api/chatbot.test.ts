@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import handler from '@/pages/api/chatbot';
+import { setStorage } from '@/lib/storage';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage, MemoryStorage } from '../helpers/memoryStorage';
+import { MONDAY, READ_KEY, TEST_API_KEYS, WRITE_KEY, alice, withApiKey } from '../helpers/fixtures';
+
+describe('/api/chatbot', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    vi.stubEnv('API_KEYS', TEST_API_KEYS);
+    storage = createMemoryStorage({ engineers: [alice] });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  function post(body: Record<string, unknown>) {
+    return callApi(handler, {
+      method: 'POST',
+      body: { engineer: 'Alice Smith', ...body },
+      headers: withApiKey(WRITE_KEY),
+    });
+  }
+
+  it('creates a one-time rule', async () => {
+    const res = await post({ status: 'Available', date: MONDAY, start_time: '09:00', end_time: '12:00' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.success).toBe(true);
+    expect(storage.data.rules).toHaveLength(1);
+    expect(storage.data.rules[0]).toMatchObject({
+      engineerId: alice.id,
+      ruleType: 'one-time',
+      startDateTime: `${MONDAY}T09:00:00`,
+      endDateTime: `${MONDAY}T12:00:00`,
+      source: 'chatbot',
+    });
+  });
+
+  it('ends overnight one-time rules on the next day', async () => {
+    await post({ status: 'Unavailable', date: MONDAY, start_time: '22:00', end_time: '02:00' });
+
+    expect(storage.data.rules[0].endDateTime).toBe('2026-10-20T02:00:00');
+  });
+
+  it('creates a recurring rule with exceptions', async () => {
+    const res = await post({
+      status: 'Available',
+      days: ['Mon', 'Wed'],
+      start_time: '09:00',
+      end_time: '17:00',
+      except: '2026-10-21, 2026-12-24/2026-12-31',
+    });
+
+    expect(res.status).toBe(201);
+    expect(storage.data.rules[0]).toMatchObject({
+      ruleType: 'recurring',
+      recurrenceDays: ['Mon', 'Wed'],
+      exceptions: ['2026-10-21', '2026-12-24/2026-12-31'],
+    });
+    expect(res.body.message).toContain('except 2026-10-21');
+  });
+
+  it('creates a monthly rule from an rrule', async () => {
+    const res = await post({
+      status: 'Unavailable',
+      rrule: 'FREQ=MONTHLY;BYDAY=1SA',
+      start_time: '10:00',
+      end_time: '14:00',
+    });
+
+    expect(res.status).toBe(201);
+    expect(storage.data.rules[0]).toMatchObject({
+      recurrenceFrequency: 'monthly',
+      recurrenceDays: ['Sat'],
+      recurrenceWeeks: [1],
+    });
+  });
+
+  it('rejects invalid input without creating rules', async () => {
+    expect((await post({ engineer: '', status: 'Available' })).status).toBe(400);
+    expect((await post({ status: 'Available', date: MONDAY })).status).toBe(400);
+    expect((await post({ status: 'Available', rrule: 'FREQ=YEARLY', start_time: '09:00', end_time: '10:00' })).status).toBe(400);
+    expect((await post({ status: 'Available', days: ['Mon'], start_time: '09:00', end_time: '10:00', except: 'soon' })).status).toBe(400);
+    expect((await post({ status: 'Available', days: ['Mon'], start_time: '09:00', end_time: '10:00', except: 20261021 })).status).toBe(400);
+    expect((await post({ status: 'Available', days: ['Mon'], start_time: '09:00', end_time: '10:00', except: [{}] })).status).toBe(400);
+    expect((await post({ status: 'Available', days: 'Mon', start_time: '09:00', end_time: '10:00' })).status).toBe(400);
+    expect((await post({ status: 'Available', date: 'garbage', start_time: '22:00', end_time: '02:00' })).status).toBe(400);
+    expect((await post({ status: 'Available', date: '2026-02-30', start_time: '09:00', end_time: '10:00' })).status).toBe(400);
+    expect((await post({ status: 'Available', rrule: 5, start_time: '09:00', end_time: '10:00' })).status).toBe(400);
+    expect(storage.data.rules).toHaveLength(0);
+  });
+
+  it('returns 404 for unknown engineers', async () => {
+    const res = await post({ engineer: 'Nobody', status: 'Available', date: MONDAY, start_time: '09:00', end_time: '10:00' });
+
+    expect(res.status).toBe(404);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('treats equal one-time times as the whole day', async () => {
+    await post({ status: 'Unavailable', date: MONDAY, start_time: '00:00', end_time: '00:00' });
+
+    expect(storage.data.rules[0].endDateTime).toBe('2026-10-20T00:00:00');
+  });
+
+  describe('with text', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(`${MONDAY}T16:00:00.000Z`));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('creates the rule it understood and returns the parsed fields', async () => {
+      const res = await post({ engineer: undefined, text: 'Alice is out next Friday after 6pm' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.parsed).toMatchObject({ engineer: alice.id, date: '2026-10-30', start_time: '18:00' });
+      expect(storage.data.rules[0]).toMatchObject({
+        status: 'Unavailable',
+        startDateTime: '2026-10-30T18:00:00',
+        endDateTime: '2026-10-31T00:00:00',
+      });
+    });
+
+    it('lets explicit fields override the text', async () => {
+      await post({ engineer: undefined, text: 'Alice free weekdays 10-4', end_time: '18:00' });
+
+      expect(storage.data.rules[0]).toMatchObject({ startTime: '10:00', endTime: '18:00' });
+    });
+
+    it('previews without saving on dry_run', async () => {
+      const res = await post({ engineer: undefined, text: 'alice free weekdays 10-4 until March', dry_run: true });
+
+      expect(res.status).toBe(200);
+      expect(res.body.dry_run).toBe(true);
+      expect(res.body.message).toMatch(/^Would set Alice Smith as Available/);
+      expect(res.body.rule).toMatchObject({ ruleType: 'recurring', effectiveUntil: '2027-03-31' });
+      expect(storage.data.rules).toHaveLength(0);
+    });
+
+    it('returns 400 with the reason when the text is unclear', async () => {
+      const res = await post({ engineer: undefined, text: 'Alice sometime' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toMatch(/available/);
+    });
+  });
+
+  it('finds engineers by alias or phone number', async () => {
+    storage.data.engineers[0] = { ...alice, aliases: ['Ali'], phone: '+15550100101' };
+
+    await post({ engineer: 'ali', status: 'Available', date: MONDAY, start_time: '09:00', end_time: '10:00' });
+    await post({ engineer: '(555) 010-0101', status: 'Maybe', date: MONDAY, start_time: '10:00', end_time: '11:00' });
+
+    expect(storage.data.rules.map((r) => r.engineerId)).toEqual([alice.id, alice.id]);
+  });
+
+  it('returns candidates instead of guessing between engineers', async () => {
+    storage.data.engineers.push({ ...alice, id: 'recAliceB00000001', name: 'Alice Brown' });
+
+    const res = await post({ engineer: 'Alice', status: 'Available', date: MONDAY, start_time: '09:00', end_time: '10:00' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe('"Alice" could be Alice Smith or Alice Brown');
+    expect(res.body.candidates).toHaveLength(2);
+    expect(storage.data.rules).toHaveLength(0);
+  });
+
+  it('only accepts POST', async () => {
+    expect((await callApi(handler, { method: 'GET' })).status).toBe(405);
+  });
+
+  it('needs a read-write API key', async () => {
+    const body = { engineer: 'Alice Smith', status: 'Available', date: MONDAY, start_time: '09:00', end_time: '10:00' };
+
+    const anonymous = await callApi(handler, { method: 'POST', body });
+    expect(anonymous.status).toBe(401);
+
+    const readOnly = await callApi(handler, { method: 'POST', body, headers: withApiKey(READ_KEY) });
+    expect(readOnly.status).toBe(403);
+    expect(readOnly.body).toEqual({ error: 'API key "reports" is read-only' });
+
+    expect(storage.data.rules).toHaveLength(0);
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    for (const rawBody of ['engineer=Alice', 'null', '42', '["Alice"]']) {
+      const res = await callApi(handler, { method: 'POST', rawBody, headers: withApiKey(WRITE_KEY) });
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('Invalid JSON body');
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import handler from '@/pages/api/compact';
+import { setStorage } from '@/lib/storage';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage, MemoryStorage } from '../helpers/memoryStorage';
+import { MONDAY, alice, bob, oneTimeRule, signedInAs } from '../helpers/fixtures';
+
+describe('/api/compact', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = createMemoryStorage({
+      engineers: [alice, bob],
+      rules: [
+        oneTimeRule('recAliceA', 'Available', `${MONDAY}T09:00:00`, `${MONDAY}T10:00:00`),
+        oneTimeRule('recAliceB', 'Available', `${MONDAY}T10:00:00`, `${MONDAY}T11:00:00`),
+        oneTimeRule('recBobA', 'Maybe', `${MONDAY}T09:00:00`, `${MONDAY}T10:00:00`, { engineerId: bob.id }),
+        oneTimeRule('recBobB', 'Maybe', `${MONDAY}T10:00:00`, `${MONDAY}T11:00:00`, { engineerId: bob.id }),
+      ],
+    });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+  });
+
+  function compact(body: any, as = alice) {
+    return callApi(handler, { method: 'POST', body, cookies: signedInAs(as) });
+  }
+
+  it("merges an engineer's rules and reports the counts", async () => {
+    const res = await compact({ engineerId: alice.id });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      dryRun: false,
+      rulesBefore: 2,
+      deleted: 1,
+      updated: 1,
+      engineers: { [alice.id]: { deleted: 1, updated: 1 } },
+    });
+    expect(storage.data.rules.map((rule) => rule.id)).toEqual(['recAliceA', 'recBobA', 'recBobB']);
+    expect(storage.data.rules[0].endDateTime).toBe(`${MONDAY}T11:00:00`);
+  });
+
+  it('makes no writes on a dry run', async () => {
+    const updates = vi.spyOn(storage, 'batchUpdateAvailabilityRules');
+    const deletes = vi.spyOn(storage, 'batchDeleteAvailabilityRules');
+
+    const res = await compact({ dryRun: true }, bob);
+
+    expect(res.body).toMatchObject({ dryRun: true, rulesBefore: 4, deleted: 2, updated: 2 });
+    expect(updates).not.toHaveBeenCalled();
+    expect(deletes).not.toHaveBeenCalled();
+    expect(storage.data.rules).toHaveLength(4);
+  });
+
+  it('keeps compacting everyone and other engineers to admins', async () => {
+    const everyone = await compact({});
+    expect(everyone.status).toBe(403);
+
+    const someoneElse = await compact({ engineerId: bob.id });
+    expect(someoneElse.status).toBe(403);
+
+    expect(storage.data.rules).toHaveLength(4);
+    expect((await compact({}, bob)).body.deleted).toBe(2);
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    for (const body of [undefined, null, 'everyone', []]) {
+      expect((await compact(body, bob)).status).toBe(400);
+    }
+    expect(storage.data.rules).toHaveLength(4);
+  });
+
+  it('rejects engineer IDs that are not record IDs', async () => {
+    expect((await compact({ engineerId: 'alice' })).status).toBe(400);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import handler from '@/pages/api/conflicts';
+import { setStorage } from '@/lib/storage';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage } from '../helpers/memoryStorage';
+import {
+  MONDAY,
+  READ_KEY,
+  TEST_API_KEYS,
+  alice,
+  bob,
+  carol,
+  recurringRule,
+  session,
+  signedInAs,
+  withApiKey,
+} from '../helpers/fixtures';
+
+describe('/api/conflicts', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEYS', TEST_API_KEYS);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${MONDAY}T12:00:00.000Z`));
+    setStorage(
+      createMemoryStorage({
+        engineers: [alice, bob, carol],
+        rules: [
+          recurringRule('recAliceWeek', 'Available', ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], '09:00', '17:00'),
+          recurringRule('recAliceWedOff', 'Unavailable', ['Wed'], '09:00', '12:00', {
+            updatedAt: '2026-10-02T00:00:00.000Z',
+          }),
+        ],
+        sessions: [
+          // Monday 10:00-12:00 and 11:00-13:00 overlap
+          session('recMonA', '2026-10-19T14:00:00.000Z', '2026-10-19T16:00:00.000Z'),
+          session('recMonB', '2026-10-19T15:00:00.000Z', '2026-10-19T17:00:00.000Z'),
+          // Wednesday morning is Unavailable
+          session('recWed', '2026-10-21T13:00:00.000Z', '2026-10-21T15:00:00.000Z'),
+          // Bob has no availability set
+          session('recBob', '2026-10-22T14:00:00.000Z', '2026-10-22T15:00:00.000Z', bob.id),
+          // Carol is inactive
+          session('recCarol', '2026-10-23T14:00:00.000Z', '2026-10-23T15:00:00.000Z', carol.id),
+          // Outside the default two weeks
+          session('recLater', '2026-11-10T12:00:00.000Z', '2026-11-10T13:00:00.000Z', carol.id),
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('reports every kind of conflict over the next two weeks', async () => {
+    const res = await callApi(handler, { headers: withApiKey(READ_KEY) });
+
+    expect(res.status).toBe(200);
+    expect(res.body.from).toBe(MONDAY);
+    expect(res.body.to).toBe('2026-11-01');
+    expect(res.body.counts).toEqual({ unavailable: 1, not_set: 1, overlap: 1, inactive_engineer: 1 });
+    expect(res.body.conflicts.map((c: any) => [c.type, c.session.id])).toEqual([
+      ['overlap', 'recMonA'],
+      ['unavailable', 'recWed'],
+      ['not_set', 'recBob'],
+      ['inactive_engineer', 'recCarol'],
+    ]);
+    expect(res.body.conflicts[0].session.engineerName).toBe('Alice Smith');
+    expect(res.body.conflicts[0].otherSession.id).toBe('recMonB');
+  });
+
+  it('limits the report to the requested range', async () => {
+    const res = await callApi(handler, {
+      query: { from: '2026-10-21', to: '2026-10-21' },
+      headers: withApiKey(READ_KEY),
+    });
+
+    expect(res.body.conflicts.map((c: any) => c.session.id)).toEqual(['recWed']);
+  });
+
+  it('is available to signed-in engineers', async () => {
+    const res = await callApi(handler, { cookies: signedInAs(bob) });
+    expect(res.status).toBe(200);
+  });
+
+  it('rejects bad ranges and unauthenticated calls', async () => {
+    const bad = await callApi(handler, { query: { from: 'soon' }, headers: withApiKey(READ_KEY) });
+    expect(bad.status).toBe(400);
+
+    const anonymous = await callApi(handler, {});
+    expect(anonymous.status).toBe(401);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import handler from '@/pages/api/erase';
+import { setStorage } from '@/lib/storage';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage, MemoryStorage } from '../helpers/memoryStorage';
+import { MONDAY, alice, bob, oneTimeRule, recurringRule, signedInAs } from '../helpers/fixtures';
+
+describe('/api/erase', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = createMemoryStorage({
+      engineers: [alice, bob],
+      rules: [
+        recurringRule('recAliceWeek', 'Available', ['Mon'], '09:00', '17:00'),
+        oneTimeRule('recAliceOut', 'Unavailable', `${MONDAY}T12:00:00`, `${MONDAY}T13:00:00`),
+      ],
+    });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+  });
+
+  function erase(body: any, as = alice) {
+    return callApi(handler, { method: 'POST', body, cookies: signedInAs(as) });
+  }
+
+  it('deletes covered rules and blanks what shows through', async () => {
+    const res = await erase({
+      engineerId: alice.id,
+      ranges: [{ start: `${MONDAY}T11:00:00`, end: `${MONDAY}T14:00:00` }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ deleted: 1, updated: 0, created: 1 });
+    expect(storage.data.rules.map((rule) => rule.id)).not.toContain('recAliceOut');
+    expect(storage.data.rules.find((rule) => rule.status === 'Blank')).toMatchObject({
+      engineerId: alice.id,
+      startDateTime: `${MONDAY}T11:00:00`,
+      endDateTime: `${MONDAY}T14:00:00`,
+      createdBy: alice.id,
+    });
+  });
+
+  it("only lets engineers erase their own availability unless they're an admin", async () => {
+    const ranges = [{ start: `${MONDAY}T11:00:00`, end: `${MONDAY}T14:00:00` }];
+
+    const denied = await erase({ engineerId: bob.id, ranges });
+    expect(denied.status).toBe(403);
+
+    const admin = await erase({ engineerId: alice.id, ranges }, bob);
+    expect(admin.status).toBe(200);
+  });
+
+  it('rejects missing engineers and bad ranges without writing', async () => {
+    expect((await erase({ engineerId: 'alice', ranges: [] })).status).toBe(400);
+    expect(
+      (await erase({ engineerId: alice.id, ranges: [{ start: 'noon', end: `${MONDAY}T14:00:00` }] })).status
+    ).toBe(400);
+    expect(storage.data.rules).toHaveLength(2);
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    for (const body of [undefined, null, 'everyone', []]) {
+      expect((await erase(body, bob)).status).toBe(400);
+    }
+    expect(storage.data.rules).toHaveLength(2);
+  });
+
+  it('requires a signed-in user', async () => {
+    const res = await callApi(handler, { method: 'POST', body: { engineerId: alice.id, ranges: [] } });
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import handler from '@/pages/api/import';
+import { setStorage } from '@/lib/storage';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage, MemoryStorage } from '../helpers/memoryStorage';
+import { MONDAY, alice, bob, oneTimeRule, signedInAs } from '../helpers/fixtures';
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'X-WR-CALNAME:Personal', ...events.flatMap((event) => ['BEGIN:VEVENT', ...event, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+}
+
+const dentist = ['UID:dentist', 'DTSTART:20261020T140000Z', 'DTEND:20261020T150000Z'];
+const gym = ['UID:gym', 'DTSTART:20261019T230000Z', 'DTEND:20261020T000000Z', 'RRULE:FREQ=WEEKLY;BYDAY=MO'];
+
+describe('/api/import', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${MONDAY}T12:00:00.000Z`));
+    storage = createMemoryStorage({
+      engineers: [alice, bob],
+      rules: [oneTimeRule('recPainted', 'Available', `${MONDAY}T09:00:00`, `${MONDAY}T17:00:00`)],
+    });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.useRealTimers();
+  });
+
+  function importIcs(ics: string, extra: Record<string, unknown> = {}, engineer = alice) {
+    return callApi(handler, {
+      method: 'POST',
+      body: { engineerId: alice.id, ics, ...extra },
+      cookies: signedInAs(engineer),
+    });
+  }
+
+  it('creates Unavailable rules marked as imported', async () => {
+    const res = await importIcs(calendar(dentist, gym));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      dryRun: false,
+      calendar: 'Personal',
+      created: 2,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+      skipped: [],
+    });
+    const imported = storage.data.rules.filter((rule) => rule.source === 'calendar_import');
+    expect(imported.map((rule) => [rule.importId, rule.status, rule.createdBy])).toEqual([
+      ['Personal/dentist', 'Unavailable', alice.id],
+      ['Personal/gym', 'Unavailable', alice.id],
+    ]);
+  });
+
+  it('updates, keeps and removes the earlier rules when the same calendar is imported again', async () => {
+    await importIcs(calendar(dentist, gym));
+    const dentistId = storage.data.rules.find((rule) => rule.importId === 'Personal/dentist')!.id;
+
+    const moved = ['UID:dentist', 'DTSTART:20261020T160000Z', 'DTEND:20261020T170000Z'];
+    const res = await importIcs(calendar(moved));
+
+    expect(res.body).toMatchObject({ created: 0, updated: 1, deleted: 1, unchanged: 0 });
+    expect(storage.data.rules.map((rule) => rule.id)).toEqual(['recPainted', dentistId]);
+    expect(storage.data.rules[1].startDateTime).toBe('2026-10-20T12:00:00');
+
+    const again = await importIcs(calendar(moved));
+    expect(again.body).toMatchObject({ created: 0, updated: 0, deleted: 0, unchanged: 1 });
+  });
+
+  it('keeps separate calendars apart and previews without saving', async () => {
+    await importIcs(calendar(dentist));
+
+    const res = await importIcs(calendar(gym), { calendar: 'Work', dryRun: true });
+
+    expect(res.body).toMatchObject({ dryRun: true, calendar: 'Work', created: 1, deleted: 0 });
+    expect(storage.data.rules.filter((rule) => rule.source === 'calendar_import')).toHaveLength(1);
+  });
+
+  it("only lets admins import into someone else's calendar", async () => {
+    const bobsCalendar = { engineerId: bob.id };
+    expect((await importIcs(calendar(dentist), bobsCalendar)).status).toBe(403);
+    expect((await importIcs(calendar(dentist), {}, bob)).status).toBe(200);
+  });
+
+  it('rejects requests without a session or an .ics body', async () => {
+    const anonymous = await callApi(handler, { method: 'POST', body: { engineerId: alice.id, ics: calendar(dentist) } });
+    expect(anonymous.status).toBe(401);
+
+    const notIcs = await importIcs('hello');
+    expect(notIcs.status).toBe(400);
+
+    for (const body of [undefined, null, calendar(dentist), []]) {
+      expect((await callApi(handler, { method: 'POST', body, cookies: signedInAs(alice) })).status).toBe(400);
+    }
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import handler from '@/pages/api/rules';
+import { setStorage } from '@/lib/storage';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage, MemoryStorage } from '../helpers/memoryStorage';
+import { MONDAY, alice, bob, oneTimeRule, recurringRule, signedInAs } from '../helpers/fixtures';
+
+describe('/api/rules', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = createMemoryStorage({
+      engineers: [alice, bob],
+      rules: [
+        recurringRule('recAliceWeek', 'Available', ['Mon', 'Tue'], '09:00', '17:00', {
+          effectiveUntil: '2026-12-31',
+        }),
+        oneTimeRule('recAliceOut', 'Unavailable', `${MONDAY}T12:00:00`, `${MONDAY}T13:00:00`),
+        oneTimeRule('recBobOut', 'Unavailable', `${MONDAY}T12:00:00`, `${MONDAY}T13:00:00`, {
+          engineerId: bob.id,
+        }),
+      ],
+    });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+  });
+
+  // Bob is an admin, so by default requests may touch anyone's rules
+  function call(request: Parameters<typeof callApi>[1] = {}, as = bob) {
+    return callApi(handler, { ...request, cookies: signedInAs(as) });
+  }
+
+  it('lists rules, optionally for one engineer', async () => {
+    expect((await call()).body).toHaveLength(3);
+
+    const res = await call({ query: { engineerId: bob.id } });
+    expect(res.body.map((r: any) => r.id)).toEqual(['recBobOut']);
+  });
+
+  it('rejects engineer IDs that are not record IDs', async () => {
+    const res = await call({ query: { engineerId: "x') > 0, TRUE(), FIND('x" } });
+    expect(res.status).toBe(400);
+  });
+
+  it('creates single rules and batches', async () => {
+    const single = await call({
+      method: 'POST',
+      body: {
+        engineerId: bob.id,
+        status: 'Available',
+        ruleType: 'one-time',
+        startDateTime: `${MONDAY}T09:00:00`,
+        endDateTime: `${MONDAY}T10:00:00`,
+        source: 'web_app',
+      },
+    });
+    expect(single.status).toBe(201);
+    expect(single.body.id).toBeTruthy();
+
+    const batch = await call({
+      method: 'POST',
+      body: {
+        rules: [
+          { engineerId: bob.id, status: 'Maybe', ruleType: 'one-time', startDateTime: `${MONDAY}T14:00:00`, endDateTime: `${MONDAY}T15:00:00`, source: 'web_app' },
+          { engineerId: bob.id, status: 'Maybe', ruleType: 'one-time', startDateTime: `${MONDAY}T16:00:00`, endDateTime: `${MONDAY}T17:00:00`, source: 'web_app' },
+        ],
+      },
+    });
+    expect(batch.status).toBe(201);
+    expect(batch.body).toHaveLength(2);
+    expect(storage.data.rules).toHaveLength(6);
+  });
+
+  it('validates new rules and requires an engineer before writing', async () => {
+    const valid = {
+      engineerId: bob.id,
+      status: 'Available',
+      ruleType: 'one-time',
+      startDateTime: `${MONDAY}T09:00:00`,
+      endDateTime: `${MONDAY}T10:00:00`,
+      source: 'web_app',
+    };
+
+    const noEngineer = await call({ method: 'POST', body: { ...valid, engineerId: undefined } });
+    expect(noEngineer.status).toBe(400);
+
+    const backwards = await call({ method: 'POST', body: { ...valid, endDateTime: `${MONDAY}T08:00:00` } });
+    expect(backwards.status).toBe(400);
+    expect(backwards.body.error).toBe('endDateTime must be after startDateTime');
+
+    const batch = await call({ method: 'POST', body: { rules: [valid, { ...valid, status: 'Busy' }] } });
+    expect(batch.status).toBe(400);
+    expect(batch.body.error).toMatch(/^Rule 2: status must be/);
+
+    expect(storage.data.rules).toHaveLength(3);
+  });
+
+  it('patches one rule, keeping unchanged fields and clearing nulls', async () => {
+    const res = await call({
+      method: 'PATCH',
+      query: { ruleId: 'recAliceWeek' },
+      body: { endTime: '18:00', effectiveUntil: null },
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      id: 'recAliceWeek',
+      startTime: '09:00',
+      endTime: '18:00',
+      recurrenceDays: ['Mon', 'Tue'],
+    });
+    expect(res.body.effectiveUntil).toBeUndefined();
+  });
+
+  it('rejects patches that leave the rule invalid', async () => {
+    const res = await call({
+      method: 'PATCH',
+      query: { ruleId: 'recAliceOut' },
+      body: { endDateTime: `${MONDAY}T11:00:00` },
+    });
+
+    expect(res.status).toBe(400);
+    expect(storage.data.rules.find((r) => r.id === 'recAliceOut')?.endDateTime).toBe(`${MONDAY}T13:00:00`);
+  });
+
+  it('rejects patch fields of the wrong type', async () => {
+    const patch = (body: unknown) => call({ method: 'PATCH', query: { ruleId: 'recAliceWeek' }, body });
+
+    const days = await patch({ recurrenceDays: 'Mon' });
+    expect(days.status).toBe(400);
+    expect(days.body.error).toBe('recurrenceDays must be a list of days');
+
+    const exceptions = await patch({ exceptions: '2026-10-19' });
+    expect(exceptions.status).toBe(400);
+    expect(exceptions.body.error).toMatch(/^exceptions must be a list/);
+
+    expect((await patch({ startTime: ['09:00'] })).status).toBe(400);
+    expect((await patch({ recurrenceFrequency: 'monthly', recurrenceWeeks: 1 })).status).toBe(400);
+    expect((await patch({ effectiveFrom: 20261019 })).status).toBe(400);
+    expect(storage.data.rules.find((r) => r.id === 'recAliceWeek')?.recurrenceDays).toEqual(['Mon', 'Tue']);
+  });
+
+  it('keeps falsy values other than null', async () => {
+    const res = await call({ method: 'PATCH', query: { ruleId: 'recAliceOut' }, body: { priority: 0 } });
+    expect(res.status).toBe(200);
+    expect(res.body.priority).toBe(0);
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    for (const method of ['POST', 'PATCH']) {
+      for (const body of [undefined, null, 'rules', []]) {
+        const res = await call({ method, query: { ruleId: 'recAliceOut' }, body });
+        expect(res.status).toBe(400);
+      }
+    }
+    expect((await call({ method: 'PATCH', body: { rules: ['recAliceOut'] } })).status).toBe(400);
+  });
+
+  it('patches batches and reports missing rules', async () => {
+    const res = await call({
+      method: 'PATCH',
+      body: { rules: [{ id: 'recAliceOut', status: 'Maybe' }, { id: 'recBobOut', status: 'Maybe' }] },
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.map((r: any) => r.status)).toEqual(['Maybe', 'Maybe']);
+
+    const missing = await call({
+      method: 'PATCH',
+      body: { rules: [{ id: 'recMissing', status: 'Maybe' }] },
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it('deletes rules by id', async () => {
+    const res = await call({ method: 'DELETE', query: { ruleId: 'recAliceOut' } });
+
+    expect(res.status).toBe(200);
+    expect(storage.data.rules.map((r) => r.id)).toEqual(['recAliceWeek', 'recBobOut']);
+    expect((await call({ method: 'DELETE' })).status).toBe(400);
+  });
+
+  it('requires a signed-in user', async () => {
+    const res = await callApi(handler, { query: { engineerId: alice.id } });
+    expect(res.status).toBe(401);
+  });
+
+  it('records who created each rule', async () => {
+    const res = await call(
+      {
+        method: 'POST',
+        body: {
+          engineerId: alice.id,
+          status: 'Available',
+          ruleType: 'one-time',
+          startDateTime: `${MONDAY}T09:00:00`,
+          endDateTime: `${MONDAY}T10:00:00`,
+          source: 'web_app',
+          createdBy: bob.id,
+        },
+      },
+      alice
+    );
+
+    expect(res.status).toBe(201);
+    expect(res.body.createdBy).toBe(alice.id);
+  });
+
+  it("stops engineers from changing other engineers' rules", async () => {
+    const create = await call(
+      {
+        method: 'POST',
+        body: {
+          rules: [
+            { engineerId: alice.id, status: 'Maybe', ruleType: 'one-time', startDateTime: `${MONDAY}T14:00:00`, endDateTime: `${MONDAY}T15:00:00`, source: 'web_app' },
+            { engineerId: bob.id, status: 'Maybe', ruleType: 'one-time', startDateTime: `${MONDAY}T14:00:00`, endDateTime: `${MONDAY}T15:00:00`, source: 'web_app' },
+          ],
+        },
+      },
+      alice
+    );
+    expect(create.status).toBe(403);
+
+    const patch = await call({ method: 'PATCH', query: { ruleId: 'recBobOut' }, body: { status: 'Available' } }, alice);
+    expect(patch.status).toBe(403);
+
+    const batchPatch = await call({ method: 'PATCH', body: { rules: [{ id: 'recBobOut', status: 'Available' }] } }, alice);
+    expect(batchPatch.status).toBe(403);
+
+    const remove = await call({ method: 'DELETE', query: { ruleId: 'recBobOut' } }, alice);
+    expect(remove.status).toBe(403);
+
+    expect(storage.data.rules).toHaveLength(3);
+    expect(storage.data.rules.find((r) => r.id === 'recBobOut')?.status).toBe('Unavailable');
+  });
+
+  it('lets engineers change their own rules', async () => {
+    const res = await call({ method: 'PATCH', query: { ruleId: 'recAliceOut' }, body: { status: 'Maybe' } }, alice);
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import handler from '@/pages/api/sessions';
+import { setStorage } from '@/lib/storage';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage, MemoryStorage } from '../helpers/memoryStorage';
+import {
+  MONDAY,
+  READ_KEY,
+  TEST_API_KEYS,
+  WRITE_KEY,
+  alice,
+  recurringRule,
+  session,
+  withApiKey,
+} from '../helpers/fixtures';
+
+describe('/api/sessions', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    vi.stubEnv('API_KEYS', TEST_API_KEYS);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // 08:00 on Monday in New York
+    vi.setSystemTime(new Date(`${MONDAY}T12:00:00.000Z`));
+    storage = createMemoryStorage({
+      engineers: [alice],
+      rules: [recurringRule('recAliceDay', 'Available', ['Mon'], '09:00', '17:00')],
+      // 10:00-11:00 in New York
+      sessions: [session('recSession', `${MONDAY}T14:00:00.000Z`, `${MONDAY}T15:00:00.000Z`)],
+    });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  function send(method: string, body: Record<string, unknown>, query: Record<string, string> = {}) {
+    return callApi(handler, { method, query, body, headers: withApiKey(WRITE_KEY) });
+  }
+
+  it('books a free slot, reading times without an offset as studio time', async () => {
+    const res = await send('POST', { engineer: 'alice', start: `${MONDAY}T13:00`, duration: 90, title: 'Mix' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.message).toBe(`Booked Alice Smith for ${MONDAY} 13:00–14:30`);
+    expect(res.body.conflicts).toEqual([]);
+    expect(storage.data.sessions[1]).toEqual({
+      id: res.body.session.id,
+      title: 'Mix',
+      engineerId: alice.id,
+      start: `${MONDAY}T17:00:00.000Z`,
+      end: `${MONDAY}T18:30:00.000Z`,
+    });
+  });
+
+  it('rejects overlaps with Booked slots unless forced', async () => {
+    const body = { engineer: alice.id, start: `${MONDAY}T10:30:00-04:00`, end: `${MONDAY}T11:30:00-04:00` };
+
+    const rejected = await send('POST', body);
+    expect(rejected.status).toBe(409);
+    expect(rejected.body.conflicts).toEqual([
+      expect.objectContaining({ status: 'Booked', sessionId: 'recSession', end: `${MONDAY}T15:00:00.000Z` }),
+    ]);
+    expect(storage.data.sessions).toHaveLength(1);
+
+    const forced = await send('POST', { ...body, force: true });
+    expect(forced.status).toBe(201);
+    expect(forced.body.conflicts).toHaveLength(1);
+    expect(storage.data.sessions).toHaveLength(2);
+  });
+
+  it('warns about unset slots and previews on dry_run', async () => {
+    const res = await send('POST', { engineer: 'Alice', start: `${MONDAY}T16:30`, duration: 60, dry_run: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.dry_run).toBe(true);
+    expect(res.body.warnings).toEqual([expect.objectContaining({ status: 'Blank', start: `${MONDAY}T21:00:00.000Z` })]);
+    expect(storage.data.sessions).toHaveLength(1);
+  });
+
+  it('reschedules, keeping the length and ignoring the session being moved', async () => {
+    const res = await send('PATCH', { start: `${MONDAY}T10:30` }, { sessionId: 'recSession' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.message).toBe(`Rescheduled Alice Smith for ${MONDAY} 10:30–11:30`);
+    expect(storage.data.sessions).toEqual([
+      expect.objectContaining({ id: 'recSession', start: `${MONDAY}T14:30:00.000Z`, end: `${MONDAY}T15:30:00.000Z` }),
+    ]);
+  });
+
+  it('cancels a session', async () => {
+    const res = await send('DELETE', {}, { sessionId: 'recSession' });
+
+    expect(res.status).toBe(200);
+    expect(storage.data.sessions).toEqual([]);
+    expect((await send('DELETE', {}, { sessionId: 'recSession' })).status).toBe(404);
+  });
+
+  it('validates engineers and times', async () => {
+    expect((await send('POST', { start: `${MONDAY}T13:00`, duration: 60 })).status).toBe(400);
+    expect((await send('POST', { engineer: 'Nobody', start: `${MONDAY}T13:00`, duration: 60 })).status).toBe(404);
+    expect((await send('POST', { engineer: 'Alice', start: `${MONDAY}T13:00` })).status).toBe(400);
+    expect((await send('POST', { engineer: 'Alice', start: `${MONDAY}T13:00`, end: `${MONDAY}T12:00` })).status).toBe(400);
+
+    const past = await send('POST', { engineer: 'Alice', start: `${MONDAY}T07:00`, duration: 30 });
+    expect(past.body.error).toBe('Sessions must start in the future');
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    for (const rawBody of ['null', '"Alice"', '[]']) {
+      const res = await callApi(handler, { method: 'POST', rawBody, headers: withApiKey(WRITE_KEY) });
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('Invalid JSON body');
+    }
+  });
+
+  it('needs a read-write API key', async () => {
+    const res = await callApi(handler, {
+      method: 'POST',
+      body: { engineer: 'Alice', start: `${MONDAY}T13:00`, duration: 60 },
+      headers: withApiKey(READ_KEY),
+    });
+    expect(res.status).toBe(403);
+    expect((await callApi(handler, { method: 'GET', headers: withApiKey(WRITE_KEY) })).status).toBe(405);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import handler from '@/pages/api/slots';
+import { setStorage } from '@/lib/storage';
+import { callApi } from '../helpers/api';
+import { createMemoryStorage } from '../helpers/memoryStorage';
+import {
+  MONDAY,
+  READ_KEY,
+  TEST_API_KEYS,
+  alice,
+  bob,
+  recurringRule,
+  session,
+  withApiKey,
+} from '../helpers/fixtures';
+
+describe('/api/slots', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEYS', TEST_API_KEYS);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // 08:00 on Monday in New York
+    vi.setSystemTime(new Date(`${MONDAY}T12:00:00.000Z`));
+    setStorage(
+      createMemoryStorage({
+        engineers: [alice, bob],
+        rules: [
+          recurringRule('recAliceWeek', 'Available', ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], '09:00', '17:00'),
+          recurringRule('recBobMon', 'Maybe', ['Mon'], '09:00', '17:00', { engineerId: bob.id }),
+          recurringRule('recBobTue', 'Available', ['Tue'], '13:00', '17:00', { engineerId: bob.id }),
+        ],
+        // Alice is booked 09:00-11:00 on Tuesday
+        sessions: [session('recSession', '2026-10-20T13:00:00.000Z', '2026-10-20T15:00:00.000Z')],
+      })
+    );
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  function get(query: Record<string, string>) {
+    return callApi(handler, { query, headers: withApiKey(READ_KEY) });
+  }
+
+  it('finds the earliest windows where enough engineers are free over the next two weeks', async () => {
+    const res = await get({ duration: '180', count: '2' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      from: MONDAY,
+      to: '2026-11-01',
+      duration_minutes: 180,
+      required_count: 2,
+      maybe_counts_as_free: false,
+      engineers: ['Alice Smith', 'Bob Jones'],
+    });
+    expect(res.body.windows).toEqual([
+      expect.objectContaining({
+        date: '2026-10-20',
+        start_time: '13:00',
+        end_time: '16:00',
+        latest_start: '2026-10-20T18:00:00.000Z',
+        available: ['Alice Smith', 'Bob Jones'],
+        maybe_counted_as_free: false,
+      }),
+      expect.objectContaining({ date: '2026-10-27', start_time: '13:00' }),
+    ]);
+  });
+
+  it('counts Maybe as free when asked, ranking certain windows first', async () => {
+    const res = await get({ duration: '180', engineers: 'alice,bob', maybe: 'true', from: MONDAY, days: '2' });
+
+    expect(res.body.windows.map((w: any) => [w.date, w.start_time, w.maybe_counted_as_free])).toEqual([
+      ['2026-10-20', '13:00', false],
+      [MONDAY, '09:00', true],
+    ]);
+  });
+
+  it('respects time-of-day bounds', async () => {
+    const res = await get({ duration: '60', count: '1', from: MONDAY, days: '1', earliest: '15:00', latest: '17:00' });
+
+    expect(res.body.windows).toEqual([
+      expect.objectContaining({ start_time: '15:00', latest_start: '2026-10-19T20:00:00.000Z' }),
+    ]);
+  });
+
+  it('counts engineers who share a name separately', async () => {
+    const twin = { ...alice, id: 'recAliceTwin00001', aliases: [] };
+    setStorage(
+      createMemoryStorage({
+        engineers: [alice, twin],
+        rules: [
+          recurringRule('recAliceMon', 'Available', ['Mon'], '09:00', '17:00'),
+          recurringRule('recTwinMon', 'Available', ['Mon'], '09:00', '17:00', { engineerId: twin.id }),
+        ],
+      })
+    );
+
+    const res = await get({ duration: '60', count: '2', from: MONDAY, days: '1' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.windows[0]).toMatchObject({ start_time: '09:00', available: ['Alice Smith', 'Alice Smith'] });
+  });
+
+  it('validates its parameters', async () => {
+    expect((await get({ count: '2' })).status).toBe(400);
+    expect((await get({ duration: '60' })).status).toBe(400);
+    expect((await get({ duration: '60', count: '3' })).status).toBe(400);
+    expect((await get({ duration: '60', count: '1', earliest: '9am' })).status).toBe(400);
+    expect((await get({ duration: '60', engineers: 'Nobody' })).status).toBe(404);
+  });
+
+  it('requires an API key or a signed-in engineer', async () => {
+    expect((await callApi(handler, { query: { duration: '60', count: '1' } })).status).toBe(401);
+  });
+});
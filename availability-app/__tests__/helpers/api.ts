@@ -0,0 +1,69 @@
+import { Readable } from 'stream';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+type Handler = (req: NextApiRequest, res: NextApiResponse) => unknown;
+
+interface ApiRequest {
+  method?: string;
+  url?: string;
+  query?: Record<string, string | string[]>;
+  body?: any;
+  rawBody?: string; // Sent as-is instead of the JSON-encoded body
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+  headers: Record<string, string>;
+  redirect?: string;
+}
+
+// Run an API route handler against a minimal request/response pair
+export async function callApi(handler: Handler, request: ApiRequest = {}): Promise<ApiResponse> {
+  const result: ApiResponse = { status: 200, body: undefined, headers: {} };
+
+  // The request doubles as a body stream for routes that read the raw body
+  const rawBody =
+    request.rawBody ?? (request.body === undefined ? '' : JSON.stringify(request.body));
+  const req = Object.assign(Readable.from(rawBody ? [rawBody] : []), {
+    method: request.method || 'GET',
+    url: request.url || '/',
+    query: request.query || {},
+    body: request.body,
+    headers: request.headers || {},
+    cookies: request.cookies || {},
+  }) as unknown as NextApiRequest;
+
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(body: any) {
+      result.body = body;
+      return res;
+    },
+    send(body: any) {
+      result.body = body;
+      return res;
+    },
+    end(body?: any) {
+      if (body !== undefined) result.body = body;
+      return res;
+    },
+    redirect(code: number, url: string) {
+      result.status = code;
+      result.redirect = url;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      result.headers[name.toLowerCase()] = value;
+      return res;
+    },
+  } as unknown as NextApiResponse;
+
+  await handler(req, res);
+  return result;
+}
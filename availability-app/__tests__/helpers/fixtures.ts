@@ -0,0 +1,70 @@
+import { Engineer, AvailabilityRule, Session } from '@/lib/types';
+import { SESSION_COOKIE, createSessionToken, toAuthUser } from '@/lib/auth';
+
+// 2026-10-19 is a Monday; the studio zone in tests is America/New_York
+export const MONDAY = '2026-10-19';
+
+export const alice: Engineer = { id: 'recAlice000000001', name: 'Alice Smith', email: 'alice@example.com', active: true };
+export const bob: Engineer = { id: 'recBob00000000001', name: 'Bob Jones', email: 'bob@example.com', active: true, admin: true };
+export const carol: Engineer = { id: 'recCarol000000001', name: 'Carol White', active: false };
+
+export function oneTimeRule(
+  id: string,
+  status: AvailabilityRule['status'],
+  startDateTime: string,
+  endDateTime: string,
+  overrides: Partial<AvailabilityRule> = {}
+): AvailabilityRule {
+  return {
+    id,
+    engineerId: alice.id,
+    status,
+    ruleType: 'one-time',
+    startDateTime,
+    endDateTime,
+    source: 'web_app',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+export function recurringRule(
+  id: string,
+  status: AvailabilityRule['status'],
+  recurrenceDays: string[],
+  startTime: string,
+  endTime: string,
+  overrides: Partial<AvailabilityRule> = {}
+): AvailabilityRule {
+  return {
+    id,
+    engineerId: alice.id,
+    status,
+    ruleType: 'recurring',
+    startTime,
+    endTime,
+    recurrenceDays,
+    source: 'web_app',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+export function session(id: string, start: string, end: string, engineerId = alice.id): Session {
+  return { id, title: `Session ${id}`, engineerId, start, end };
+}
+
+// Session cookie for calling routes as a signed-in engineer
+export function signedInAs(engineer: Engineer): Record<string, string> {
+  return { [SESSION_COOKIE]: createSessionToken(toAuthUser(engineer)) };
+}
+
+export const READ_KEY = 'test-read-key';
+export const WRITE_KEY = 'test-write-key';
+
+// Value for API_KEYS with one read-only and one read-write key
+export const TEST_API_KEYS = `reports:read:${READ_KEY},n8n:write:${WRITE_KEY}`;
+
+export function withApiKey(key: string): Record<string, string> {
+  return { authorization: `Bearer ${key}` };
+}
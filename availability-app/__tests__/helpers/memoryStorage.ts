@@ -0,0 +1,141 @@
+import type { StorageBackend } from '@/lib/storage';
+import { ruleInWindow } from '@/lib/availability';
+import { ApiKey, Engineer, AvailabilityRule, NewAvailabilityRule, Session } from '@/lib/types';
+
+export interface MemoryData {
+  engineers: Engineer[];
+  rules: AvailabilityRule[];
+  sessions: Session[];
+  apiKeys: ApiKey[];
+  calendarSecrets: Record<string, string>;
+  usedTokens: Record<string, string>;
+}
+
+export interface MemoryStorage extends StorageBackend {
+  data: MemoryData;
+}
+
+// In-memory stand-in for the Airtable functions; `data` is exposed for assertions
+export function createMemoryStorage(seed: Partial<MemoryData> = {}): MemoryStorage {
+  const data: MemoryData = {
+    engineers: [...(seed.engineers || [])],
+    rules: [...(seed.rules || [])],
+    sessions: [...(seed.sessions || [])],
+    apiKeys: [...(seed.apiKeys || [])],
+    calendarSecrets: { ...seed.calendarSecrets },
+    usedTokens: { ...seed.usedTokens },
+  };
+  let nextId = 1;
+  let clock = Date.parse('2026-01-01T00:00:00Z');
+
+  // Strictly increasing timestamps keep latest-wins ordering deterministic
+  const now = () => new Date((clock += 1000)).toISOString();
+  const newId = () => `recTest${String(nextId++).padStart(10, '0')}`;
+
+  const update = (id: string, rule: NewAvailabilityRule): AvailabilityRule => {
+    const index = data.rules.findIndex((existing) => existing.id === id);
+    if (index === -1) throw new Error(`Rule ${id} not found`);
+    data.rules[index] = { ...rule, id, updatedAt: now() };
+    return data.rules[index];
+  };
+
+  return {
+    data,
+
+    async getEngineers() {
+      return data.engineers.filter((engineer) => engineer.active);
+    },
+
+    async getAvailabilityRules(engineerId) {
+      return data.rules.filter((rule) => !engineerId || rule.engineerId === engineerId);
+    },
+
+    async getAvailabilityRulesInRange(startDate, endDate, engineerId) {
+      return data.rules.filter(
+        (rule) =>
+          (!engineerId || rule.engineerId === engineerId) &&
+          ruleInWindow(rule, new Date(startDate), new Date(endDate))
+      );
+    },
+
+    async getAvailabilityRule(ruleId) {
+      return data.rules.find((rule) => rule.id === ruleId) || null;
+    },
+
+    async getSessions(startDate, endDate, engineerId) {
+      return data.sessions.filter(
+        (session) =>
+          Date.parse(session.start) > Date.parse(startDate) &&
+          Date.parse(session.start) < Date.parse(endDate) &&
+          (!engineerId || session.engineerId === engineerId)
+      );
+    },
+
+    async getSession(sessionId) {
+      return data.sessions.find((session) => session.id === sessionId) || null;
+    },
+
+    async getApiKeys() {
+      return data.apiKeys;
+    },
+
+    async getCalendarSecret(engineerId) {
+      return data.calendarSecrets[engineerId] || null;
+    },
+
+    async setCalendarSecret(engineerId, secret) {
+      data.calendarSecrets[engineerId] = secret;
+    },
+
+    async claimToken(tokenId, expiresAt) {
+      if (tokenId in data.usedTokens && data.usedTokens[tokenId] >= new Date().toISOString()) return false;
+      data.usedTokens[tokenId] = expiresAt;
+      return true;
+    },
+
+    async createAvailabilityRule(rule) {
+      const created = { ...rule, id: newId(), updatedAt: now() };
+      data.rules.push(created);
+      return created;
+    },
+
+    async updateAvailabilityRule(ruleId, rule) {
+      return update(ruleId, rule);
+    },
+
+    async deleteAvailabilityRule(ruleId) {
+      data.rules = data.rules.filter((rule) => rule.id !== ruleId);
+    },
+
+    async batchDeleteAvailabilityRules(ruleIds) {
+      data.rules = data.rules.filter((rule) => !ruleIds.includes(rule.id));
+    },
+
+    async batchCreateAvailabilityRules(rules) {
+      const created = rules.map((rule) => ({ ...rule, id: newId(), updatedAt: now() }));
+      data.rules.push(...created);
+      return created;
+    },
+
+    async batchUpdateAvailabilityRules(rules) {
+      return rules.map(({ id, ...rule }) => update(id, rule));
+    },
+
+    async createSession(session) {
+      const created = { ...session, id: newId() };
+      data.sessions.push(created);
+      return created;
+    },
+
+    async updateSession(sessionId, session) {
+      const index = data.sessions.findIndex((existing) => existing.id === sessionId);
+      if (index === -1) throw new Error(`Session ${sessionId} not found`);
+      data.sessions[index] = { ...session, id: sessionId };
+      return data.sessions[index];
+    },
+
+    async deleteSession(sessionId) {
+      data.sessions = data.sessions.filter((session) => session.id !== sessionId);
+    },
+  };
+}
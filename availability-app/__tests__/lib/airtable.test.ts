@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Capture the select() options each query sends instead of calling Airtable
+const selects: any[] = [];
+const finds: string[] = [];
+
+vi.mock('airtable', () => ({
+  default: class {
+    base() {
+      return () => ({
+        select(options: any) {
+          selects.push(options);
+          return { all: async () => [] };
+        },
+        async find(id: string) {
+          finds.push(id);
+          throw Object.assign(new Error('NOT_FOUND'), { statusCode: 404 });
+        },
+      });
+    }
+  },
+}));
+
+import {
+  getAvailabilityRules,
+  getAvailabilityRulesInRange,
+  getAvailabilityRule,
+  getSessions,
+} from '@/lib/airtable';
+
+const ENGINEER_ID = 'recAbc123DEF456gh';
+
+describe('Airtable filter formulas', () => {
+  beforeEach(() => {
+    selects.length = 0;
+    finds.length = 0;
+  });
+
+  it('quotes the engineer ID when listing rules', async () => {
+    await getAvailabilityRules(ENGINEER_ID);
+    expect(selects[0].filterByFormula).toBe(`FIND('${ENGINEER_ID}', ARRAYJOIN({Engineer}))`);
+  });
+
+  it('lists every rule without a filter when no engineer is given', async () => {
+    await getAvailabilityRules();
+    expect(selects[0].filterByFormula).toBeUndefined();
+  });
+
+  it('filters rules to the date range on the server', async () => {
+    await getAvailabilityRulesInRange('2026-10-19T04:00:00.000Z', '2026-10-20T04:00:00.000Z');
+    expect(selects[0].filterByFormula).toBe(
+      "OR(AND({Rule_Type} = 'one-time', " +
+        "IS_BEFORE({Start_DateTime}, '2026-10-20T04:00:00.000Z'), " +
+        "IS_AFTER({End_DateTime}, '2026-10-19T04:00:00.000Z')), " +
+        "AND({Rule_Type} != 'one-time', " +
+        "OR({Effective_From} = BLANK(), NOT(IS_AFTER({Effective_From}, '2026-10-20'))), " +
+        "OR({Effective_Until} = BLANK(), NOT(IS_BEFORE({Effective_Until}, '2026-10-18')))))"
+    );
+  });
+
+  it('quotes dates and the engineer ID when listing sessions', async () => {
+    await getSessions('2026-10-19T04:00:00.000Z', '2026-10-20T04:00:00.000Z', ENGINEER_ID);
+    expect(selects[0].filterByFormula).toBe(
+      "AND(IS_AFTER({Start}, '2026-10-19T04:00:00.000Z'), " +
+        "IS_BEFORE({Start}, '2026-10-20T04:00:00.000Z'), " +
+        `FIND('${ENGINEER_ID}', ARRAYJOIN({Engineer})))`
+    );
+  });
+
+  it('refuses injected engineer IDs before querying', async () => {
+    await expect(getAvailabilityRules("x') > 0, TRUE(), FIND('x")).rejects.toThrow('Invalid record ID');
+    await expect(
+      getSessions('2026-10-19', '2026-10-20', "') , TRUE()) OR ('")
+    ).rejects.toThrow('Invalid record ID');
+    expect(selects).toHaveLength(0);
+  });
+
+  it('refuses injected dates before querying', async () => {
+    await expect(
+      getSessions("2026-10-19'), TRUE(), ('", '2026-10-20')
+    ).rejects.toThrow('Invalid ISO date');
+    expect(selects).toHaveLength(0);
+  });
+
+  it('treats malformed rule IDs as missing without calling Airtable', async () => {
+    expect(await getAvailabilityRule('../recAbc123DEF456gh')).toBeNull();
+    expect(finds).toHaveLength(0);
+
+    expect(await getAvailabilityRule(ENGINEER_ID)).toBeNull();
+    expect(finds).toEqual([ENGINEER_ID]);
+  });
+});
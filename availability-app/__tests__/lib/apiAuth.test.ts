@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  authenticateApiRequest,
+  hashApiKey,
+  signaturePayload,
+  signRequest,
+} from '@/lib/apiAuth';
+import { setStorage } from '@/lib/storage';
+import { createMemoryStorage } from '../helpers/memoryStorage';
+import { TEST_API_KEYS, WRITE_KEY, withApiKey } from '../helpers/fixtures';
+
+const SECRET = 'test-signing-secret';
+
+function request(headers: Record<string, string>, url = '/api/chatbot', method = 'POST') {
+  return { method, url, headers, cookies: {} } as unknown as NextApiRequest;
+}
+
+function response() {
+  const res = {
+    statusCode: 0,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: any) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+function signedHeaders(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const payload = signaturePayload(String(timestamp), 'POST', '/api/chatbot', body);
+  return {
+    ...withApiKey(WRITE_KEY),
+    'x-timestamp': String(timestamp),
+    'x-signature': signRequest(SECRET, payload),
+  };
+}
+
+async function authenticate(headers: Record<string, string>, scope: 'read' | 'write', body = '') {
+  const res = response();
+  const caller = await authenticateApiRequest(
+    request(headers),
+    res as unknown as NextApiResponse,
+    scope,
+    body
+  );
+  return { caller, res };
+}
+
+describe('authenticateApiRequest', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEYS', TEST_API_KEYS);
+    setStorage(
+      createMemoryStorage({
+        apiKeys: [
+          { id: 'recKey00000000001', name: 'stored', scope: 'write', keyHash: hashApiKey('stored-key'), active: true },
+          { id: 'recKey00000000002', name: 'revoked', scope: 'write', keyHash: hashApiKey('revoked-key'), active: false },
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts keys from env in either header', async () => {
+    expect((await authenticate(withApiKey(WRITE_KEY), 'write')).caller).toEqual({
+      type: 'key',
+      name: 'n8n',
+      scope: 'write',
+    });
+    expect((await authenticate({ 'x-api-key': WRITE_KEY }, 'write')).caller?.type).toBe('key');
+  });
+
+  it('accepts active keys from storage by hash only', async () => {
+    expect((await authenticate(withApiKey('stored-key'), 'write')).caller).toMatchObject({ name: 'stored' });
+
+    const revoked = await authenticate(withApiKey('revoked-key'), 'read');
+    expect(revoked.caller).toBeNull();
+    expect(revoked.res.statusCode).toBe(401);
+  });
+
+  describe('with API_SIGNING_SECRET set', () => {
+    beforeEach(() => {
+      vi.stubEnv('API_SIGNING_SECRET', SECRET);
+    });
+
+    it('accepts a correctly signed request once', async () => {
+      const body = '{"engineer":"Alice Smith"}';
+      const headers = signedHeaders(body);
+
+      expect((await authenticate(headers, 'write', body)).caller).not.toBeNull();
+
+      const replay = await authenticate(headers, 'write', body);
+      expect(replay.res.statusCode).toBe(401);
+      expect(replay.res.body).toEqual({ error: 'Request has already been used' });
+    });
+
+    it('remembers seen signatures in storage', async () => {
+      const body = '{"engineer":"Alice Smith"}';
+      const headers = signedHeaders(body);
+      const storage = createMemoryStorage();
+      setStorage(storage);
+      expect((await authenticate(headers, 'write', body)).caller).not.toBeNull();
+
+      // Another instance sharing the same storage refuses the replay too
+      setStorage(createMemoryStorage({ usedTokens: storage.data.usedTokens }));
+      expect((await authenticate(headers, 'write', body)).res.statusCode).toBe(401);
+    });
+
+    it('rejects unsigned, tampered and stale requests', async () => {
+      const unsigned = await authenticate(withApiKey(WRITE_KEY), 'write', '{}');
+      expect(unsigned.res.statusCode).toBe(401);
+
+      const tampered = await authenticate(signedHeaders('{"status":"Maybe"}'), 'write', '{"status":"Available"}');
+      expect(tampered.res.body).toEqual({ error: 'Invalid request signature' });
+
+      const stale = await authenticate(signedHeaders('{}', Math.floor(Date.now() / 1000) - 600), 'write', '{}');
+      expect(stale.res.body).toEqual({ error: 'Request timestamp is missing or too old' });
+    });
+  });
+});
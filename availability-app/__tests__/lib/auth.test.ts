@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  canEditEngineer,
+  createLoginToken,
+  createSessionToken,
+  getSessionUser,
+  readLoginToken,
+  toAuthUser,
+  SESSION_COOKIE,
+} from '@/lib/auth';
+import { setStorage } from '@/lib/storage';
+import { createMemoryStorage } from '../helpers/memoryStorage';
+import { alice, bob, carol } from '../helpers/fixtures';
+
+function requestWithSession(token: string) {
+  return { cookies: { [SESSION_COOKIE]: token } } as any;
+}
+
+describe('auth tokens', () => {
+  beforeEach(() => {
+    setStorage(createMemoryStorage({ engineers: [alice, bob, carol] }));
+  });
+
+  afterEach(() => {
+    setStorage(undefined);
+    vi.useRealTimers();
+  });
+
+  it('round-trips login and session tokens', async () => {
+    expect(await readLoginToken(createLoginToken(alice))).toEqual({
+      engineerId: alice.id,
+      name: alice.name,
+      admin: false,
+    });
+
+    const token = createSessionToken(toAuthUser(bob));
+    expect((await getSessionUser(requestWithSession(token)))?.admin).toBe(true);
+  });
+
+  it('re-reads the engineer behind a session cookie', async () => {
+    // Signed in as an admin, since demoted
+    const demoted = createSessionToken(toAuthUser(bob));
+    setStorage(createMemoryStorage({ engineers: [alice, { ...bob, admin: false }, carol] }));
+    expect((await getSessionUser(requestWithSession(demoted)))?.admin).toBe(false);
+
+    // Deactivated after signing in
+    expect(await getSessionUser(requestWithSession(createSessionToken(toAuthUser(carol))))).toBeNull();
+  });
+
+  it('accepts each login link only once', async () => {
+    const token = createLoginToken(alice);
+    expect(await readLoginToken(token)).not.toBeNull();
+    expect(await readLoginToken(token)).toBeNull();
+    expect(await readLoginToken(createLoginToken(alice))).not.toBeNull();
+  });
+
+  it('remembers used login links in storage', async () => {
+    const storage = createMemoryStorage({ engineers: [alice] });
+    setStorage(storage);
+    const token = createLoginToken(alice);
+    expect(await readLoginToken(token)).not.toBeNull();
+
+    // Another instance sharing the same storage refuses the link too
+    setStorage(createMemoryStorage({ engineers: [alice], usedTokens: storage.data.usedTokens }));
+    expect(await readLoginToken(token)).toBeNull();
+  });
+
+  it('rejects tampered tokens', async () => {
+    const [, signature] = createSessionToken(toAuthUser(alice)).split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ purpose: 'session', user: { ...toAuthUser(alice), admin: true }, exp: 9999999999 })
+    ).toString('base64url');
+
+    expect(await getSessionUser(requestWithSession(`${forged}.${signature}`))).toBeNull();
+    expect(await getSessionUser(requestWithSession('garbage'))).toBeNull();
+    expect(await getSessionUser({ cookies: {} } as any)).toBeNull();
+  });
+
+  it('does not accept a login link as a session or vice versa', async () => {
+    expect(await getSessionUser(requestWithSession(createLoginToken(alice)))).toBeNull();
+    expect(await readLoginToken(createSessionToken(toAuthUser(alice)))).toBeNull();
+  });
+
+  it('expires login links after 15 minutes', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    const early = createLoginToken(alice);
+    const late = createLoginToken(alice);
+
+    vi.setSystemTime(new Date('2026-10-19T12:14:00Z'));
+    expect(await readLoginToken(early)).not.toBeNull();
+
+    vi.setSystemTime(new Date('2026-10-19T12:16:00Z'));
+    expect(await readLoginToken(late)).toBeNull();
+  });
+});
+
+describe('canEditEngineer', () => {
+  it('lets engineers edit only themselves and admins edit anyone', () => {
+    expect(canEditEngineer(toAuthUser(alice), alice.id)).toBe(true);
+    expect(canEditEngineer(toAuthUser(alice), bob.id)).toBe(false);
+    expect(canEditEngineer(toAuthUser(bob), alice.id)).toBe(true);
+  });
+});
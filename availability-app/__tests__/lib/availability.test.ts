@@ -0,0 +1,709 @@
+import { describe, it, expect } from 'vitest';
+import { parseISO } from 'date-fns';
+import {
+  calculateAvailability,
+  checkBooking,
+  findAvailableWindows,
+  findSessionConflicts,
+  getAvailabilitySummary,
+  getTeamHeatmap,
+  normalizeException,
+  parseDateRange,
+  parseRRule,
+  planCompaction,
+  planErase,
+  ruleInWindow,
+  DayAvailability,
+  ErasePlan,
+  SlotStatus,
+} from '@/lib/availability';
+import { AvailabilityRule } from '@/lib/types';
+import { MONDAY, alice, bob, carol, oneTimeRule, recurringRule, session } from '../helpers/fixtures';
+
+function calculate(
+  rules: Parameters<typeof calculateAvailability>[0],
+  sessions: Parameters<typeof calculateAvailability>[1] = [],
+  from = MONDAY,
+  to = from,
+  timeZone?: string
+) {
+  return calculateAvailability(rules, sessions, parseISO(from), parseISO(to), { timeZone });
+}
+
+function slotAt(days: DayAvailability[], date: string, time: string) {
+  const slot = days.find((d) => d.date === date)?.slots.find((s) => s.time === time);
+  if (!slot) throw new Error(`No slot at ${date} ${time}`);
+  return slot;
+}
+
+// Build a day of slots for the summary tests, Blank unless listed
+function dayWith(date: string, statuses: Record<string, SlotStatus>): DayAvailability {
+  return {
+    date,
+    dayName: 'Mon',
+    slots: Object.entries(statuses).map(([time, status]) => ({
+      time,
+      datetime: `${date}T${time}:00`,
+      status,
+    })),
+  };
+}
+
+describe('calculateAvailability', () => {
+  it('lays out 48 half-hour slots per day, Blank without rules', () => {
+    const [day] = calculate([]);
+    expect(day.date).toBe(MONDAY);
+    expect(day.dayName).toBe('Mon');
+    expect(day.slots).toHaveLength(48);
+    expect(day.slots.every((s) => s.status === 'Blank')).toBe(true);
+  });
+
+  it('applies recurring rules on matching days only', () => {
+    const rules = [recurringRule('recWeekdays', 'Available', ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], '09:00', '17:00')];
+    const days = calculate(rules, [], MONDAY, '2026-10-25');
+
+    expect(days).toHaveLength(7);
+    expect(slotAt(days, MONDAY, '08:30').status).toBe('Blank');
+    expect(slotAt(days, MONDAY, '09:00').status).toBe('Available');
+    expect(slotAt(days, MONDAY, '09:00').ruleId).toBe('recWeekdays');
+    expect(slotAt(days, MONDAY, '16:30').status).toBe('Available');
+    expect(slotAt(days, MONDAY, '17:00').status).toBe('Blank');
+    expect(slotAt(days, '2026-10-24', '10:00').status).toBe('Blank');
+  });
+
+  it('attaches the tail of an overnight recurring rule to the next morning', () => {
+    const rules = [recurringRule('recNights', 'Available', ['Fri'], '22:00', '02:00')];
+    const days = calculate(rules, [], '2026-10-22', '2026-10-24');
+
+    expect(slotAt(days, '2026-10-23', '21:30').status).toBe('Blank');
+    expect(slotAt(days, '2026-10-23', '22:00').status).toBe('Available');
+    expect(slotAt(days, '2026-10-23', '23:30').status).toBe('Available');
+    expect(slotAt(days, '2026-10-24', '01:30').status).toBe('Available');
+    expect(slotAt(days, '2026-10-24', '02:00').status).toBe('Blank');
+    // Thursday night isn't covered, so Friday morning stays blank
+    expect(slotAt(days, '2026-10-23', '01:00').status).toBe('Blank');
+  });
+
+  it('spans midnight for overnight one-time rules', () => {
+    const rules = [oneTimeRule('recLate', 'Maybe', `${MONDAY}T23:00:00`, '2026-10-20T01:00:00')];
+    const days = calculate(rules, [], MONDAY, '2026-10-20');
+
+    expect(slotAt(days, MONDAY, '23:30').status).toBe('Maybe');
+    expect(slotAt(days, '2026-10-20', '00:30').status).toBe('Maybe');
+    expect(slotAt(days, '2026-10-20', '01:00').status).toBe('Blank');
+  });
+
+  it('lets the most recently updated rule win at equal precedence', () => {
+    const rules = [
+      oneTimeRule('recNewer', 'Unavailable', `${MONDAY}T10:00:00`, `${MONDAY}T11:00:00`, {
+        updatedAt: '2026-10-05T00:00:00.000Z',
+      }),
+      oneTimeRule('recOlder', 'Available', `${MONDAY}T09:00:00`, `${MONDAY}T12:00:00`, {
+        updatedAt: '2026-10-02T00:00:00.000Z',
+      }),
+    ];
+    const days = calculate(rules);
+
+    expect(slotAt(days, MONDAY, '09:30').status).toBe('Available');
+    const slot = slotAt(days, MONDAY, '10:00');
+    expect(slot.status).toBe('Unavailable');
+    expect(slot.ruleId).toBe('recNewer');
+    expect(slot.overriddenRuleIds).toEqual(['recOlder']);
+  });
+
+  it('ranks priority above rule type, and rule type above recency', () => {
+    const rules = [
+      recurringRule('recRecurring', 'Available', ['Mon'], '09:00', '17:00', {
+        updatedAt: '2026-10-10T00:00:00.000Z',
+      }),
+      oneTimeRule('recOneTime', 'Unavailable', `${MONDAY}T09:00:00`, `${MONDAY}T12:00:00`),
+      recurringRule('recPriority', 'Maybe', ['Mon'], '11:00', '12:00', { priority: 1 }),
+    ];
+    const days = calculate(rules);
+
+    expect(slotAt(days, MONDAY, '09:00').ruleId).toBe('recOneTime');
+    expect(slotAt(days, MONDAY, '11:00').ruleId).toBe('recPriority');
+    expect(slotAt(days, MONDAY, '11:00').overriddenRuleIds).toEqual(['recOneTime', 'recRecurring']);
+    expect(slotAt(days, MONDAY, '12:00').ruleId).toBe('recRecurring');
+  });
+
+  it('marks slots covered by a session as Booked over any rule', () => {
+    const rules = [oneTimeRule('recOut', 'Unavailable', `${MONDAY}T09:00:00`, `${MONDAY}T17:00:00`)];
+    // 14:00Z is 10:00 in New York
+    const sessions = [session('recSession', `${MONDAY}T14:00:00.000Z`, `${MONDAY}T15:00:00.000Z`)];
+    const days = calculate(rules, sessions);
+
+    expect(slotAt(days, MONDAY, '09:30').status).toBe('Unavailable');
+    expect(slotAt(days, MONDAY, '10:00').status).toBe('Booked');
+    expect(slotAt(days, MONDAY, '10:30').sessionId).toBe('recSession');
+    expect(slotAt(days, MONDAY, '11:00').status).toBe('Unavailable');
+  });
+
+  it('skips exception dates on recurring rules', () => {
+    const rules = [
+      recurringRule('recDaily', 'Available', ['Mon', 'Tue', 'Wed'], '09:00', '10:00', {
+        exceptions: ['2026-10-20'],
+      }),
+    ];
+    const days = calculate(rules, [], MONDAY, '2026-10-21');
+
+    expect(slotAt(days, MONDAY, '09:00').status).toBe('Available');
+    expect(slotAt(days, '2026-10-20', '09:00').status).toBe('Blank');
+    expect(slotAt(days, '2026-10-21', '09:00').status).toBe('Available');
+  });
+
+  it('has 50 slots on the day daylight saving time ends', () => {
+    const [day] = calculate([], [], '2026-11-01');
+    expect(day.slots).toHaveLength(50);
+  });
+
+  it('lays the grid out in the requested timezone', () => {
+    const rules = [recurringRule('recMorning', 'Available', ['Mon'], '09:00', '10:00')];
+    // 09:00 in New York is 14:00 in London in October
+    const days = calculate(rules, [], MONDAY, MONDAY, 'Europe/London');
+
+    expect(slotAt(days, MONDAY, '09:00').status).toBe('Blank');
+    expect(slotAt(days, MONDAY, '14:00').status).toBe('Available');
+  });
+});
+
+describe('getAvailabilitySummary', () => {
+  function summarize(statuses: Record<string, SlotStatus>, start = '09:00', end = '10:00') {
+    const availability = new Map([['Alice', [dayWith(MONDAY, statuses)]]]);
+    return getAvailabilitySummary(availability, MONDAY, start, end);
+  }
+
+  it('puts Booked ahead of every other status', () => {
+    expect(summarize({ '09:00': 'Booked', '09:30': 'Unavailable' }).booked).toEqual(['Alice']);
+  });
+
+  it('puts Unavailable ahead of Maybe and Available', () => {
+    expect(summarize({ '09:00': 'Available', '09:30': 'Unavailable' }).unavailable).toEqual(['Alice']);
+  });
+
+  it('reports Maybe when any slot is Maybe, even alongside Blank slots', () => {
+    expect(summarize({ '09:00': 'Maybe', '09:30': 'Available' }).maybe).toEqual(['Alice']);
+    expect(summarize({ '09:00': 'Maybe', '09:30': 'Blank' }).maybe).toEqual(['Alice']);
+  });
+
+  it('counts partly blank windows with Available slots as available', () => {
+    expect(summarize({ '09:00': 'Available', '09:30': 'Blank' }).available).toEqual(['Alice']);
+  });
+
+  it('reports not_set for all-blank windows, missing days and empty windows', () => {
+    expect(summarize({ '09:00': 'Blank', '09:30': 'Blank' }).not_set).toEqual(['Alice']);
+    expect(summarize({ '11:00': 'Available' }).not_set).toEqual(['Alice']);
+
+    const availability = new Map([['Alice', [dayWith('2026-10-20', { '09:00': 'Available' })]]]);
+    expect(getAvailabilitySummary(availability, MONDAY, '09:00', '10:00').not_set).toEqual(['Alice']);
+  });
+
+  it('treats the end time as exclusive', () => {
+    const summary = summarize({ '09:00': 'Available', '09:30': 'Available', '10:00': 'Unavailable' });
+    expect(summary.available).toEqual(['Alice']);
+  });
+});
+
+describe('findAvailableWindows', () => {
+  // Alice: Available 09-17 but booked 10-11. Bob: Available 09-12, Maybe 12-17.
+  const availability = new Map([
+    [
+      'Alice Smith',
+      calculate(
+        [recurringRule('recAliceDay', 'Available', ['Mon'], '09:00', '17:00')],
+        [session('recSession', `${MONDAY}T14:00:00.000Z`, `${MONDAY}T15:00:00.000Z`)]
+      ),
+    ],
+    [
+      'Bob Jones',
+      calculate([
+        recurringRule('recBobAm', 'Available', ['Mon'], '09:00', '12:00', { engineerId: bob.id }),
+        recurringRule('recBobPm', 'Maybe', ['Mon'], '12:00', '17:00', { engineerId: bob.id }),
+      ]),
+    ],
+  ]);
+
+  it('collapses back-to-back starts with the same engineers into one window', () => {
+    const windows = findAvailableWindows(availability, { durationMinutes: 120, requiredCount: 1 });
+
+    expect(windows).toEqual([
+      {
+        start: '2026-10-19T13:00:00.000Z',
+        end: '2026-10-19T15:00:00.000Z',
+        latest_start: '2026-10-19T14:00:00.000Z',
+        date: MONDAY,
+        start_time: '09:00',
+        end_time: '11:00',
+        available: ['Bob Jones'],
+        maybe: [],
+        maybe_counted_as_free: false,
+      },
+      expect.objectContaining({ start_time: '11:00', latest_start: '2026-10-19T19:00:00.000Z', available: ['Alice Smith'] }),
+    ]);
+  });
+
+  it('only counts Maybe as free when asked, and says so', () => {
+    expect(findAvailableWindows(availability, { durationMinutes: 120, requiredCount: 2 })).toEqual([]);
+
+    const windows = findAvailableWindows(availability, { durationMinutes: 120, requiredCount: 2, includeMaybe: true });
+    expect(windows).toEqual([
+      expect.objectContaining({
+        start_time: '11:00',
+        end_time: '13:00',
+        available: ['Alice Smith'],
+        maybe: ['Bob Jones'],
+        maybe_counted_as_free: true,
+      }),
+    ]);
+  });
+
+  it('ranks windows that need no Maybe engineers first', () => {
+    const maybeMorning = new Map([
+      ['Alice Smith', calculate([recurringRule('recAliceDay', 'Available', ['Mon'], '09:00', '17:00')])],
+      [
+        'Bob Jones',
+        calculate([
+          recurringRule('recBobAm', 'Maybe', ['Mon'], '09:00', '12:00', { engineerId: bob.id }),
+          recurringRule('recBobPm', 'Available', ['Mon'], '12:00', '17:00', { engineerId: bob.id }),
+        ]),
+      ],
+    ]);
+
+    const windows = findAvailableWindows(maybeMorning, { durationMinutes: 60, requiredCount: 2, includeMaybe: true });
+
+    expect(windows.map((w) => [w.start_time, w.maybe_counted_as_free])).toEqual([
+      ['12:00', false],
+      ['09:00', true],
+    ]);
+  });
+
+  it('keeps windows inside time-of-day bounds and after notBefore', () => {
+    const bounded = findAvailableWindows(availability, {
+      durationMinutes: 60,
+      requiredCount: 1,
+      earliest: '12:00',
+      latest: '16:00',
+    });
+    expect(bounded.map((w) => [w.start_time, w.end_time])).toEqual([['12:00', '13:00']]);
+    expect(bounded[0].latest_start).toBe('2026-10-19T19:00:00.000Z');
+
+    const later = findAvailableWindows(availability, {
+      durationMinutes: 60,
+      requiredCount: 1,
+      notBefore: new Date('2026-10-19T20:00:00.000Z'),
+    });
+    expect(later.map((w) => w.start_time)).toEqual(['16:00']);
+  });
+});
+
+describe('ruleInWindow', () => {
+  // Monday 00:00 to Tuesday 00:00 in New York
+  const start = new Date('2026-10-19T04:00:00.000Z');
+  const end = new Date('2026-10-20T04:00:00.000Z');
+
+  it('keeps one-time rules that overlap the window', () => {
+    expect(ruleInWindow(oneTimeRule('r1', 'Available', `${MONDAY}T09:00:00`, `${MONDAY}T10:00:00`), start, end)).toBe(true);
+    expect(ruleInWindow(oneTimeRule('r2', 'Available', '2026-10-18T09:00:00', '2026-10-19T00:00:00'), start, end)).toBe(false);
+    expect(ruleInWindow(oneTimeRule('r3', 'Available', '2026-10-20T00:00:00', '2026-10-20T09:00:00'), start, end)).toBe(false);
+  });
+
+  it('keeps recurring rules effective in the window or the day before it', () => {
+    const weekdays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+    const rule = (overrides: { effectiveFrom?: string; effectiveUntil?: string }) =>
+      ruleInWindow(recurringRule('r', 'Available', weekdays, '22:00', '02:00', overrides), start, end);
+
+    expect(rule({})).toBe(true);
+    expect(rule({ effectiveFrom: MONDAY, effectiveUntil: MONDAY })).toBe(true);
+    expect(rule({ effectiveUntil: '2026-10-18' })).toBe(true); // Overnight tail reaches Monday
+    expect(rule({ effectiveUntil: '2026-10-17' })).toBe(false);
+    expect(rule({ effectiveFrom: '2026-10-21' })).toBe(false);
+  });
+});
+
+describe('parseDateRange', () => {
+  it('expands from/to and days into dates', () => {
+    expect(parseDateRange({ from: MONDAY, days: '3' })).toEqual({
+      from: MONDAY,
+      to: '2026-10-21',
+      dates: [MONDAY, '2026-10-20', '2026-10-21'],
+    });
+    expect(parseDateRange({ from: MONDAY, to: '2026-10-18' })).toBe('to must not be before from');
+  });
+});
+
+// Apply a plan the way the routes do, with every written rule becoming the latest
+function applyPlan(rules: AvailabilityRule[], plan: ErasePlan): AvailabilityRule[] {
+  const updatedAt = '2026-10-18T00:00:00.000Z';
+  const updates = new Map(plan.updates.map((rule) => [rule.id, rule]));
+  return [
+    ...rules
+      .filter((rule) => !plan.deletes.includes(rule.id))
+      .map((rule) => (updates.has(rule.id) ? { ...updates.get(rule.id)!, updatedAt } : rule)),
+    ...plan.creates.map((rule, i) => ({ ...rule, id: `recCreated${i}`, updatedAt })),
+  ];
+}
+
+function statusesOn(rules: AvailabilityRule[], date: string, times: string[]): SlotStatus[] {
+  const [day] = calculateAvailability(rules, [], parseISO(date), parseISO(date));
+  return times.map((time) => day.slots.find((slot) => slot.time === time)!.status);
+}
+
+describe('planErase', () => {
+  const weekdays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+  it('deletes one-time rules inside the range and trims or splits the ones sticking out', () => {
+    const rules = [
+      oneTimeRule('recInside', 'Available', `${MONDAY}T10:00:00`, `${MONDAY}T11:00:00`),
+      oneTimeRule('recTail', 'Maybe', `${MONDAY}T08:00:00`, `${MONDAY}T10:30:00`),
+      oneTimeRule('recAround', 'Unavailable', `${MONDAY}T13:00:00`, `${MONDAY}T17:00:00`),
+    ];
+    const plan = planErase(
+      rules,
+      [
+        { start: `${MONDAY}T10:00:00`, end: `${MONDAY}T12:00:00` },
+        { start: `${MONDAY}T14:00:00`, end: `${MONDAY}T15:00:00` },
+      ],
+      alice.id
+    );
+
+    expect(plan.deletes).toEqual(['recInside']);
+    expect(plan.updates).toEqual([
+      expect.objectContaining({ id: 'recTail', startDateTime: `${MONDAY}T08:00:00`, endDateTime: `${MONDAY}T10:00:00` }),
+      expect.objectContaining({ id: 'recAround', startDateTime: `${MONDAY}T13:00:00`, endDateTime: `${MONDAY}T14:00:00` }),
+    ]);
+    expect(plan.creates).toEqual([
+      expect.objectContaining({ status: 'Unavailable', startDateTime: `${MONDAY}T15:00:00`, endDateTime: `${MONDAY}T17:00:00` }),
+    ]);
+    expect(statusesOn(applyPlan(rules, plan), MONDAY, ['09:30', '10:00', '13:30', '14:00', '15:00'])).toEqual([
+      'Maybe',
+      'Blank',
+      'Unavailable',
+      'Blank',
+      'Unavailable',
+    ]);
+  });
+
+  it('covers a rule with a Blank override instead of trimming it over a newer rule', () => {
+    const rules = [
+      oneTimeRule('recOld', 'Available', `${MONDAY}T09:00:00`, `${MONDAY}T12:00:00`, {
+        updatedAt: '2026-09-01T00:00:00.000Z',
+      }),
+      oneTimeRule('recNewer', 'Maybe', `${MONDAY}T09:00:00`, `${MONDAY}T10:00:00`, {
+        updatedAt: '2026-09-02T00:00:00.000Z',
+      }),
+    ];
+    const plan = planErase(rules, [{ start: `${MONDAY}T11:00:00`, end: `${MONDAY}T12:00:00` }], alice.id);
+
+    // Trimming recOld would re-stamp it and let it beat recNewer at 09:00
+    expect(plan.updates).toEqual([]);
+    expect(plan.creates).toEqual([
+      expect.objectContaining({ status: 'Blank', engineerId: alice.id, startDateTime: `${MONDAY}T11:00:00` }),
+    ]);
+    expect(statusesOn(applyPlan(rules, plan), MONDAY, ['09:00', '10:00', '11:00'])).toEqual([
+      'Maybe',
+      'Available',
+      'Blank',
+    ]);
+  });
+
+  it('writes nothing when the range is already blank', () => {
+    const plan = planErase([], [{ start: `${MONDAY}T09:00:00`, end: `${MONDAY}T10:00:00` }], alice.id);
+    expect(plan).toEqual({ deletes: [], updates: [], creates: [] });
+  });
+
+  it('adds whole erased occurrences of a recurring rule to its exceptions', () => {
+    const rules = [recurringRule('recWeek', 'Available', weekdays, '09:00', '17:00')];
+    const plan = planErase(
+      rules,
+      [{ start: `${MONDAY}T08:00:00`, end: `${MONDAY}T18:00:00` }],
+      alice.id
+    );
+
+    expect(plan.creates).toEqual([]);
+    expect(plan.updates).toHaveLength(1);
+    expect(plan.updates[0]).toMatchObject({ id: 'recWeek', exceptions: [MONDAY] });
+    expect(statusesOn(applyPlan(rules, plan), MONDAY, ['09:00', '16:30'])).toEqual(['Blank', 'Blank']);
+    expect(statusesOn(applyPlan(rules, plan), '2026-10-20', ['09:00'])).toEqual(['Available']);
+  });
+
+  it('ranks each recurring rule against the exceptions already planned for the ones above it', () => {
+    const rules = [
+      recurringRule('recLow', 'Maybe', weekdays, '09:00', '17:00'),
+      recurringRule('recHigh', 'Available', weekdays, '09:00', '17:00', { priority: 2 }),
+    ];
+    const plan = planErase(
+      rules,
+      [{ start: `${MONDAY}T08:00:00`, end: `${MONDAY}T18:00:00` }],
+      alice.id
+    );
+
+    expect(plan.updates.map((rule) => [rule.id, rule.exceptions])).toEqual([
+      ['recHigh', [MONDAY]],
+      ['recLow', [MONDAY]],
+    ]);
+    expect(plan.creates).toEqual([]);
+    expect(statusesOn(applyPlan(rules, plan), MONDAY, ['09:00'])).toEqual(['Blank']);
+    expect(statusesOn(applyPlan(rules, plan), '2026-10-20', ['09:00'])).toEqual(['Available']);
+  });
+
+  it('counts the night before for overnight occurrences', () => {
+    const rules = [recurringRule('recNight', 'Unavailable', ['Sun'], '22:00', '02:00')];
+    const plan = planErase(
+      rules,
+      [{ start: '2026-10-18T22:00:00', end: `${MONDAY}T02:00:00` }],
+      alice.id
+    );
+
+    expect(plan.updates[0].exceptions).toEqual(['2026-10-18']);
+    expect(plan.creates).toEqual([]);
+  });
+
+  it('overrides part of an occurrence at the default priority so a later paint still wins', () => {
+    const rules = [recurringRule('recWeek', 'Available', weekdays, '09:00', '17:00', { priority: 2 })];
+    const plan = planErase(
+      rules,
+      [{ start: `${MONDAY}T10:00:00`, end: `${MONDAY}T11:00:00` }],
+      alice.id
+    );
+
+    expect(plan.updates).toEqual([]);
+    expect(plan.creates).toEqual([
+      expect.objectContaining({ status: 'Blank', ruleType: 'one-time', startDateTime: `${MONDAY}T10:00:00` }),
+    ]);
+    expect(plan.creates[0].priority).toBeUndefined();
+  });
+
+  it("leaves a recurring rule's exceptions alone when re-saving it would lift it over a later rule", () => {
+    const rules = [
+      recurringRule('recOld', 'Available', weekdays, '09:00', '17:00', { updatedAt: '2026-09-01T00:00:00.000Z' }),
+      recurringRule('recNew', 'Maybe', ['Mon'], '12:00', '13:00', { updatedAt: '2026-09-02T00:00:00.000Z' }),
+    ];
+    const plan = planErase(
+      rules,
+      [{ start: `${MONDAY}T09:00:00`, end: `${MONDAY}T17:00:00` }],
+      alice.id
+    );
+
+    expect(plan.updates.map((rule) => rule.id)).toEqual(['recNew']);
+    expect(plan.creates).toHaveLength(1);
+    expect(statusesOn(applyPlan(rules, plan), MONDAY, ['09:00', '12:00'])).toEqual(['Blank', 'Blank']);
+  });
+});
+
+describe('planCompaction', () => {
+  it('prunes one-time rules that do not change any slot', () => {
+    const rules = [
+      recurringRule('recWeek', 'Available', ['Mon'], '09:00', '17:00'),
+      oneTimeRule('recSame', 'Available', `${MONDAY}T10:00:00`, `${MONDAY}T11:00:00`),
+      oneTimeRule('recCovered', 'Maybe', `${MONDAY}T12:00:00`, `${MONDAY}T13:00:00`, {
+        updatedAt: '2026-09-01T00:00:00.000Z',
+      }),
+      oneTimeRule('recOnTop', 'Unavailable', `${MONDAY}T12:00:00`, `${MONDAY}T13:00:00`),
+    ];
+
+    const plan = planCompaction(rules);
+    expect(plan.deletes.sort()).toEqual(['recCovered', 'recSame']);
+    expect(plan.updates).toEqual([]);
+  });
+
+  it('merges touching same-status rules into the first and deletes the rest', () => {
+    const rules = [
+      oneTimeRule('recFirst', 'Available', `${MONDAY}T09:00:00`, `${MONDAY}T10:00:00`),
+      oneTimeRule('recSecond', 'Available', `${MONDAY}T10:00:00`, `${MONDAY}T11:00:00`),
+      oneTimeRule('recApart', 'Available', `${MONDAY}T14:00:00`, `${MONDAY}T15:00:00`),
+    ];
+
+    const plan = planCompaction(rules);
+    expect(plan.updates).toEqual([
+      expect.objectContaining({ id: 'recFirst', startDateTime: `${MONDAY}T09:00:00`, endDateTime: `${MONDAY}T11:00:00` }),
+    ]);
+    expect(plan.deletes).toEqual(['recSecond']);
+  });
+
+  it('does not merge across a gap held by another status or across priorities', () => {
+    const rules = [
+      oneTimeRule('recLow', 'Available', `${MONDAY}T09:00:00`, `${MONDAY}T10:00:00`),
+      oneTimeRule('recHigh', 'Available', `${MONDAY}T10:00:00`, `${MONDAY}T11:00:00`, { priority: 1 }),
+      oneTimeRule('recMaybe', 'Maybe', `${MONDAY}T11:00:00`, `${MONDAY}T12:00:00`),
+      oneTimeRule('recAfter', 'Available', `${MONDAY}T12:00:00`, `${MONDAY}T13:00:00`),
+    ];
+
+    expect(planCompaction(rules)).toEqual({ deletes: [], updates: [] });
+  });
+});
+
+describe('parseRRule', () => {
+  it('reads weekly and every-N-weeks rules', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY;BYDAY=MO,WE')).toEqual({
+      recurrenceFrequency: 'weekly',
+      recurrenceDays: ['Mon', 'Wed'],
+    });
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SA,SU;UNTIL=20261231T000000Z')).toEqual({
+      recurrenceFrequency: 'weekly',
+      recurrenceInterval: 2,
+      recurrenceDays: ['Sat', 'Sun'],
+      effectiveUntil: '2026-12-31',
+    });
+  });
+
+  it('reads nth-weekday monthly rules', () => {
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=1SA,-1SA')).toEqual({
+      recurrenceFrequency: 'monthly',
+      recurrenceDays: ['Sat'],
+      recurrenceWeeks: [1, -1],
+    });
+  });
+
+  it('explains what it cannot store', () => {
+    expect(parseRRule('FREQ=DAILY')).toBe('Only FREQ=WEEKLY and FREQ=MONTHLY are supported');
+    expect(parseRRule('FREQ=WEEKLY')).toBe('BYDAY is required');
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toBe('Ordinal BYDAY values need FREQ=MONTHLY');
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=1SA,3SU')).toBe('Every BYDAY weekday must use the same ordinals');
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=0;BYDAY=MO')).toBe('INTERVAL must be a positive integer');
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=XX')).toBe('Unsupported BYDAY value "XX"');
+  });
+});
+
+describe('normalizeException', () => {
+  it('accepts single dates and ranges in several spellings', () => {
+    expect(normalizeException(' 2026-12-24 ')).toBe('2026-12-24');
+    expect(normalizeException('2026-12-24/2027-01-02')).toBe('2026-12-24/2027-01-02');
+    expect(normalizeException('2026-12-24..2027-01-02')).toBe('2026-12-24/2027-01-02');
+    expect(normalizeException('2026-12-24 to 2027-01-02')).toBe('2026-12-24/2027-01-02');
+    expect(normalizeException('2026-12-24/2026-12-24')).toBe('2026-12-24');
+  });
+
+  it('rejects backwards ranges and anything that is not a date', () => {
+    expect(normalizeException('2027-01-02/2026-12-24')).toBeNull();
+    expect(normalizeException('2026-02-30')).toBeNull();
+    expect(normalizeException('next friday')).toBeNull();
+  });
+});
+
+describe('checkBooking', () => {
+  const days = calculate(
+    [
+      recurringRule('recDay', 'Available', ['Mon'], '09:00', '16:00'),
+      recurringRule('recLate', 'Maybe', ['Mon'], '16:00', '17:00'),
+    ],
+    [session('recSession', `${MONDAY}T14:00:00.000Z`, `${MONDAY}T15:00:00.000Z`)]
+  );
+
+  it('reports overlapping sessions as conflicts, merged into ranges', () => {
+    // 09:30-11:30 in New York
+    const check = checkBooking(days, new Date(`${MONDAY}T13:30:00.000Z`), new Date(`${MONDAY}T15:30:00.000Z`));
+
+    expect(check).toEqual({
+      conflicts: [
+        {
+          start: `${MONDAY}T14:00:00.000Z`,
+          end: `${MONDAY}T15:00:00.000Z`,
+          status: 'Booked',
+          sessionId: 'recSession',
+          ruleId: 'recDay',
+        },
+      ],
+      warnings: [],
+    });
+  });
+
+  it('returns Maybe and unset slots as warnings', () => {
+    // 15:30-17:30 in New York
+    const check = checkBooking(days, new Date(`${MONDAY}T19:30:00.000Z`), new Date(`${MONDAY}T21:30:00.000Z`));
+
+    expect(check.conflicts).toEqual([]);
+    expect(check.warnings.map((w) => [w.status, w.start, w.end])).toEqual([
+      ['Maybe', `${MONDAY}T20:00:00.000Z`, `${MONDAY}T21:00:00.000Z`],
+      ['Blank', `${MONDAY}T21:00:00.000Z`, `${MONDAY}T21:30:00.000Z`],
+    ]);
+  });
+});
+
+describe('getTeamHeatmap', () => {
+  it('summarizes every engineer for each slot of the range', () => {
+    const team = new Map([
+      ['Alice', calculate([recurringRule('recA', 'Available', ['Mon'], '09:00', '17:00')])],
+      ['Bob', calculate([recurringRule('recB', 'Maybe', ['Mon'], '12:00', '13:00')])],
+    ]);
+
+    const heatmap = getTeamHeatmap(team, parseISO(MONDAY), parseISO('2026-10-20'));
+
+    expect(heatmap.map((day) => day.date)).toEqual([MONDAY, '2026-10-20']);
+    expect(heatmap[0].slots.find((s) => s.time === '12:30')).toEqual({
+      time: '12:30',
+      datetime: '2026-10-19T16:30:00.000Z',
+      available: ['Alice'],
+      maybe: ['Bob'],
+      unavailable: [],
+      booked: [],
+      not_set: [],
+    });
+    expect(heatmap[0].slots.find((s) => s.time === '23:30')?.not_set).toEqual(['Alice', 'Bob']);
+    // Days outside the engineers' calendars count as not set
+    expect(heatmap[1].slots[0].not_set).toEqual(['Alice', 'Bob']);
+  });
+
+  it('still lays out the grid with no engineers', () => {
+    const heatmap = getTeamHeatmap(new Map(), parseISO(MONDAY), parseISO(MONDAY));
+    expect(heatmap[0].slots).toHaveLength(48);
+    expect(heatmap[0].slots[0].available).toEqual([]);
+  });
+});
+
+describe('findSessionConflicts', () => {
+  const active = new Set([alice.id, bob.id]);
+  // Alice is Available 09:00-17:00 on Monday
+  const rules = [recurringRule('recAliceMon', 'Available', ['Mon'], '09:00', '17:00')];
+
+  it('reports nothing for sessions inside available time', () => {
+    const sessions = [session('recOk', '2026-10-19T14:00:00.000Z', '2026-10-19T16:00:00.000Z')];
+    expect(findSessionConflicts(sessions, active, rules)).toEqual([]);
+  });
+
+  it('flags sessions over unavailable and unset time with the offending ranges', () => {
+    const unavailable = oneTimeRule('recOff', 'Unavailable', `${MONDAY}T12:00`, `${MONDAY}T13:00`, {
+      updatedAt: '2026-10-02T00:00:00.000Z',
+    });
+    // 11:00-14:00 runs into the unavailable hour; 16:00-18:00 runs past the rule
+    const sessions = [
+      session('recLunch', '2026-10-19T15:00:00.000Z', '2026-10-19T18:00:00.000Z'),
+      session('recLate', '2026-10-19T20:00:00.000Z', '2026-10-19T22:00:00.000Z'),
+    ];
+
+    const conflicts = findSessionConflicts(sessions, active, [...rules, unavailable]);
+
+    expect(conflicts.map((c) => [c.type, c.session.id])).toEqual([
+      ['unavailable', 'recLunch'],
+      ['not_set', 'recLate'],
+    ]);
+    expect(conflicts[0].ranges).toEqual([
+      expect.objectContaining({ start: '2026-10-19T16:00:00.000Z', end: '2026-10-19T17:00:00.000Z', status: 'Unavailable' }),
+    ]);
+    expect(conflicts[1].ranges).toEqual([
+      expect.objectContaining({ start: '2026-10-19T21:00:00.000Z', end: '2026-10-19T22:00:00.000Z', status: 'Blank' }),
+    ]);
+  });
+
+  it('flags overlapping sessions for the same engineer only', () => {
+    const sessions = [
+      session('recFirst', '2026-10-19T13:00:00.000Z', '2026-10-19T15:00:00.000Z'),
+      session('recSecond', '2026-10-19T14:00:00.000Z', '2026-10-19T16:00:00.000Z'),
+      session('recAfter', '2026-10-19T16:00:00.000Z', '2026-10-19T17:00:00.000Z'),
+      session('recBob', '2026-10-19T14:00:00.000Z', '2026-10-19T15:00:00.000Z', bob.id),
+    ];
+    const bobRules = [recurringRule('recBobMon', 'Available', ['Mon'], '09:00', '17:00', { engineerId: bob.id })];
+
+    const conflicts = findSessionConflicts(sessions, active, [...rules, ...bobRules]);
+
+    expect(conflicts).toEqual([
+      { type: 'overlap', session: sessions[0], otherSession: sessions[1] },
+    ]);
+  });
+
+  it('flags sessions for inactive engineers without checking their rules', () => {
+    const sessions = [session('recCarol', '2026-10-19T14:00:00.000Z', '2026-10-19T15:00:00.000Z', carol.id)];
+    expect(findSessionConflicts(sessions, active, rules)).toEqual([
+      { type: 'inactive_engineer', session: sessions[0] },
+    ]);
+  });
+});
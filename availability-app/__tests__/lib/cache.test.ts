@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMemoryCacheStore, getCacheTtlSeconds, withCache, withoutCache } from '@/lib/cache';
+import type { StorageBackend } from '@/lib/storage';
+import { createMemoryStorage, MemoryStorage } from '../helpers/memoryStorage';
+import { MONDAY, alice, bob, oneTimeRule, recurringRule, session } from '../helpers/fixtures';
+
+const WINDOW_START = '2026-10-19T04:00:00.000Z';
+const WINDOW_END = '2026-10-20T04:00:00.000Z';
+
+describe('withCache', () => {
+  let backend: MemoryStorage;
+  let cached: StorageBackend;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${MONDAY}T12:00:00.000Z`));
+    backend = createMemoryStorage({
+      engineers: [alice, bob],
+      rules: [
+        recurringRule('recAliceWeek', 'Available', ['Mon'], '09:00', '17:00'),
+        recurringRule('recBobWeek', 'Available', ['Mon'], '09:00', '17:00', { engineerId: bob.id }),
+      ],
+      sessions: [session('recSession', `${MONDAY}T14:00:00.000Z`, `${MONDAY}T15:00:00.000Z`)],
+    });
+    const store = createMemoryCacheStore();
+    cached = withCache(backend, { ttlSeconds: 30, store: () => store });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves repeat reads from the cache until the TTL runs out', async () => {
+    const read = vi.spyOn(backend, 'getEngineers');
+
+    await cached.getEngineers();
+    vi.advanceTimersByTime(29_000);
+    await cached.getEngineers();
+    expect(read).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1_000);
+    await cached.getEngineers();
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it('hands out copies so callers cannot change a cached value', async () => {
+    const first = await cached.getAvailabilityRules(alice.id);
+    first[0].status = 'Unavailable';
+
+    expect((await cached.getAvailabilityRules(alice.id))[0].status).toBe('Available');
+  });
+
+  it("drops the written engineer's rules and team-wide lists, keeping everyone else's", async () => {
+    const read = vi.spyOn(backend, 'getAvailabilityRulesInRange');
+    await cached.getAvailabilityRulesInRange(WINDOW_START, WINDOW_END, alice.id);
+    await cached.getAvailabilityRulesInRange(WINDOW_START, WINDOW_END, bob.id);
+    await cached.getAvailabilityRulesInRange(WINDOW_START, WINDOW_END);
+    expect(read).toHaveBeenCalledTimes(3);
+
+    const { id, updatedAt, ...rule } = oneTimeRule('recNew', 'Unavailable', `${MONDAY}T09:00:00`, `${MONDAY}T10:00:00`);
+    await cached.createAvailabilityRule(rule);
+
+    expect(await cached.getAvailabilityRulesInRange(WINDOW_START, WINDOW_END, alice.id)).toHaveLength(2);
+    expect(await cached.getAvailabilityRulesInRange(WINDOW_START, WINDOW_END)).toHaveLength(3);
+    await cached.getAvailabilityRulesInRange(WINDOW_START, WINDOW_END, bob.id);
+    expect(read).toHaveBeenCalledTimes(5);
+  });
+
+  it('looks up the owner of a deleted rule to invalidate their entries', async () => {
+    await cached.getAvailabilityRules(bob.id);
+    await cached.deleteAvailabilityRule('recBobWeek');
+    expect(await cached.getAvailabilityRules(bob.id)).toEqual([]);
+  });
+
+  it('invalidates every engineer touched by a batch create', async () => {
+    await cached.getAvailabilityRules(alice.id);
+    await cached.getAvailabilityRules(bob.id);
+
+    const { id, updatedAt, ...rule } = oneTimeRule('recNew', 'Maybe', `${MONDAY}T09:00:00`, `${MONDAY}T10:00:00`);
+    await cached.batchCreateAvailabilityRules([rule, { ...rule, engineerId: bob.id }]);
+
+    expect(await cached.getAvailabilityRules(alice.id)).toHaveLength(2);
+    expect(await cached.getAvailabilityRules(bob.id)).toHaveLength(2);
+  });
+
+  it('reads straight from the backend inside withoutCache', async () => {
+    await cached.getSessions(WINDOW_START, WINDOW_END);
+    // Booked on another instance, so this process's cache never heard of it
+    backend.data.sessions.push(session('recElsewhere', `${MONDAY}T16:00:00.000Z`, `${MONDAY}T17:00:00.000Z`));
+
+    expect(await cached.getSessions(WINDOW_START, WINDOW_END)).toHaveLength(1);
+    expect(await withoutCache(() => cached.getSessions(WINDOW_START, WINDOW_END))).toHaveLength(2);
+  });
+
+  it('invalidates cached sessions when a session is booked', async () => {
+    expect(await cached.getSessions(WINDOW_START, WINDOW_END)).toHaveLength(1);
+    await cached.createSession({
+      title: 'Mixing',
+      engineerId: bob.id,
+      start: `${MONDAY}T16:00:00.000Z`,
+      end: `${MONDAY}T17:00:00.000Z`,
+    });
+    expect(await cached.getSessions(WINDOW_START, WINDOW_END)).toHaveLength(2);
+  });
+});
+
+describe('createMemoryCacheStore', () => {
+  it('sweeps expired entries on write and drops the oldest past the size cap', async () => {
+    const store = createMemoryCacheStore(2);
+    const entry = (expiresAt: number) => ({ value: expiresAt, storedAt: 0, expiresAt });
+    const later = Date.now() + 60_000;
+
+    await store.set('expired', entry(Date.now() - 1));
+    await store.set('a', entry(later));
+    await store.set('b', entry(later));
+    expect(await store.get('a')).toBeDefined();
+
+    await store.set('c', entry(later));
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toBeDefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+});
+
+describe('getCacheTtlSeconds', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads CACHE_TTL_SECONDS, falling back to the default when unset or invalid', () => {
+    vi.stubEnv('CACHE_TTL_SECONDS', '120');
+    expect(getCacheTtlSeconds()).toBe(120);
+    vi.stubEnv('CACHE_TTL_SECONDS', '0');
+    expect(getCacheTtlSeconds()).toBe(0);
+    vi.stubEnv('CACHE_TTL_SECONDS', 'soon');
+    expect(getCacheTtlSeconds()).toBe(30);
+    vi.stubEnv('CACHE_TTL_SECONDS', '');
+    expect(getCacheTtlSeconds()).toBe(30);
+  });
+});
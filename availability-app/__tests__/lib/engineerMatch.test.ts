@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePhone, resolveEngineer } from '@/lib/engineerMatch';
+import { Engineer } from '@/lib/types';
+
+const marcus: Engineer = { id: 'recMarcus00000001', name: 'Marcus Lee', phone: '+15550100101', active: true };
+const marco: Engineer = { id: 'recMarco000000001', name: 'Marco Diaz', active: true };
+const deshawn: Engineer = {
+  id: 'recDeShawn0000001',
+  name: 'DeShawn Williams',
+  phone: '+15550100102',
+  aliases: ['Shawn', 'DW'],
+  active: true,
+};
+const renee: Engineer = { id: 'recRenee000000001', name: 'Renée Park', active: true };
+const engineers = [marcus, marco, deshawn, renee];
+
+function resolve(query: string) {
+  return resolveEngineer(query, engineers);
+}
+
+describe('resolveEngineer', () => {
+  it('matches IDs, full names and aliases exactly', () => {
+    expect(resolve(marcus.id)).toMatchObject({ status: 'found', engineer: marcus, matchedOn: 'id' });
+    expect(resolve('  marcus LEE ')).toMatchObject({ status: 'found', engineer: marcus, matchedOn: 'name' });
+    expect(resolve('dw')).toMatchObject({ status: 'found', engineer: deshawn, matchedOn: 'alias' });
+    expect(resolve('Renee Park')).toMatchObject({ status: 'found', engineer: renee });
+  });
+
+  it('matches first names and prefixes', () => {
+    expect(resolve('Marco')).toMatchObject({ status: 'found', engineer: marco, matchedOn: 'name' });
+    expect(resolve('DeShawn W.')).toMatchObject({ status: 'found', engineer: deshawn, matchedOn: 'partial' });
+  });
+
+  it('lists candidates instead of guessing', () => {
+    expect(resolve('marc')).toEqual({
+      status: 'ambiguous',
+      candidates: [
+        { id: marcus.id, name: 'Marcus Lee', matchedOn: 'partial' },
+        { id: marco.id, name: 'Marco Diaz', matchedOn: 'partial' },
+      ],
+    });
+  });
+
+  it('tolerates small typos', () => {
+    expect(resolve('Marcis')).toMatchObject({ status: 'found', engineer: marcus, matchedOn: 'typo' });
+    expect(resolve('Deshaun')).toMatchObject({ status: 'found', engineer: deshawn, matchedOn: 'typo' });
+    expect(resolve('DeShawn Wiliams')).toMatchObject({ status: 'found', engineer: deshawn, matchedOn: 'typo' });
+    expect(resolve('Bob')).toEqual({ status: 'not_found' });
+  });
+
+  it('looks up E.164 phone numbers in any common format', () => {
+    expect(resolve('+1 (555) 010-0102')).toMatchObject({ status: 'found', engineer: deshawn, matchedOn: 'phone' });
+    expect(resolve('555.010.0101')).toMatchObject({ status: 'found', engineer: marcus });
+    expect(resolve('+15550109999')).toEqual({ status: 'not_found' });
+  });
+});
+
+describe('normalizePhone', () => {
+  it('keeps digits and assumes +1 for ten-digit numbers', () => {
+    expect(normalizePhone('+44 20 7946 0958')).toBe('442079460958');
+    expect(normalizePhone('(555) 010-0101')).toBe('15550100101');
+    expect(normalizePhone('Marcus')).toBeNull();
+    expect(normalizePhone('12')).toBeNull();
+  });
+});
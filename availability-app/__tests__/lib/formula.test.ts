@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { and, or, isIsoDate, isRecordId, isoDateValue, quote, recordIdValue } from '@/lib/formula';
+
+describe('quote', () => {
+  it('wraps values in single quotes', () => {
+    expect(quote('Alice')).toBe("'Alice'");
+  });
+
+  it('escapes quotes and backslashes so values cannot close the literal', () => {
+    expect(quote("x') , TRUE()) OR ('")).toBe("'x\\') , TRUE()) OR (\\''");
+    expect(quote('a\\')).toBe("'a\\\\'");
+    expect(quote("\\' OR 1")).toBe("'\\\\\\' OR 1'");
+  });
+
+  it('escapes line breaks', () => {
+    expect(quote('a\nb\r')).toBe("'a\\nb\\r'");
+  });
+});
+
+describe('record IDs', () => {
+  it('accepts Airtable record IDs only', () => {
+    expect(isRecordId('recAbc123DEF456gh')).toBe(true);
+    expect(isRecordId('recShort')).toBe(false);
+    expect(isRecordId("recAbc123DEF456gh' OR '1")).toBe(false);
+    expect(isRecordId('tblAbc123DEF456gh')).toBe(false);
+    expect(isRecordId(['recAbc123DEF456gh'])).toBe(false);
+  });
+
+  it('quotes valid IDs and throws on anything else', () => {
+    expect(recordIdValue('recAbc123DEF456gh')).toBe("'recAbc123DEF456gh'");
+    expect(() => recordIdValue("', TRUE(), '")).toThrow('Invalid record ID');
+  });
+});
+
+describe('ISO dates', () => {
+  it('accepts dates and datetimes with or without an offset', () => {
+    expect(isIsoDate('2026-10-19')).toBe(true);
+    expect(isIsoDate('2026-10-19T09:00')).toBe(true);
+    expect(isIsoDate('2026-10-19T09:00:00.000Z')).toBe(true);
+    expect(isIsoDate('2026-10-19T09:00:00-04:00')).toBe(true);
+  });
+
+  it('rejects malformed or impossible dates', () => {
+    expect(isIsoDate('2026-13-01')).toBe(false);
+    expect(isIsoDate('19/10/2026')).toBe(false);
+    expect(isIsoDate("2026-10-19') OR TRUE() OR ('")).toBe(false);
+  });
+
+  it('quotes valid dates and throws on anything else', () => {
+    expect(isoDateValue('2026-10-19')).toBe("'2026-10-19'");
+    expect(() => isoDateValue('tomorrow')).toThrow('Invalid ISO date');
+  });
+});
+
+describe('and', () => {
+  it('joins several conditions and leaves a single one alone', () => {
+    expect(and(['A', 'B'])).toBe('AND(A, B)');
+    expect(and(['A'])).toBe('A');
+  });
+});
+
+describe('or', () => {
+  it('joins several conditions and leaves a single one alone', () => {
+    expect(or(['A', 'B'])).toBe('OR(A, B)');
+    expect(or(['A'])).toBe('A');
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { buildCalendarFeed, buildTimezone, escapeText, foldLine, toRRule } from '@/lib/ics';
+import { MONDAY, alice, oneTimeRule, recurringRule, session } from '../helpers/fixtures';
+
+// Unfold the feed and pull out each VEVENT as a list of lines
+function events(feed: string): string[][] {
+  const lines = feed.replace(/\r\n /g, '').split('\r\n');
+  const result: string[][] = [];
+  let current: string[] | null = null;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') current = [];
+    else if (line === 'END:VEVENT' && current) {
+      result.push(current);
+      current = null;
+    } else current?.push(line);
+  }
+  return result;
+}
+
+function build(rules: Parameters<typeof buildCalendarFeed>[0]['rules'], sessions = [] as Parameters<typeof buildCalendarFeed>[0]['sessions']) {
+  return buildCalendarFeed({
+    engineer: alice,
+    rules,
+    sessions,
+    from: MONDAY,
+    to: '2026-10-25',
+    now: new Date('2026-10-19T12:00:00.000Z'),
+  });
+}
+
+describe('buildCalendarFeed', () => {
+  it('emits recurring rules once each with an RRULE instead of expanding them', () => {
+    const feed = build([
+      recurringRule('recWeek', 'Available', ['Mon', 'Wed'], '09:00', '17:00', {
+        exceptions: ['2026-10-21/2026-10-27'],
+        effectiveUntil: '2026-12-31',
+      }),
+    ]);
+
+    expect(feed.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(events(feed)).toEqual([
+      expect.arrayContaining([
+        'UID:recWeek@engineer-availability',
+        'DTSTART;TZID=America/New_York:20261019T090000',
+        'DTEND;TZID=America/New_York:20261019T170000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20270101T045959Z;WKST=MO',
+        // Only exception dates the rule would otherwise fall on
+        'EXDATE;TZID=America/New_York:20261021T090000,20261026T090000',
+        'SUMMARY:Available',
+      ]),
+    ]);
+  });
+
+  it('starts overnight and all-day rules on their first occurrence and ends them the next day', () => {
+    const feed = build([
+      recurringRule('recNight', 'Maybe', ['Sat'], '22:00', '02:00', {
+        recurrenceFrequency: 'monthly',
+        recurrenceWeeks: [1, -1],
+      }),
+    ]);
+
+    expect(events(feed)[0]).toEqual(
+      expect.arrayContaining([
+        'DTSTART;TZID=America/New_York:20261031T220000',
+        'DTEND;TZID=America/New_York:20261101T020000',
+        'RRULE:FREQ=MONTHLY;BYDAY=1SA,-1SA;WKST=MO',
+      ])
+    );
+  });
+
+  it('merges one-time rules into blocks of the time they win', () => {
+    const feed = build([
+      recurringRule('recWeek', 'Available', ['Mon'], '09:00', '17:00'),
+      oneTimeRule('recOff', 'Unavailable', `${MONDAY}T12:00`, `${MONDAY}T14:00`),
+      oneTimeRule('recErase', 'Blank', `${MONDAY}T18:00`, `${MONDAY}T19:00`),
+    ]);
+
+    const blocks = events(feed).filter((event) => event.some((line) => line.startsWith('UID:recOff')));
+    expect(blocks).toEqual([
+      expect.arrayContaining([
+        'DTSTART:20261019T160000Z',
+        'DTEND:20261019T180000Z',
+        'SUMMARY:Unavailable',
+        'TRANSP:OPAQUE',
+      ]),
+    ]);
+    expect(feed).not.toContain('recErase');
+  });
+
+  it('leaves out recurring occurrences another rule wins part of and lists the rest as blocks', () => {
+    const feed = build([
+      recurringRule('recWeek', 'Available', ['Mon', 'Tue'], '09:00', '17:00'),
+      oneTimeRule('recOff', 'Unavailable', `${MONDAY}T12:00`, `${MONDAY}T14:00`),
+    ]);
+
+    const recurring = events(feed).find((event) => event.includes('UID:recWeek@engineer-availability'));
+    expect(recurring).toContain('EXDATE;TZID=America/New_York:20261019T090000');
+    const blocks = events(feed)
+      .filter((event) => event.some((line) => line.startsWith('UID:recWeek-')))
+      .map((event) => event.filter((line) => /^(DTSTART|DTEND|SUMMARY):/.test(line)));
+    expect(blocks).toEqual([
+      ['DTSTART:20261019T130000Z', 'DTEND:20261019T160000Z', 'SUMMARY:Available'],
+      ['DTSTART:20261019T180000Z', 'DTEND:20261019T210000Z', 'SUMMARY:Available'],
+    ]);
+  });
+
+  it('lists booked sessions with escaped titles', () => {
+    const feed = build([], [
+      { ...session('recSession', '2026-10-20T13:00:00.000Z', '2026-10-20T15:00:00.000Z'), title: 'Band, loud; late' },
+    ]);
+
+    expect(events(feed)).toEqual([
+      expect.arrayContaining([
+        'UID:recSession@engineer-availability',
+        'DTSTART:20261020T130000Z',
+        'DTEND:20261020T150000Z',
+        'SUMMARY:Booked: Band\\, loud\\; late',
+      ]),
+    ]);
+  });
+});
+
+describe('toRRule', () => {
+  it('only includes INTERVAL when effectiveFrom anchors it', () => {
+    const rule = recurringRule('rec', 'Available', ['Sat'], '10:00', '12:00', { recurrenceInterval: 2 });
+    expect(toRRule(rule)).toBe('FREQ=WEEKLY;BYDAY=SA;WKST=MO');
+    expect(toRRule({ ...rule, effectiveFrom: MONDAY })).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=SA;WKST=MO');
+  });
+});
+
+describe('buildTimezone', () => {
+  it('describes daylight saving changes as yearly rules', () => {
+    expect(buildTimezone('America/New_York', 2025)).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250309T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'TZNAME:EDT',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20251102T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'TZNAME:EST',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('uses last-weekday rules and a single observance where they apply', () => {
+    expect(buildTimezone('Europe/London', 2025)).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+    expect(buildTimezone('Asia/Tokyo', 2025)).toContain('TZOFFSETTO:+0900');
+  });
+});
+
+describe('text helpers', () => {
+  it('escapes special characters', () => {
+    expect(escapeText('a\\b;c,d\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`).split('\r\n ');
+    expect(folded.length).toBe(2);
+    expect(folded.every((part) => Buffer.byteLength(part) <= 75)).toBe(true);
+    expect(folded.join('')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { importIcsRules, parseIcs } from '@/lib/icsImport';
+import { alice } from '../helpers/fixtures';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'X-WR-CALNAME:Personal', ...events.flatMap((event) => ['BEGIN:VEVENT', ...event, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+}
+
+function importRules(...events: string[][]) {
+  return importIcsRules(calendar(...events), { engineerId: alice.id, now: NOW });
+}
+
+describe('parseIcs', () => {
+  it('unfolds lines, reads parameters and ignores nested components', () => {
+    const { calendarName, events } = parseIcs(
+      [
+        'BEGIN:VCALENDAR',
+        'X-WR-CALNAME:Home',
+        'BEGIN:VEVENT',
+        'UID:abc',
+        'SUMMARY:A very long',
+        '  title',
+        'DTSTART;TZID="America/Chicago":20261020T090000',
+        'BEGIN:VALARM',
+        'SUMMARY:Reminder',
+        'END:VALARM',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n')
+    );
+
+    expect(calendarName).toBe('Home');
+    expect(events).toHaveLength(1);
+    expect(events[0].properties.get('SUMMARY')).toEqual([{ params: {}, value: 'A very long title' }]);
+    expect(events[0].properties.get('DTSTART')?.[0].params).toEqual({ TZID: 'America/Chicago' });
+  });
+});
+
+describe('importIcsRules', () => {
+  it('turns busy one-off events into Unavailable one-time rules in studio time', () => {
+    const { calendar: name, rules, skipped } = importRules(
+      ['UID:dentist', 'DTSTART;TZID=America/Chicago:20261020T090000', 'DTEND;TZID=America/Chicago:20261020T103000'],
+      ['UID:call', 'DTSTART:20261021T150000Z', 'DURATION:PT45M'],
+      ['UID:holiday', 'DTSTART;VALUE=DATE:20261225', 'DTEND;VALUE=DATE:20261227']
+    );
+
+    expect(name).toBe('Personal');
+    expect(skipped).toEqual([]);
+    expect(rules).toEqual([
+      {
+        engineerId: alice.id,
+        status: 'Unavailable',
+        ruleType: 'one-time',
+        source: 'calendar_import',
+        importId: 'Personal/dentist',
+        startDateTime: '2026-10-20T10:00:00',
+        endDateTime: '2026-10-20T11:30:00',
+      },
+      expect.objectContaining({ startDateTime: '2026-10-21T11:00:00', endDateTime: '2026-10-21T11:45:00' }),
+      expect.objectContaining({ startDateTime: '2026-12-25T00:00:00', endDateTime: '2026-12-27T00:00:00' }),
+    ]);
+  });
+
+  it('keeps repeating events as recurring rules with their exceptions', () => {
+    const { rules } = importRules(
+      [
+        'UID:gym',
+        'DTSTART;TZID=America/New_York:20261019T070000',
+        'DTEND;TZID=America/New_York:20261019T080000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+        'EXDATE;TZID=America/New_York:20261021T070000',
+      ],
+      // The 26th was moved an hour later
+      [
+        'UID:gym',
+        'RECURRENCE-ID;TZID=America/New_York:20261026T070000',
+        'DTSTART;TZID=America/New_York:20261026T080000',
+        'DTEND;TZID=America/New_York:20261026T090000',
+      ]
+    );
+
+    expect(rules).toEqual([
+      expect.objectContaining({
+        ruleType: 'recurring',
+        importId: 'Personal/gym',
+        startTime: '07:00',
+        endTime: '08:00',
+        recurrenceFrequency: 'weekly',
+        recurrenceDays: ['Mon', 'Wed'],
+        effectiveFrom: '2026-10-19',
+        // COUNT=4 ends on the fourth occurrence; EXDATEs don't extend it
+        effectiveUntil: '2026-10-28',
+        exceptions: ['2026-10-21', '2026-10-26'],
+      }),
+      expect.objectContaining({
+        ruleType: 'one-time',
+        importId: 'Personal/gym/20261026T070000',
+        startDateTime: '2026-10-26T08:00:00',
+      }),
+    ]);
+  });
+
+  it('shifts weekdays when the event zone puts an occurrence on another studio day', () => {
+    const { rules } = importRules([
+      'UID:late',
+      'DTSTART;TZID=Europe/London:20261020T030000',
+      'DTEND;TZID=Europe/London:20261020T040000',
+      'RRULE:FREQ=WEEKLY;UNTIL=20261231T000000Z',
+    ]);
+
+    expect(rules[0]).toMatchObject({
+      startTime: '22:00',
+      endTime: '23:00',
+      recurrenceDays: ['Mon'],
+      effectiveUntil: '2026-12-30',
+    });
+  });
+
+  it('reads daily and monthly nth-weekday repeats', () => {
+    const { rules } = importRules(
+      ['UID:daily', 'DTSTART:20261020T120000Z', 'DTEND:20261020T130000Z', 'RRULE:FREQ=DAILY'],
+      ['UID:monthly', 'DTSTART:20261020T120000Z', 'DTEND:20261020T130000Z', 'RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=3TU']
+    );
+
+    expect(rules[0].recurrenceDays).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+    expect(rules[1]).toMatchObject({
+      recurrenceFrequency: 'monthly',
+      recurrenceInterval: 2,
+      recurrenceDays: ['Tue'],
+      recurrenceWeeks: [3],
+    });
+  });
+
+  it('skips free, cancelled, past and unsupported events with a reason', () => {
+    const { rules, skipped } = importRules(
+      ['UID:free', 'SUMMARY:Lunch\\, maybe', 'TRANSP:TRANSPARENT', 'DTSTART:20261020T150000Z', 'DTEND:20261020T160000Z'],
+      ['UID:cancelled', 'STATUS:CANCELLED', 'DTSTART:20261020T150000Z', 'DTEND:20261020T160000Z'],
+      ['UID:past', 'DTSTART:20261001T150000Z', 'DTEND:20261001T160000Z'],
+      ['UID:bydate', 'DTSTART:20261020T150000Z', 'DTEND:20261020T160000Z', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=20'],
+      ['UID:trip', 'DTSTART;VALUE=DATE:20261020', 'DTEND;VALUE=DATE:20261023', 'RRULE:FREQ=WEEKLY'],
+      ['DTSTART:20261020T150000Z', 'DTEND:20261020T160000Z']
+    );
+
+    expect(rules).toEqual([]);
+    expect(skipped).toEqual([
+      { uid: 'free', summary: 'Lunch, maybe', reason: 'Shown as free' },
+      { uid: 'cancelled', reason: 'Cancelled' },
+      { uid: 'past', reason: 'Already over' },
+      { uid: 'bydate', reason: 'Unsupported repeat rule (BYMONTHDAY)' },
+      { uid: 'trip', reason: "Repeating events longer than a day aren't supported" },
+      { uid: '', reason: 'Missing UID' },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseAvailabilityText } from '@/lib/naturalLanguage';
+import { Engineer } from '@/lib/types';
+import { alice, bob } from '../helpers/fixtures';
+
+// Monday 2026-10-19, noon in New York
+const NOW = new Date('2026-10-19T16:00:00.000Z');
+
+const aliceBrown: Engineer = { id: 'recAliceB00000001', name: 'Alice Brown', active: true };
+const engineers = [alice, bob];
+
+function parse(text: string, list: Engineer[] = engineers) {
+  return parseAvailabilityText(text, list, NOW);
+}
+
+describe('parseAvailabilityText', () => {
+  it('reads a one-time rule with a relative day and an open-ended time', () => {
+    expect(parse('Alice is out next Friday after 6pm')).toEqual({
+      engineer: alice.id,
+      status: 'Unavailable',
+      date: '2026-10-30',
+      start_time: '18:00',
+      end_time: '00:00',
+    });
+  });
+
+  it('reads a recurring rule that ends with a month', () => {
+    expect(parse('Bob free weekdays 10-4 until March')).toEqual({
+      engineer: bob.id,
+      status: 'Available',
+      days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'],
+      start_time: '10:00',
+      end_time: '16:00',
+      effective_until: '2027-03-31',
+    });
+  });
+
+  it('resolves relative and written dates from the studio timezone', () => {
+    expect(parse('alice busy today')).toMatchObject({ date: '2026-10-19', start_time: '00:00', end_time: '00:00' });
+    expect(parse('alice busy tomorrow')).toMatchObject({ date: '2026-10-20' });
+    expect(parse('alice busy friday')).toMatchObject({ date: '2026-10-23' });
+    expect(parse('alice busy monday')).toMatchObject({ date: '2026-10-19' });
+    expect(parse('alice busy Dec 24')).toMatchObject({ date: '2026-12-24' });
+    expect(parse('alice busy 3/2')).toMatchObject({ date: '2027-03-02' });
+    expect(parse('alice busy this afternoon')).toMatchObject({ date: '2026-10-19', start_time: '12:00', end_time: '17:00' });
+  });
+
+  it('reads times with and without am/pm', () => {
+    expect(parse('Alice available Oct 30 9:30 to 5')).toMatchObject({ start_time: '09:30', end_time: '17:00' });
+    expect(parse('Alice available Oct 30 between 6 and 10pm')).toMatchObject({ start_time: '18:00', end_time: '22:00' });
+    expect(parse('Alice available Oct 30 10pm-2')).toMatchObject({ start_time: '22:00', end_time: '02:00' });
+    expect(parse('Alice available Oct 30 before noon')).toMatchObject({ start_time: '00:00', end_time: '12:00' });
+  });
+
+  it('reads recurring days and a start date', () => {
+    expect(parse('alice maybe around mondays and wednesdays evenings from Nov 2')).toEqual({
+      engineer: alice.id,
+      status: 'Maybe',
+      days: ['Mon', 'Wed'],
+      start_time: '17:00',
+      end_time: '22:00',
+      effective_from: '2026-11-02',
+    });
+  });
+
+  it('matches first names, aliases and small typos', () => {
+    expect(parse('Allice is off tomorrow')).toMatchObject({ engineer: alice.id });
+    expect(parse('Alice Smith is off tomorrow', [alice, aliceBrown])).toMatchObject({ engineer: alice.id });
+    expect(parse('Ally is off tomorrow', [{ ...alice, aliases: ['Ally'] }, bob])).toMatchObject({ engineer: alice.id });
+  });
+
+  it('passes an ambiguous name through as written', () => {
+    expect(parse("Alice's off tomorrow", [alice, aliceBrown])).toMatchObject({ engineer: 'alice' });
+  });
+
+  it('explains what it could not understand', () => {
+    expect(parse('Dave is out tomorrow')).toBe('No engineer name found in text');
+    expect(parse('Alice tomorrow')).toMatch(/available/);
+    expect(parse('Alice is out')).toMatch(/date/);
+    expect(parse('Alice is out until Friday')).toMatch(/one day at a time/);
+    expect(parse('Alice is out tomorrow 25:00-3')).toMatch(/Could not read the times/);
+  });
+});
@@ -0,0 +1,85 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import type { SessionConflict, SessionConflictType, SlotRange } from '@/lib/availability';
+import type { Session } from '@/lib/types';
+
+interface ConflictReportProps {
+  conflicts: SessionConflict[];
+  loading?: boolean;
+}
+
+const TYPE_LABELS: Record<SessionConflictType, { label: string; pill: string }> = {
+  unavailable: { label: 'Over unavailable time', pill: 'unavailable' },
+  overlap: { label: 'Double-booked', pill: 'maybe' },
+  not_set: { label: 'Availability not set', pill: 'blank' },
+  inactive_engineer: { label: 'Inactive engineer', pill: 'blank' },
+};
+
+export default function ConflictReport({ conflicts, loading = false }: ConflictReportProps) {
+  if (loading) {
+    return (
+      <div className="bg-slate-800/50 rounded-2xl p-4 space-y-3">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="loading-shimmer h-16 rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (conflicts.length === 0) {
+    return (
+      <div className="bg-slate-800/50 rounded-2xl p-6 text-center text-slate-400">
+        No conflicts in this range.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="bg-slate-800/50 rounded-2xl p-4 space-y-2">
+      {conflicts.map((conflict, i) => (
+        <li key={`${conflict.type}-${conflict.session.id}-${i}`} className="rule-item">
+          <div className="flex items-center justify-between gap-2">
+            <span className={`status-pill ${TYPE_LABELS[conflict.type].pill} active`}>
+              {TYPE_LABELS[conflict.type].label}
+            </span>
+            <span className="text-xs text-slate-500">
+              {conflict.session.engineerName || `Engineer ${conflict.session.engineerId || 'missing'}`}
+            </span>
+          </div>
+          <div className="text-sm text-slate-200 mt-2">{describeSession(conflict.session)}</div>
+          <div className="text-xs text-slate-400 mt-1">{describeConflict(conflict)}</div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function describeTimes(start: string, end: string): string {
+  const startDate = parseISO(start);
+  const endDate = parseISO(end);
+  const sameDay = format(startDate, 'yyyy-MM-dd') === format(endDate, 'yyyy-MM-dd');
+  return `${format(startDate, 'EEE MMM d, HH:mm')}–${format(endDate, sameDay ? 'HH:mm' : 'EEE MMM d, HH:mm')}`;
+}
+
+function describeSession(session: Session): string {
+  return `${session.title || 'Untitled session'} · ${describeTimes(session.start, session.end)}`;
+}
+
+function describeRanges(ranges: SlotRange[] = []): string {
+  return ranges.map((range) => describeTimes(range.start, range.end)).join(', ');
+}
+
+function describeConflict(conflict: SessionConflict): string {
+  switch (conflict.type) {
+    case 'unavailable':
+      return `Marked unavailable ${describeRanges(conflict.ranges)}`;
+    case 'not_set':
+      return `No availability set ${describeRanges(conflict.ranges)}`;
+    case 'overlap':
+      return conflict.otherSession
+        ? `Overlaps ${describeSession(conflict.otherSession)}`
+        : 'Overlaps another session';
+    case 'inactive_engineer':
+      return 'Assigned to an engineer who is inactive or no longer exists';
+  }
+}
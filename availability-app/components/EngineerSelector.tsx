@@ -1,5 +1,5 @@
 import React from 'react';
-import { Engineer } from '@/lib/airtable';
+import { Engineer } from '@/lib/types';
 
 interface EngineerSelectorProps {
   engineers: Engineer[];
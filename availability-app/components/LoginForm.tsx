@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+
+interface LoginFormProps {
+  expired?: boolean;
+}
+
+export default function LoginForm({ expired = false }: LoginFormProps) {
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(
+    expired ? 'That sign-in link has expired. Request a new one below.' : null
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setSending(true);
+    try {
+      const res = await fetch('/api/auth', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await res.json();
+      setMessage(res.ok ? data.message : data.error || 'Failed to send sign-in link');
+    } catch (error) {
+      console.error('Error requesting sign-in link:', error);
+      setMessage('Failed to send sign-in link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-slate-800/50 rounded-2xl p-6">
+      <h2 className="text-xl font-semibold text-white mb-2">Sign in</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Enter your work email and we&apos;ll send you a sign-in link.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          className="input"
+          autoFocus
+        />
+        <button type="submit" className="btn btn-primary w-full" disabled={sending}>
+          {sending ? 'Sending...' : 'Email me a link'}
+        </button>
+      </form>
+      {message && <p className="text-sm text-slate-300 mt-4">{message}</p>}
+    </div>
+  );
+}
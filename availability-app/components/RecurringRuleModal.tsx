@@ -1,10 +1,11 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { SlotStatus } from '@/lib/availability';
 
 interface RecurringRuleModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (rule: RecurringRule) => void;
+  initialRule?: RecurringRule; // Prefills the form when editing an existing rule
 }
 
 export interface RecurringRule {
@@ -12,11 +13,24 @@ export interface RecurringRule {
   startTime: string;
   endTime: string;
   days: string[];
+  frequency?: 'weekly' | 'monthly';
+  interval?: number; // Every N weeks/months, counted from effectiveFrom
+  weeksOfMonth?: number[]; // Monthly only: 1-5 = nth weekday, -1 = last
   effectiveFrom?: string;
   effectiveUntil?: string;
+  exceptions?: string[]; // 'YYYY-MM-DD' or 'YYYY-MM-DD/YYYY-MM-DD'
+  priority?: number; // Higher wins over other rules; defaults to 0
 }
 
 const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const WEEKS_OF_MONTH = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: 5, label: '5th' },
+  { value: -1, label: 'Last' },
+];
 const TIMES = Array.from({ length: 48 }, (_, i) => {
   const hour = Math.floor(i / 2);
   const min = i % 2 === 0 ? '00' : '30';
@@ -28,13 +42,39 @@ export default function RecurringRuleModal({
   isOpen,
   onClose,
   onSave,
+  initialRule,
 }: RecurringRuleModalProps) {
   const [status, setStatus] = useState<'Available' | 'Maybe' | 'Unavailable'>('Available');
   const [startTime, setStartTime] = useState('09:00');
   const [endTime, setEndTime] = useState('17:00');
   const [selectedDays, setSelectedDays] = useState<string[]>(['Mon', 'Tue', 'Wed', 'Thu', 'Fri']);
+  const [frequency, setFrequency] = useState<'weekly' | 'monthly'>('weekly');
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [weeksOfMonth, setWeeksOfMonth] = useState<number[]>([]);
   const [effectiveFrom, setEffectiveFrom] = useState('');
   const [effectiveUntil, setEffectiveUntil] = useState('');
+  const [exceptions, setExceptions] = useState<string[]>([]);
+  const [priority, setPriority] = useState(0);
+  const [exceptionFrom, setExceptionFrom] = useState('');
+  const [exceptionUntil, setExceptionUntil] = useState('');
+
+  // Load the rule being edited (or a blank form) each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setStatus(initialRule?.status || 'Available');
+    setStartTime(initialRule?.startTime || '09:00');
+    setEndTime(initialRule?.endTime || '17:00');
+    setSelectedDays(initialRule?.days || ['Mon', 'Tue', 'Wed', 'Thu', 'Fri']);
+    setFrequency(initialRule?.frequency || 'weekly');
+    setRepeatInterval(initialRule?.interval || 1);
+    setWeeksOfMonth(initialRule?.weeksOfMonth || []);
+    setEffectiveFrom(initialRule?.effectiveFrom || '');
+    setEffectiveUntil(initialRule?.effectiveUntil || '');
+    setExceptions(initialRule?.exceptions || []);
+    setPriority(initialRule?.priority || 0);
+    setExceptionFrom('');
+    setExceptionUntil('');
+  }, [isOpen, initialRule]);
 
   const toggleDay = (day: string) => {
     setSelectedDays((prev) =>
@@ -42,6 +82,28 @@ export default function RecurringRuleModal({
     );
   };
 
+  const toggleWeekOfMonth = (week: number) => {
+    setWeeksOfMonth((prev) =>
+      prev.includes(week) ? prev.filter((w) => w !== week) : [...prev, week]
+    );
+  };
+
+  const addException = () => {
+    if (!exceptionFrom) return;
+    if (exceptionUntil && exceptionUntil < exceptionFrom) {
+      alert('Exception end date must be on or after its start date');
+      return;
+    }
+
+    const exception =
+      exceptionUntil && exceptionUntil !== exceptionFrom
+        ? `${exceptionFrom}/${exceptionUntil}`
+        : exceptionFrom;
+    setExceptions((prev) => (prev.includes(exception) ? prev : [...prev, exception].sort()));
+    setExceptionFrom('');
+    setExceptionUntil('');
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -50,13 +112,23 @@ export default function RecurringRuleModal({
       return;
     }
 
+    if (repeatInterval > 1 && !effectiveFrom) {
+      alert('Set an Effective From date to count the repeat interval from');
+      return;
+    }
+
     onSave({
       status,
       startTime,
       endTime,
       days: selectedDays,
+      frequency,
+      interval: repeatInterval > 1 ? repeatInterval : undefined,
+      weeksOfMonth: frequency === 'monthly' && weeksOfMonth.length > 0 ? weeksOfMonth : undefined,
       effectiveFrom: effectiveFrom || undefined,
       effectiveUntil: effectiveUntil || undefined,
+      exceptions: exceptions.length > 0 ? exceptions : undefined,
+      priority: priority || undefined,
     });
 
     // Reset form
@@ -64,8 +136,13 @@ export default function RecurringRuleModal({
     setStartTime('09:00');
     setEndTime('17:00');
     setSelectedDays(['Mon', 'Tue', 'Wed', 'Thu', 'Fri']);
+    setFrequency('weekly');
+    setRepeatInterval(1);
+    setWeeksOfMonth([]);
     setEffectiveFrom('');
     setEffectiveUntil('');
+    setExceptions([]);
+    setPriority(0);
     onClose();
   };
 
@@ -74,7 +151,9 @@ export default function RecurringRuleModal({
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-        <h2 className="text-xl font-semibold mb-6">Set Recurring Availability</h2>
+        <h2 className="text-xl font-semibold mb-6">
+          {initialRule ? 'Edit Recurring Availability' : 'Set Recurring Availability'}
+        </h2>
         
         <form onSubmit={handleSubmit} className="space-y-5">
           {/* Status selection */}
@@ -171,6 +250,57 @@ export default function RecurringRuleModal({
             </button>
           </div>
 
+          {/* Repeat pattern */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Repeat</label>
+              <select
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as 'weekly' | 'monthly')}
+                className="select w-full"
+              >
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">
+                Every {frequency === 'monthly' ? 'N months' : 'N weeks'}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={12}
+                value={repeatInterval}
+                onChange={(e) => setRepeatInterval(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                className="input"
+              />
+            </div>
+          </div>
+
+          {frequency === 'monthly' && (
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">
+                Which weeks <span className="text-slate-600">(none = every week of the month)</span>
+              </label>
+              <div className="checkbox-group">
+                {WEEKS_OF_MONTH.map(({ value, label }) => (
+                  <label
+                    key={value}
+                    className={`checkbox-label ${weeksOfMonth.includes(value) ? 'checked' : ''}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={weeksOfMonth.includes(value)}
+                      onChange={() => toggleWeekOfMonth(value)}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Effective date range (optional) */}
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -197,6 +327,68 @@ export default function RecurringRuleModal({
             </div>
           </div>
 
+          {/* Exception dates (optional) */}
+          <div>
+            <label className="block text-sm text-slate-400 mb-2">
+              Except <span className="text-slate-600">(optional dates or ranges to skip)</span>
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={exceptionFrom}
+                onChange={(e) => setExceptionFrom(e.target.value)}
+                className="input"
+              />
+              <span className="text-slate-500 text-sm">to</span>
+              <input
+                type="date"
+                value={exceptionUntil}
+                min={exceptionFrom || undefined}
+                onChange={(e) => setExceptionUntil(e.target.value)}
+                className="input"
+              />
+              <button
+                type="button"
+                onClick={addException}
+                disabled={!exceptionFrom}
+                className="btn btn-secondary"
+              >
+                Add
+              </button>
+            </div>
+            {exceptions.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {exceptions.map((exception) => (
+                  <span key={exception} className="checkbox-label checked">
+                    {exception.replace('/', ' – ')}
+                    <button
+                      type="button"
+                      onClick={() => setExceptions((prev) => prev.filter((x) => x !== exception))}
+                      className="text-slate-400 hover:text-white"
+                      aria-label={`Remove exception ${exception}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Priority (optional) */}
+          <div>
+            <label className="block text-sm text-slate-400 mb-2">
+              Priority <span className="text-slate-600">(optional, higher beats one-time rules)</span>
+            </label>
+            <input
+              type="number"
+              step={1}
+              value={priority}
+              onChange={(e) => setPriority(parseInt(e.target.value, 10) || 0)}
+              className="input"
+            />
+          </div>
+
           {/* Actions */}
           <div className="flex justify-end gap-3 pt-4">
             <button type="button" onClick={onClose} className="btn btn-secondary">
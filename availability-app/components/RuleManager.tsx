@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { formatInTimeZone } from 'date-fns-tz';
+import { AvailabilityRule } from '@/lib/types';
+import {
+  describeRecurrence,
+  compareRulePrecedence,
+  parseZonedDateTime,
+  TIMEZONE,
+} from '@/lib/availability';
+
+interface RuleManagerProps {
+  rules: AvailabilityRule[];
+  highlightedRuleId?: string;
+  onEdit: (rule: AvailabilityRule) => void;
+  onUpdateOneTime: (
+    rule: AvailabilityRule,
+    changes: Pick<AvailabilityRule, 'status' | 'startDateTime' | 'endDateTime'>
+  ) => void;
+  onDelete: (rule: AvailabilityRule) => void;
+  onCompact?: () => void;
+  loading?: boolean;
+  timeZone?: string; // Studio zone the rule times are shown and edited in
+}
+
+const STATUS_LABELS: Record<AvailabilityRule['status'], string> = {
+  Available: 'Available',
+  Maybe: 'Maybe',
+  Unavailable: 'Unavailable',
+  Blank: 'Erased',
+};
+
+const SOURCE_LABELS: Record<AvailabilityRule['source'], string> = {
+  web_app: 'Web app',
+  chatbot: 'Chatbot',
+  booking: 'Booking',
+  calendar_import: 'Calendar import',
+};
+
+export default function RuleManager({
+  rules,
+  highlightedRuleId,
+  onEdit,
+  onUpdateOneTime,
+  onDelete,
+  onCompact,
+  loading = false,
+  timeZone = TIMEZONE,
+}: RuleManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const highlightedRef = useRef<HTMLLIElement>(null);
+
+  // List highest precedence first
+  const sortedRules = [...rules].sort((a, b) => compareRulePrecedence(b, a));
+
+  useEffect(() => {
+    highlightedRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlightedRuleId]);
+
+  if (loading) {
+    return (
+      <div className="bg-slate-800/50 rounded-2xl p-4 space-y-3">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="loading-shimmer h-16 rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-semibold">Rules</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-500">Top rule wins</span>
+          {onCompact && rules.length > 0 && (
+            <button
+              onClick={onCompact}
+              className="text-xs text-blue-400 hover:text-blue-300"
+              title="Merge adjacent rules and remove ones that no longer affect any slot"
+            >
+              Compact
+            </button>
+          )}
+        </div>
+      </div>
+
+      {sortedRules.length === 0 ? (
+        <p className="text-sm text-slate-400">No rules yet. Paint the calendar to add some.</p>
+      ) : (
+        <ul className="space-y-2 max-h-[640px] overflow-y-auto pr-1">
+          {sortedRules.map((rule) => {
+            const isHighlighted = rule.id === highlightedRuleId;
+            return (
+              <li
+                key={rule.id}
+                ref={isHighlighted ? highlightedRef : undefined}
+                className={`rule-item ${isHighlighted ? 'highlighted' : ''}`}
+              >
+                {editingId === rule.id ? (
+                  <OneTimeRuleForm
+                    rule={rule}
+                    timeZone={timeZone}
+                    onCancel={() => setEditingId(null)}
+                    onSave={(changes) => {
+                      setEditingId(null);
+                      onUpdateOneTime(rule, changes);
+                    }}
+                  />
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`status-pill ${rule.status.toLowerCase()} active`}>
+                        {STATUS_LABELS[rule.status]}
+                      </span>
+                      <span className="text-xs text-slate-500">
+                        {rule.ruleType === 'recurring' ? 'Recurring' : 'One-time'} ·{' '}
+                        {SOURCE_LABELS[rule.source] || rule.source}
+                        {rule.priority ? ` · Priority ${rule.priority}` : ''}
+                      </span>
+                    </div>
+                    <div className="text-sm text-slate-200 mt-2">{describeRule(rule, timeZone)}</div>
+                    {rule.ruleType === 'recurring' && (
+                      <div className="text-xs text-slate-400 mt-1">{describeEffectiveRange(rule)}</div>
+                    )}
+                    <div className="flex justify-end gap-3 mt-2">
+                      <button
+                        onClick={() =>
+                          rule.ruleType === 'recurring' ? onEdit(rule) : setEditingId(rule.id)
+                        }
+                        className="text-xs text-blue-400 hover:text-blue-300"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => onDelete(rule)}
+                        className="text-xs text-red-400 hover:text-red-300"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface OneTimeRuleFormProps {
+  rule: AvailabilityRule;
+  timeZone: string;
+  onSave: (changes: Pick<AvailabilityRule, 'status' | 'startDateTime' | 'endDateTime'>) => void;
+  onCancel: () => void;
+}
+
+function OneTimeRuleForm({ rule, timeZone, onSave, onCancel }: OneTimeRuleFormProps) {
+  const [status, setStatus] = useState(rule.status);
+  const [start, setStart] = useState(toInputValue(timeZone, rule.startDateTime));
+  const [end, setEnd] = useState(toInputValue(timeZone, rule.endDateTime));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!start || !end || end <= start) {
+      alert('End must be after start');
+      return;
+    }
+
+    onSave({ status, startDateTime: `${start}:00`, endDateTime: `${end}:00` });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-1">
+        {(['Available', 'Maybe', 'Unavailable'] as const).map((s) => (
+          <button
+            key={s}
+            type="button"
+            onClick={() => setStatus(s)}
+            className={`status-pill ${s.toLowerCase()} ${status === s ? 'active' : ''}`}
+          >
+            {s}
+          </button>
+        ))}
+      </div>
+      <input
+        type="datetime-local"
+        step={1800}
+        value={start}
+        onChange={(e) => setStart(e.target.value)}
+        className="input"
+      />
+      <input
+        type="datetime-local"
+        step={1800}
+        value={end}
+        onChange={(e) => setEnd(e.target.value)}
+        className="input"
+      />
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="text-xs text-slate-400 hover:text-slate-300">
+          Cancel
+        </button>
+        <button type="submit" className="text-xs text-blue-400 hover:text-blue-300">
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function describeRule(rule: AvailabilityRule, timeZone: string): string {
+  if (rule.ruleType === 'recurring') {
+    return `${describeRecurrence(rule)} · ${rule.startTime}–${rule.endTime}`;
+  }
+
+  if (!rule.startDateTime || !rule.endDateTime) return 'Incomplete rule';
+  // Shown in the studio zone, whatever zone the browser is in
+  const start = parseZonedDateTime(rule.startDateTime, timeZone);
+  const end = parseZonedDateTime(rule.endDateTime, timeZone);
+  const show = (date: Date, pattern: string) => formatInTimeZone(date, timeZone, pattern);
+  const sameDay = show(start, 'yyyy-MM-dd') === show(end, 'yyyy-MM-dd');
+  return `${show(start, 'EEE MMM d, HH:mm')}–${show(end, sameDay ? 'HH:mm' : 'EEE MMM d, HH:mm')}`;
+}
+
+function describeEffectiveRange(rule: AvailabilityRule): string {
+  let range = 'Always in effect';
+  if (rule.effectiveFrom && rule.effectiveUntil) {
+    range = `${rule.effectiveFrom} to ${rule.effectiveUntil}`;
+  } else if (rule.effectiveFrom) {
+    range = `From ${rule.effectiveFrom}`;
+  } else if (rule.effectiveUntil) {
+    range = `Until ${rule.effectiveUntil}`;
+  }
+
+  if (!rule.exceptions?.length) return range;
+  return `${range} · except ${rule.exceptions.map((e) => e.replace('/', '–')).join(', ')}`;
+}
+
+// Studio wall-clock time, which is how the server reads the saved value back
+function toInputValue(timeZone: string, datetime?: string): string {
+  if (!datetime) return '';
+  return formatInTimeZone(parseZonedDateTime(datetime, timeZone), timeZone, "yyyy-MM-dd'T'HH:mm");
+}
@@ -10,6 +10,7 @@ const STATUSES: { value: SlotStatus; label: string; description: string }[] = [
   { value: 'Available', label: 'Available', description: 'Ready to work' },
   { value: 'Maybe', label: 'Maybe', description: 'Possibly available' },
   { value: 'Unavailable', label: 'Unavailable', description: 'Not available' },
+  { value: 'Blank', label: 'Erase', description: 'Clear back to not set' },
 ];
 
 export default function StatusSelector({ selected, onSelect }: StatusSelectorProps) {
@@ -0,0 +1,118 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import type { HeatmapDay, HeatmapSlot } from '@/lib/availability';
+
+interface TeamHeatmapProps {
+  heatmap: HeatmapDay[];
+  teamSize: number;
+  selectedSlot?: string; // datetime of the pinned slot
+  onSlotClick: (slot: HeatmapSlot) => void;
+  loading?: boolean;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, i) => i);
+
+// Hover text listing who is in each status
+export function describeHeatmapSlot(slot: HeatmapSlot): string {
+  const lines = [
+    ['Available', slot.available],
+    ['Maybe', slot.maybe],
+    ['Booked', slot.booked],
+    ['Unavailable', slot.unavailable],
+    ['Not set', slot.not_set],
+  ] as const;
+  return lines
+    .filter(([, names]) => names.length > 0)
+    .map(([label, names]) => `${label}: ${names.join(', ')}`)
+    .join('\n');
+}
+
+// Green by how many are free, Maybe counting half; amber when only Maybe engineers are free
+function heatStyle(slot: HeatmapSlot, teamSize: number): React.CSSProperties {
+  if (teamSize === 0) return {};
+  if (slot.available.length === 0 && slot.maybe.length > 0) {
+    return { background: `rgba(234, 179, 8, ${0.2 + (0.6 * slot.maybe.length) / teamSize})` };
+  }
+  const free = slot.available.length + slot.maybe.length / 2;
+  if (free === 0) return {};
+  return { background: `rgba(34, 197, 94, ${0.2 + (0.8 * free) / teamSize})` };
+}
+
+export default function TeamHeatmap({
+  heatmap,
+  teamSize,
+  selectedSlot,
+  onSlotClick,
+  loading = false,
+}: TeamHeatmapProps) {
+  const timeLabels = HOURS.flatMap((hour) => [
+    format(new Date(2024, 0, 1, hour, 0), 'h:mm a'),
+    format(new Date(2024, 0, 1, hour, 30), 'h:mm a'),
+  ]);
+
+  if (loading) {
+    return (
+      <div className="bg-slate-800/50 rounded-2xl p-6">
+        <div className="grid grid-cols-8 gap-2">
+          <div className="w-16" />
+          {Array.from({ length: 7 }).map((_, d) => (
+            <div key={d} className="space-y-1">
+              {Array.from({ length: 24 }).map((_, s) => (
+                <div key={s} className="loading-shimmer h-6 rounded" />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 select-none">
+      {/* Header row with day names */}
+      <div className="grid grid-cols-8 gap-2 mb-4">
+        <div className="w-16" />
+        {heatmap.map((day) => (
+          <div key={day.date} className="text-center">
+            <div className="text-slate-400 text-xs uppercase tracking-wider">{day.dayName}</div>
+            <div className="text-white font-semibold text-lg">{format(parseISO(day.date), 'd')}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="max-h-[600px] overflow-y-auto pr-2">
+        <div className="grid grid-cols-8 gap-2">
+          {/* Time labels column */}
+          <div className="space-y-0">
+            {timeLabels.map((label, i) => (
+              <div key={i} className="h-6 flex items-center justify-end pr-2 text-xs text-slate-500">
+                {i % 2 === 0 ? label : ''}
+              </div>
+            ))}
+          </div>
+
+          {/* Day columns */}
+          {heatmap.map((day) => (
+            <div key={day.date} className="space-y-0">
+              {day.slots.map((slot) => (
+                <div
+                  key={slot.datetime}
+                  className={`time-slot blank flex items-center justify-center gap-1 text-[10px] font-medium text-white ${
+                    slot.datetime === selectedSlot ? 'inspected' : ''
+                  }`}
+                  style={heatStyle(slot, teamSize)}
+                  onClick={() => onSlotClick(slot)}
+                  title={`${day.dayName} ${slot.time}\n${describeHeatmapSlot(slot)}`}
+                >
+                  {slot.available.length > 0 && <span>{slot.available.length}</span>}
+                  {slot.maybe.length > 0 && <span className="text-yellow-200">?{slot.maybe.length}</span>}
+                  {slot.booked.length > 0 && <span className="text-violet-300">●{slot.booked.length}</span>}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
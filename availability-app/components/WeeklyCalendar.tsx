@@ -6,6 +6,8 @@ interface WeeklyCalendarProps {
   availability: DayAvailability[];
   selectedStatus: SlotStatus;
   onSlotsSelected: (slots: { date: string; time: string }[]) => void;
+  onSlotClick?: (slot: TimeSlot) => void;
+  inspectedSlot?: string; // datetime of the slot whose rule is highlighted
   loading?: boolean;
 }
 
@@ -16,6 +18,8 @@ export default function WeeklyCalendar({
   availability,
   selectedStatus,
   onSlotsSelected,
+  onSlotClick,
+  inspectedSlot,
   loading = false,
 }: WeeklyCalendarProps) {
   const [isDragging, setIsDragging] = useState(false);
@@ -30,6 +34,7 @@ export default function WeeklyCalendar({
   ]);
 
   const handleMouseDown = (dayIndex: number, slotIndex: number, slot: TimeSlot) => {
+    onSlotClick?.(slot);
     if (slot.status === 'Booked') return;
     
     setIsDragging(true);
@@ -93,7 +98,8 @@ export default function WeeklyCalendar({
 
   const getSlotClass = (slot: TimeSlot, dayIndex: number, slotIndex: number) => {
     const isSelected = selectedSlots.has(`${dayIndex}-${slotIndex}`);
-    const baseClass = `time-slot ${slot.status.toLowerCase()}`;
+    let baseClass = `time-slot ${slot.status.toLowerCase()}`;
+    if (slot.datetime === inspectedSlot) baseClass += ' inspected';
     return isSelected ? `${baseClass} selecting` : baseClass;
   };
 
@@ -167,7 +173,7 @@ export default function WeeklyCalendar({
             <div key={day.date} className="space-y-0">
               {day.slots.map((slot, slotIndex) => (
                 <div
-                  key={`${day.date}-${slot.time}`}
+                  key={slot.datetime}
                   className={getSlotClass(slot, dayIndex, slotIndex)}
                   onMouseDown={() => handleMouseDown(dayIndex, slotIndex, slot)}
                   onMouseEnter={() => handleMouseEnter(dayIndex, slotIndex, slot)}
@@ -1,54 +1,139 @@
 import Airtable from 'airtable';
+import {
+  ApiKey,
+  Engineer,
+  AvailabilityRule,
+  NewAvailabilityRule,
+  NewSession,
+  Session,
+} from './types';
+import { and, or, isRecordId, isoDateValue, quote, recordIdValue } from './formula';
+import { getWindowDates } from './availability';
 
-// Initialize Airtable
-const base = new Airtable({ apiKey: process.env.AIRTABLE_API_KEY }).base(
-  process.env.AIRTABLE_BASE_ID!
-);
-
-export const engineersTable = base(process.env.ENGINEERS_TABLE_ID!);
-export const availabilityTable = base(process.env.AVAILABILITY_TABLE_ID!);
-export const sessionsTable = base(process.env.SESSIONS_TABLE_ID!);
-
-export interface Engineer {
-  id: string;
-  name: string;
-  email?: string;
-  phone?: string;
-  active: boolean;
+// The base is opened on first use, so other storage backends run without Airtable credentials
+let base: ReturnType<Airtable['base']> | undefined;
+
+function getBase() {
+  if (!base) {
+    base = new Airtable({ apiKey: process.env.AIRTABLE_API_KEY }).base(
+      process.env.AIRTABLE_BASE_ID!
+    );
+  }
+  return base;
+}
+
+const engineersTable = () => getBase()(process.env.ENGINEERS_TABLE_ID!);
+const availabilityTable = () => getBase()(process.env.AVAILABILITY_TABLE_ID!);
+const sessionsTable = () => getBase()(process.env.SESSIONS_TABLE_ID!);
+const apiKeysTable = () => getBase()(process.env.API_KEYS_TABLE_ID!);
+const usedTokensTable = () => getBase()(process.env.USED_TOKENS_TABLE_ID!);
+
+// Without a used-tokens table, single-use tokens are only remembered by this process
+const localUsedTokens = new Map<string, number>();
+let warnedLocalUsedTokens = false;
+
+// Map a rule onto Availability table fields
+function toRuleFields(rule: NewAvailabilityRule): any {
+  const fields: any = {
+    Engineer: [rule.engineerId],
+    Status: rule.status,
+    Rule_Type: rule.ruleType,
+    Source: rule.source,
+  };
+
+  if (rule.priority) fields.Priority = rule.priority;
+  if (rule.createdBy) fields.Created_By = rule.createdBy;
+  if (rule.importId) fields.Import_ID = rule.importId;
+
+  if (rule.ruleType === 'one-time') {
+    fields.Start_DateTime = rule.startDateTime;
+    fields.End_DateTime = rule.endDateTime;
+  } else {
+    fields.Start_Time = rule.startTime;
+    fields.End_Time = rule.endTime;
+    fields.Recurrence_Days = rule.recurrenceDays;
+    if (rule.recurrenceFrequency) fields.Recurrence_Frequency = rule.recurrenceFrequency;
+    if (rule.recurrenceInterval) fields.Recurrence_Interval = rule.recurrenceInterval;
+    if (rule.recurrenceWeeks?.length) fields.Recurrence_Weeks = rule.recurrenceWeeks.join(',');
+    if (rule.effectiveFrom) fields.Effective_From = rule.effectiveFrom;
+    if (rule.effectiveUntil) fields.Effective_Until = rule.effectiveUntil;
+    if (rule.exceptions?.length) fields.Exceptions = rule.exceptions.join(', ');
+  }
+
+  return fields;
+}
+
+// Fields for an update: every type-specific field is written so stale values are cleared
+function toRuleUpdateFields(rule: NewAvailabilityRule): any {
+  const { Engineer, Source, ...fields } = toRuleFields(rule);
+  return {
+    Start_DateTime: null,
+    End_DateTime: null,
+    Start_Time: null,
+    End_Time: null,
+    Recurrence_Days: [],
+    Recurrence_Frequency: null,
+    Recurrence_Interval: null,
+    Recurrence_Weeks: null,
+    Effective_From: null,
+    Effective_Until: null,
+    Exceptions: null,
+    Priority: null,
+    ...fields,
+  };
 }
 
-export interface AvailabilityRule {
-  id: string;
-  engineerId: string;
-  engineerName?: string;
-  status: 'Available' | 'Maybe' | 'Unavailable';
-  ruleType: 'one-time' | 'recurring';
-  startDateTime?: string;
-  endDateTime?: string;
-  startTime?: string;
-  endTime?: string;
-  recurrenceDays?: string[];
-  effectiveFrom?: string;
-  effectiveUntil?: string;
-  source: 'web_app' | 'chatbot' | 'booking';
-  updatedAt: string;
+// Exceptions and aliases are stored as comma-separated text fields
+function parseList(value?: string): string[] | undefined {
+  const items = (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
 }
 
-export interface Session {
-  id: string;
-  title: string;
-  engineerId: string;
-  engineerName?: string;
-  start: string;
-  end: string;
+// Week ordinals are stored as comma-separated text, e.g. "1,-1"
+function parseRecurrenceWeeks(value?: string): number[] | undefined {
+  const weeks = (value || '')
+    .split(',')
+    .map((week) => parseInt(week.trim(), 10))
+    .filter((week) => !isNaN(week));
+  return weeks.length > 0 ? weeks : undefined;
+}
+
+// Map an Availability table record onto a rule
+function toAvailabilityRule(record: any, updatedAt?: string): AvailabilityRule {
+  const engineerField = record.get('Engineer') as string[] | undefined;
+  return {
+    id: record.id,
+    engineerId: engineerField?.[0] || '',
+    status: record.get('Status') as AvailabilityRule['status'],
+    ruleType: record.get('Rule_Type') as AvailabilityRule['ruleType'],
+    startDateTime: record.get('Start_DateTime') as string | undefined,
+    endDateTime: record.get('End_DateTime') as string | undefined,
+    startTime: record.get('Start_Time') as string | undefined,
+    endTime: record.get('End_Time') as string | undefined,
+    recurrenceDays: record.get('Recurrence_Days') as string[] | undefined,
+    recurrenceFrequency: record.get('Recurrence_Frequency') as AvailabilityRule['recurrenceFrequency'],
+    recurrenceInterval: record.get('Recurrence_Interval') as number | undefined,
+    recurrenceWeeks: parseRecurrenceWeeks(record.get('Recurrence_Weeks') as string | undefined),
+    effectiveFrom: record.get('Effective_From') as string | undefined,
+    effectiveUntil: record.get('Effective_Until') as string | undefined,
+    exceptions: parseList(record.get('Exceptions') as string | undefined),
+    priority: record.get('Priority') as number | undefined,
+    source: record.get('Source') as AvailabilityRule['source'],
+    createdBy: record.get('Created_By') as string | undefined,
+    importId: record.get('Import_ID') as string | undefined,
+    updatedAt: updatedAt || (record.get('Updated_Time') as string),
+  };
 }
 
 // Fetch all active engineers
 export async function getEngineers(): Promise<Engineer[]> {
-  const records = await engineersTable
+  const records = await engineersTable()
     .select({
       filterByFormula: '{Active} = 1',
-      fields: ['Name', 'Email', 'Phone# (E.164)', 'Active'],
+      fields: ['Name', 'Email', 'Phone# (E.164)', 'Aliases', 'Active', 'Admin'],
     })
     .all();
 
@@ -57,59 +142,111 @@ export async function getEngineers(): Promise<Engineer[]> {
     name: record.get('Name') as string,
     email: record.get('Email') as string | undefined,
     phone: record.get('Phone# (E.164)') as string | undefined,
+    aliases: parseList(record.get('Aliases') as string | undefined),
     active: record.get('Active') as boolean,
+    admin: record.get('Admin') === true,
   }));
 }
 
+const RULE_FIELDS = [
+  'Engineer',
+  'Status',
+  'Rule_Type',
+  'Start_DateTime',
+  'End_DateTime',
+  'Start_Time',
+  'End_Time',
+  'Recurrence_Days',
+  'Recurrence_Frequency',
+  'Recurrence_Interval',
+  'Recurrence_Weeks',
+  'Effective_From',
+  'Effective_Until',
+  'Exceptions',
+  'Priority',
+  'Source',
+  'Created_By',
+  'Import_ID',
+  'Updated_Time',
+];
+
 // Fetch availability rules for an engineer
 export async function getAvailabilityRules(
   engineerId?: string
 ): Promise<AvailabilityRule[]> {
-  const filterFormula = engineerId
-    ? `RECORD_ID() = '${engineerId}'`
-    : '';
-
   const selectOptions: any = {
-    fields: [
-      'Engineer',
-      'Status',
-      'Rule_Type',
-      'Start_DateTime',
-      'End_DateTime',
-      'Start_Time',
-      'End_Time',
-      'Recurrence_Days',
-      'Effective_From',
-      'Effective_Until',
-      'Source',
-      'Updated_Time',
-    ],
+    fields: RULE_FIELDS,
   };
 
   if (engineerId) {
-    selectOptions.filterByFormula = `FIND('${engineerId}', ARRAYJOIN({Engineer}))`;
+    selectOptions.filterByFormula = `FIND(${recordIdValue(engineerId)}, ARRAYJOIN({Engineer}))`;
+  }
+
+  const records = await availabilityTable().select(selectOptions).all();
+
+  return records.map((record) => toAvailabilityRule(record));
+}
+
+// Fetch the rules that can cover any time between two ISO datetimes: one-time rules
+// overlapping the window and recurring rules whose effective dates reach into it
+export async function getAvailabilityRulesInRange(
+  startDate: string,
+  endDate: string,
+  engineerId?: string
+): Promise<AvailabilityRule[]> {
+  const start = isoDateValue(startDate);
+  const end = isoDateValue(endDate);
+  const { firstDate, lastDate } = getWindowDates(new Date(startDate), new Date(endDate));
+  const conditions = [
+    or([
+      and([
+        "{Rule_Type} = 'one-time'",
+        `IS_BEFORE({Start_DateTime}, ${end})`,
+        `IS_AFTER({End_DateTime}, ${start})`,
+      ]),
+      and([
+        "{Rule_Type} != 'one-time'",
+        `OR({Effective_From} = BLANK(), NOT(IS_AFTER({Effective_From}, ${isoDateValue(lastDate)})))`,
+        `OR({Effective_Until} = BLANK(), NOT(IS_BEFORE({Effective_Until}, ${isoDateValue(firstDate)})))`,
+      ]),
+    ]),
+  ];
+  if (engineerId) {
+    conditions.push(`FIND(${recordIdValue(engineerId)}, ARRAYJOIN({Engineer}))`);
+  }
+
+  const records = await availabilityTable()
+    .select({ fields: RULE_FIELDS, filterByFormula: and(conditions) })
+    .all();
+
+  return records.map((record) => toAvailabilityRule(record));
+}
+
+// Fetch a single availability rule, or null if it doesn't exist
+export async function getAvailabilityRule(
+  ruleId: string
+): Promise<AvailabilityRule | null> {
+  // A malformed ID can't match a record, so don't send it to Airtable
+  if (!isRecordId(ruleId)) return null;
+
+  try {
+    const record = await availabilityTable().find(ruleId);
+    return toAvailabilityRule(record);
+  } catch (error: any) {
+    if (error?.statusCode === 404) return null;
+    throw error;
   }
+}
 
-  const records = await availabilityTable.select(selectOptions).all();
-
-  return records.map((record) => {
-    const engineerField = record.get('Engineer') as string[] | undefined;
-    return {
-      id: record.id,
-      engineerId: engineerField?.[0] || '',
-      status: record.get('Status') as AvailabilityRule['status'],
-      ruleType: record.get('Rule_Type') as AvailabilityRule['ruleType'],
-      startDateTime: record.get('Start_DateTime') as string | undefined,
-      endDateTime: record.get('End_DateTime') as string | undefined,
-      startTime: record.get('Start_Time') as string | undefined,
-      endTime: record.get('End_Time') as string | undefined,
-      recurrenceDays: record.get('Recurrence_Days') as string[] | undefined,
-      effectiveFrom: record.get('Effective_From') as string | undefined,
-      effectiveUntil: record.get('Effective_Until') as string | undefined,
-      source: record.get('Source') as AvailabilityRule['source'],
-      updatedAt: record.get('Updated_Time') as string,
-    };
-  });
+function toSession(record: any): Session {
+  const engineerField = record.get('Engineer') as string[] | undefined;
+  return {
+    id: record.id,
+    title: record.get('Title') as string,
+    engineerId: engineerField?.[0] || '',
+    start: record.get('Start') as string,
+    end: record.get('End') as string,
+  };
 }
 
 // Fetch sessions for engineers
@@ -118,139 +255,195 @@ export async function getSessions(
   endDate: string,
   engineerId?: string
 ): Promise<Session[]> {
-  let filterFormula = `AND(
-    IS_AFTER({Start}, '${startDate}'),
-    IS_BEFORE({Start}, '${endDate}')
-  )`;
-
+  const conditions = [
+    `IS_AFTER({Start}, ${isoDateValue(startDate)})`,
+    `IS_BEFORE({Start}, ${isoDateValue(endDate)})`,
+  ];
   if (engineerId) {
-    filterFormula = `AND(
-      IS_AFTER({Start}, '${startDate}'),
-      IS_BEFORE({Start}, '${endDate}'),
-      FIND('${engineerId}', ARRAYJOIN({Engineer}))
-    )`;
+    conditions.push(`FIND(${recordIdValue(engineerId)}, ARRAYJOIN({Engineer}))`);
   }
 
-  const records = await sessionsTable
+  const records = await sessionsTable()
     .select({
-      filterByFormula: filterFormula,
+      filterByFormula: and(conditions),
       view: process.env.SESSIONS_VIEW_ID,
       fields: ['Title', 'Engineer', 'Start', 'End'],
     })
     .all();
 
-  return records.map((record) => {
-    const engineerField = record.get('Engineer') as string[] | undefined;
-    return {
-      id: record.id,
-      title: record.get('Title') as string,
-      engineerId: engineerField?.[0] || '',
-      start: record.get('Start') as string,
-      end: record.get('End') as string,
-    };
-  });
+  return records.map((record) => toSession(record));
 }
 
-// Create a new availability rule
-export async function createAvailabilityRule(
-  rule: Omit<AvailabilityRule, 'id' | 'updatedAt'>
-): Promise<AvailabilityRule> {
-  const fields: any = {
-    Engineer: [rule.engineerId],
-    Status: rule.status,
-    Rule_Type: rule.ruleType,
-    Source: rule.source,
-  };
+// Fetch a single session, or null if it doesn't exist
+export async function getSession(sessionId: string): Promise<Session | null> {
+  if (!isRecordId(sessionId)) return null;
 
-  if (rule.ruleType === 'one-time') {
-    fields.Start_DateTime = rule.startDateTime;
-    fields.End_DateTime = rule.endDateTime;
-  } else {
-    fields.Start_Time = rule.startTime;
-    fields.End_Time = rule.endTime;
-    fields.Recurrence_Days = rule.recurrenceDays;
-    if (rule.effectiveFrom) fields.Effective_From = rule.effectiveFrom;
-    if (rule.effectiveUntil) fields.Effective_Until = rule.effectiveUntil;
+  try {
+    const record = await sessionsTable().find(sessionId);
+    return toSession(record);
+  } catch (error: any) {
+    if (error?.statusCode === 404) return null;
+    throw error;
   }
+}
 
-  const record = await availabilityTable.create(fields) as any;
-
-  const engineerField = record.get('Engineer') as string[] | undefined;
+function toSessionFields(session: NewSession) {
   return {
-    id: record.id,
-    engineerId: engineerField?.[0] || '',
-    status: record.get('Status') as AvailabilityRule['status'],
-    ruleType: record.get('Rule_Type') as AvailabilityRule['ruleType'],
-    startDateTime: record.get('Start_DateTime') as string | undefined,
-    endDateTime: record.get('End_DateTime') as string | undefined,
-    startTime: record.get('Start_Time') as string | undefined,
-    endTime: record.get('End_Time') as string | undefined,
-    recurrenceDays: record.get('Recurrence_Days') as string[] | undefined,
-    effectiveFrom: record.get('Effective_From') as string | undefined,
-    effectiveUntil: record.get('Effective_Until') as string | undefined,
-    source: record.get('Source') as AvailabilityRule['source'],
-    updatedAt: new Date().toISOString(),
+    Title: session.title,
+    Engineer: [session.engineerId],
+    Start: session.start,
+    End: session.end,
   };
 }
 
+export async function createSession(session: NewSession): Promise<Session> {
+  const record = await sessionsTable().create(toSessionFields(session)) as any;
+  return toSession(record);
+}
+
+export async function updateSession(sessionId: string, session: NewSession): Promise<Session> {
+  const record = await sessionsTable().update(sessionId, toSessionFields(session));
+  return toSession(record);
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await sessionsTable().destroy(sessionId);
+}
+
+// Fetch API keys, or none when no API keys table is configured
+export async function getApiKeys(): Promise<ApiKey[]> {
+  if (!process.env.API_KEYS_TABLE_ID) return [];
+
+  const records = await apiKeysTable()
+    .select({ fields: ['Name', 'Scope', 'Key_Hash', 'Active'] })
+    .all();
+
+  return records.map((record) => ({
+    id: record.id,
+    name: record.get('Name') as string,
+    scope: record.get('Scope') === 'write' ? 'write' : 'read',
+    keyHash: record.get('Key_Hash') as string,
+    active: record.get('Active') === true,
+  }));
+}
+
+function claimLocalToken(tokenId: string, expiresAt: string): boolean {
+  if (!warnedLocalUsedTokens) {
+    console.warn('USED_TOKENS_TABLE_ID is not set; single-use tokens are only tracked per instance');
+    warnedLocalUsedTokens = true;
+  }
+  const now = Date.now();
+  for (const [used, expires] of localUsedTokens) {
+    if (expires < now) localUsedTokens.delete(used);
+  }
+  if (localUsedTokens.has(tokenId)) return false;
+  localUsedTokens.set(tokenId, Date.parse(expiresAt));
+  return true;
+}
+
+// Airtable can't insert only if absent, so every claim adds a row and wins only when it is
+// the sole row for its token. Two claims racing each other both lose, rather than both win.
+export async function claimToken(tokenId: string, expiresAt: string): Promise<boolean> {
+  if (!process.env.USED_TOKENS_TABLE_ID) return claimLocalToken(tokenId, expiresAt);
+
+  await usedTokensTable().create({ Token: tokenId, Expires: expiresAt });
+  const claims = await usedTokensTable()
+    .select({ filterByFormula: `{Token} = ${quote(tokenId)}`, fields: ['Token'] })
+    .all();
+
+  // Tidy up a few expired rows each time so the table stays small
+  const expired = await usedTokensTable()
+    .select({ filterByFormula: 'IS_BEFORE({Expires}, NOW())', fields: ['Token'], maxRecords: 10 })
+    .firstPage();
+  if (expired.length > 0) {
+    await usedTokensTable().destroy(expired.map((record) => record.id));
+  }
+
+  return claims.length === 1;
+}
+
+// Read an engineer's calendar feed secret; it is never part of the engineer list
+export async function getCalendarSecret(engineerId: string): Promise<string | null> {
+  if (!isRecordId(engineerId)) return null;
+
+  try {
+    const record = await engineersTable().find(engineerId);
+    return (record.get('Calendar_Secret') as string | undefined) || null;
+  } catch (error: any) {
+    if (error?.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+export async function setCalendarSecret(engineerId: string, secret: string): Promise<void> {
+  await engineersTable().update(engineerId, { Calendar_Secret: secret });
+}
+
+// Create a new availability rule
+export async function createAvailabilityRule(
+  rule: NewAvailabilityRule
+): Promise<AvailabilityRule> {
+  const record = await availabilityTable().create(toRuleFields(rule)) as any;
+  return toAvailabilityRule(record, new Date().toISOString());
+}
+
+// Update an existing availability rule with the full, already-merged rule
+export async function updateAvailabilityRule(
+  ruleId: string,
+  rule: NewAvailabilityRule
+): Promise<AvailabilityRule> {
+  const record = await availabilityTable().update(ruleId, toRuleUpdateFields(rule));
+  return toAvailabilityRule(record, new Date().toISOString());
+}
+
 // Delete an availability rule
 export async function deleteAvailabilityRule(ruleId: string): Promise<void> {
-  await availabilityTable.destroy(ruleId);
+  await availabilityTable().destroy(ruleId);
+}
+
+// Batch delete availability rules
+export async function batchDeleteAvailabilityRules(ruleIds: string[]): Promise<void> {
+  // Airtable limits batch deletes to 10 records at a time
+  for (let i = 0; i < ruleIds.length; i += 10) {
+    await availabilityTable().destroy(ruleIds.slice(i, i + 10));
+  }
 }
 
 // Batch create availability rules
 export async function batchCreateAvailabilityRules(
-  rules: Omit<AvailabilityRule, 'id' | 'updatedAt'>[]
+  rules: NewAvailabilityRule[]
 ): Promise<AvailabilityRule[]> {
   const results: AvailabilityRule[] = [];
+  const updatedAt = new Date().toISOString();
   
   // Airtable limits batch creates to 10 records at a time
   for (let i = 0; i < rules.length; i += 10) {
     const batch = rules.slice(i, i + 10);
-    const records = await availabilityTable.create(
-      batch.map((rule) => {
-        const fields: any = {
-          Engineer: [rule.engineerId],
-          Status: rule.status,
-          Rule_Type: rule.ruleType,
-          Source: rule.source,
-        };
-
-        if (rule.ruleType === 'one-time') {
-          fields.Start_DateTime = rule.startDateTime;
-          fields.End_DateTime = rule.endDateTime;
-        } else {
-          fields.Start_Time = rule.startTime;
-          fields.End_Time = rule.endTime;
-          fields.Recurrence_Days = rule.recurrenceDays;
-          if (rule.effectiveFrom) fields.Effective_From = rule.effectiveFrom;
-          if (rule.effectiveUntil) fields.Effective_Until = rule.effectiveUntil;
-        }
-
-        return { fields };
-      })
+    const records = await availabilityTable().create(
+      batch.map((rule) => ({ fields: toRuleFields(rule) }))
     );
 
-    results.push(
-      ...records.map((record) => {
-        const engineerField = record.get('Engineer') as string[] | undefined;
-        return {
-          id: record.id,
-          engineerId: engineerField?.[0] || '',
-          status: record.get('Status') as AvailabilityRule['status'],
-          ruleType: record.get('Rule_Type') as AvailabilityRule['ruleType'],
-          startDateTime: record.get('Start_DateTime') as string | undefined,
-          endDateTime: record.get('End_DateTime') as string | undefined,
-          startTime: record.get('Start_Time') as string | undefined,
-          endTime: record.get('End_Time') as string | undefined,
-          recurrenceDays: record.get('Recurrence_Days') as string[] | undefined,
-          effectiveFrom: record.get('Effective_From') as string | undefined,
-          effectiveUntil: record.get('Effective_Until') as string | undefined,
-          source: record.get('Source') as AvailabilityRule['source'],
-          updatedAt: new Date().toISOString(),
-        };
-      })
+    results.push(...records.map((record) => toAvailabilityRule(record, updatedAt)));
+  }
+
+  return results;
+}
+
+// Batch update availability rules with full, already-merged rules
+export async function batchUpdateAvailabilityRules(
+  rules: (NewAvailabilityRule & { id: string })[]
+): Promise<AvailabilityRule[]> {
+  const results: AvailabilityRule[] = [];
+  const updatedAt = new Date().toISOString();
+
+  // Airtable limits batch updates to 10 records at a time
+  for (let i = 0; i < rules.length; i += 10) {
+    const batch = rules.slice(i, i + 10);
+    const records = await availabilityTable().update(
+      batch.map(({ id, ...rule }) => ({ id, fields: toRuleUpdateFields(rule) }))
     );
+
+    results.push(...records.map((record) => toAvailabilityRule(record, updatedAt)));
   }
 
   return results;
@@ -0,0 +1,145 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { claimToken, getApiKeys } from './storage';
+import { getSessionUser } from './auth';
+
+export type ApiScope = 'read' | 'write';
+
+// Who made an API call: a machine client with a key, or a signed-in engineer
+export type ApiCaller =
+  | { type: 'key'; name: string; scope: ApiScope }
+  | { type: 'session'; engineerId: string; name: string };
+
+const SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Keys from API_KEYS, formatted "name:scope:key" and comma-separated
+function getEnvApiKeys(): { name: string; scope: ApiScope; keyHash: string }[] {
+  return (process.env.API_KEYS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const [name, scope, ...rest] = entry.split(':');
+      const key = rest.join(':');
+      if (!name || !key || (scope !== 'read' && scope !== 'write')) {
+        console.error(`Ignoring malformed API_KEYS entry "${name}"`);
+        return [];
+      }
+      return [{ name, scope: scope as ApiScope, keyHash: hashApiKey(key) }];
+    });
+}
+
+function readApiKey(req: NextApiRequest): string | null {
+  const header = req.headers.authorization;
+  if (typeof header === 'string' && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' && apiKey ? apiKey : null;
+}
+
+async function findApiKey(key: string): Promise<{ name: string; scope: ApiScope } | null> {
+  const keyHash = hashApiKey(key);
+  const stored = (await getApiKeys()).filter((apiKey) => apiKey.active);
+  const match = [...getEnvApiKeys(), ...stored].find((apiKey) => safeEqual(apiKey.keyHash, keyHash));
+  return match ? { name: match.name, scope: match.scope } : null;
+}
+
+// The string a client signs: "<timestamp>.<METHOD>.<path and query>.<raw body>"
+export function signaturePayload(timestamp: string, method: string, url: string, rawBody: string): string {
+  return `${timestamp}.${method.toUpperCase()}.${url}.${rawBody}`;
+}
+
+export function signRequest(secret: string, payload: string): string {
+  return `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+// Check X-Timestamp / X-Signature, returning an error message or null when valid.
+// Each signature is recorded in storage until it is too old to pass, so it works only once.
+async function verifySignature(req: NextApiRequest, secret: string, rawBody: string): Promise<string | null> {
+  const timestamp = req.headers['x-timestamp'];
+  const signature = req.headers['x-signature'];
+  if (typeof timestamp !== 'string' || typeof signature !== 'string') {
+    return 'Signed request required (X-Timestamp and X-Signature headers)';
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt) || Math.abs(now - sentAt) > SIGNATURE_MAX_AGE_SECONDS) {
+    return 'Request timestamp is missing or too old';
+  }
+
+  const expected = signRequest(secret, signaturePayload(timestamp, req.method || 'GET', req.url || '', rawBody));
+  if (!safeEqual(expected, signature)) {
+    return 'Invalid request signature';
+  }
+
+  const expiresAt = new Date((sentAt + SIGNATURE_MAX_AGE_SECONDS) * 1000).toISOString();
+  if (!(await claimToken(`signature:${hashApiKey(signature)}`, expiresAt))) {
+    return 'Request has already been used';
+  }
+
+  return null;
+}
+
+// Authenticate a call to a machine-facing route, or send a 401/403 and return null.
+// Signed-in engineers may read; API keys need the right scope and, when
+// API_SIGNING_SECRET is set, a valid request signature over the raw body.
+export async function authenticateApiRequest(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: ApiScope,
+  rawBody = ''
+): Promise<ApiCaller | null> {
+  const key = readApiKey(req);
+
+  if (!key) {
+    const user = await getSessionUser(req);
+    if (user && scope === 'read') {
+      return { type: 'session', engineerId: user.engineerId, name: user.name };
+    }
+    res.status(401).json({ error: user ? 'API key required' : 'API key or sign-in required' });
+    return null;
+  }
+
+  const apiKey = await findApiKey(key);
+  if (!apiKey) {
+    res.status(401).json({ error: 'Invalid API key' });
+    return null;
+  }
+
+  const secret = process.env.API_SIGNING_SECRET;
+  if (secret) {
+    const signatureError = await verifySignature(req, secret, rawBody);
+    if (signatureError) {
+      res.status(401).json({ error: signatureError });
+      return null;
+    }
+  }
+
+  if (scope === 'write' && apiKey.scope !== 'write') {
+    res.status(403).json({ error: `API key "${apiKey.name}" is read-only` });
+    return null;
+  }
+
+  return { type: 'key', ...apiKey };
+}
+
+// Read the unparsed request body, for routes that turn off Next's body parser
+export async function readRawBody(req: NextApiRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
@@ -0,0 +1,166 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { claimToken, getCalendarSecret, getEngineers } from './storage';
+import { Engineer } from './types';
+
+export const SESSION_COOKIE = 'availability_session';
+const LOGIN_LINK_TTL_SECONDS = 15 * 60;
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+const CALENDAR_TOKEN_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+// The signed-in engineer, as stored in the session cookie
+export interface AuthUser {
+  engineerId: string;
+  name: string;
+  admin: boolean;
+}
+
+interface TokenPayload {
+  purpose: 'login' | 'session' | 'calendar';
+  user: AuthUser;
+  exp: number; // Unix seconds
+  nonce: string; // Keeps tokens for the same user and second distinct
+  secret?: string; // Calendar tokens only: the engineer's feed secret when the link was made
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production');
+  }
+  return 'development-only-secret';
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+// Tokens are "<base64url JSON payload>.<HMAC signature>"
+function createToken(
+  purpose: TokenPayload['purpose'],
+  user: AuthUser,
+  ttlSeconds: number,
+  secret?: string
+): string {
+  const payload: TokenPayload = {
+    purpose,
+    user,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+    nonce: randomBytes(8).toString('base64url'),
+    secret,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function readPayload(token: string | undefined, purpose: TokenPayload['purpose']): TokenPayload | null {
+  const [data, signature] = (token || '').split('.');
+  if (!data || !signature) return null;
+
+  if (!safeEqual(sign(data), signature)) return null;
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(data, 'base64url').toString());
+    if (payload.purpose !== purpose || payload.exp < Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+function readToken(token: string | undefined, purpose: TokenPayload['purpose']): AuthUser | null {
+  return readPayload(token, purpose)?.user ?? null;
+}
+
+// Links must point at the configured app URL; the Host header is only trusted in development
+export function getAppUrl(req: NextApiRequest): string | null {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, '');
+  if (process.env.NODE_ENV === 'production') return null;
+  return `http://${req.headers.host || 'localhost:3000'}`;
+}
+
+export function toAuthUser(engineer: Engineer): AuthUser {
+  return { engineerId: engineer.id, name: engineer.name, admin: engineer.admin === true };
+}
+
+export function createLoginToken(engineer: Engineer): string {
+  return createToken('login', toAuthUser(engineer), LOGIN_LINK_TTL_SECONDS);
+}
+
+// Each link signs in once; a second use is treated like an expired link. Used links are
+// recorded in storage so every instance refuses them.
+export async function readLoginToken(token: string | undefined): Promise<AuthUser | null> {
+  const payload = readPayload(token, 'login');
+  if (!payload || !token) return null;
+
+  const tokenId = `login:${createHash('sha256').update(token).digest('hex')}`;
+  const claimed = await claimToken(tokenId, new Date(payload.exp * 1000).toISOString());
+  return claimed ? payload.user : null;
+}
+
+export function createSessionToken(user: AuthUser): string {
+  return createToken('session', user, SESSION_TTL_SECONDS);
+}
+
+// Calendar apps can't sign in, so feed URLs carry their own long-lived token. It names the
+// engineer's feed secret, so regenerating the secret revokes every link made before.
+export function createCalendarToken(engineer: Engineer, secret: string): string {
+  return createToken('calendar', toAuthUser(engineer), CALENDAR_TOKEN_TTL_SECONDS, secret);
+}
+
+export function createCalendarSecret(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// The secret is read uncached from storage, so a revoked link stops working straight away
+export async function readCalendarToken(token: string | undefined): Promise<AuthUser | null> {
+  const payload = readPayload(token, 'calendar');
+  if (!payload?.secret) return null;
+
+  const secret = await getCalendarSecret(payload.user.engineerId);
+  return secret && safeEqual(secret, payload.secret) ? payload.user : null;
+}
+
+export function setSessionCookie(res: NextApiResponse, user: AuthUser): void {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  res.setHeader(
+    'Set-Cookie',
+    `${SESSION_COOKIE}=${createSessionToken(user)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_TTL_SECONDS}${secure}`
+  );
+}
+
+export function clearSessionCookie(res: NextApiResponse): void {
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`);
+}
+
+// The cookie only says who signed in. The engineer is re-read on every request so a
+// deactivated account or a revoked admin loses access once the engineer cache expires.
+export async function getSessionUser(req: NextApiRequest): Promise<AuthUser | null> {
+  const sessionUser = readToken(req.cookies?.[SESSION_COOKIE], 'session');
+  if (!sessionUser) return null;
+
+  const engineer = (await getEngineers()).find((e) => e.id === sessionUser.engineerId);
+  return engineer ? toAuthUser(engineer) : null;
+}
+
+// Return the signed-in user, or send a 401 and return null
+export async function requireUser(req: NextApiRequest, res: NextApiResponse): Promise<AuthUser | null> {
+  const user = await getSessionUser(req);
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required' });
+    return null;
+  }
+  return user;
+}
+
+// Engineers may only change their own rules; admins may change anyone's
+export function canEditEngineer(user: AuthUser, engineerId: string): boolean {
+  return user.admin || user.engineerId === engineerId;
+}
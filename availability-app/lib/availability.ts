@@ -1,19 +1,24 @@
 import {
   format,
   parseISO,
-  startOfDay,
-  endOfDay,
+  addDays,
   addMinutes,
-  isWithinInterval,
   isBefore,
   isAfter,
+  isValid,
   getDay,
+  getDate,
+  getDaysInMonth,
+  differenceInCalendarWeeks,
+  differenceInCalendarMonths,
+  differenceInCalendarDays,
 } from 'date-fns';
-import { toZonedTime, fromZonedTime } from 'date-fns-tz';
-import { AvailabilityRule, Session } from './airtable';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { AvailabilityRule, NewAvailabilityRule, Session } from './types';
 
-const TIMEZONE = process.env.TIMEZONE || 'America/New_York';
+export const TIMEZONE = process.env.TIMEZONE || 'America/New_York';
 const SLOT_MINUTES = 30;
+export const MAX_RANGE_DAYS = 62;
 
 export type SlotStatus = 'Available' | 'Maybe' | 'Unavailable' | 'Booked' | 'Blank';
 
@@ -21,7 +26,8 @@ export interface TimeSlot {
   time: string; // "HH:mm" format
   datetime: string; // Full ISO datetime
   status: SlotStatus;
-  ruleId?: string;
+  ruleId?: string; // Rule that won the slot
+  overriddenRuleIds?: string[]; // Other rules covering the slot, highest precedence first
   sessionId?: string;
 }
 
@@ -31,6 +37,10 @@ export interface DayAvailability {
   slots: TimeSlot[];
 }
 
+export interface AvailabilityOptions {
+  timeZone?: string; // Zone the day grid is laid out in (defaults to TIMEZONE)
+}
+
 const DAY_MAP: Record<number, string> = {
   0: 'Sun',
   1: 'Mon',
@@ -41,15 +51,113 @@ const DAY_MAP: Record<number, string> = {
   6: 'Sat',
 };
 
-// Generate all 30-minute slots for a given date
-function generateDaySlots(date: Date): TimeSlot[] {
+const RULE_TYPE_RANK: Record<AvailabilityRule['ruleType'], number> = {
+  recurring: 0,
+  'one-time': 1,
+};
+
+// Order rules from lowest to highest precedence: higher priority wins, then one-time
+// rules beat recurring ones, then the most recently updated rule breaks ties
+export function compareRulePrecedence(a: AvailabilityRule, b: AvailabilityRule): number {
+  return (
+    (a.priority || 0) - (b.priority || 0) ||
+    RULE_TYPE_RANK[a.ruleType] - RULE_TYPE_RANK[b.ruleType] ||
+    new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime()
+  );
+}
+
+// Matches an explicit UTC designator or offset at the end of an ISO datetime
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Parse a rule/session datetime; values without an offset are wall-clock times in the studio zone
+export function parseZonedDateTime(value: string, timeZone: string = TIMEZONE): Date {
+  return OFFSET_PATTERN.test(value) ? parseISO(value) : fromZonedTime(value, timeZone);
+}
+
+// Midnight-to-midnight bounds of a calendar date in a zone (23 or 25 hours across DST changes)
+export function getZonedDayBounds(
+  date: string,
+  timeZone: string = TIMEZONE
+): { start: Date; end: Date } {
+  const nextDate = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+  return {
+    start: fromZonedTime(`${date}T00:00:00`, timeZone),
+    end: fromZonedTime(`${nextDate}T00:00:00`, timeZone),
+  };
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+  dates: string[];
+}
+
+// Resolve `date`, `from`/`to` or `days=N` query params into an inclusive list of dates
+export function parseDateRange(
+  query: Record<string, string | string[] | undefined>
+): DateRange | string {
+  const { date, from, to, days } = query;
+  const startParam = (from || date) as string | undefined;
+
+  if (!startParam || typeof startParam !== 'string') {
+    return 'Date parameter required (YYYY-MM-DD format), or from/to for a range';
+  }
+
+  const startDate = parseISO(startParam);
+  if (!isValid(startDate)) {
+    return `Invalid date "${startParam}" (expected YYYY-MM-DD)`;
+  }
+
+  let endDate = startDate;
+  if (to) {
+    if (typeof to !== 'string' || !isValid(parseISO(to))) {
+      return `Invalid date "${to}" (expected YYYY-MM-DD)`;
+    }
+    endDate = parseISO(to);
+  } else if (days) {
+    const count = Number(days);
+    if (!Number.isInteger(count) || count < 1) {
+      return 'days must be a positive integer';
+    }
+    endDate = addDays(startDate, count - 1);
+  }
+
+  const length = differenceInCalendarDays(endDate, startDate) + 1;
+  if (length < 1) {
+    return 'to must not be before from';
+  }
+  if (length > MAX_RANGE_DAYS) {
+    return `Range too large (max ${MAX_RANGE_DAYS} days)`;
+  }
+
+  const dates = Array.from({ length }, (_, i) =>
+    format(addDays(startDate, i), 'yyyy-MM-dd')
+  );
+
+  return { from: dates[0], to: dates[dates.length - 1], dates };
+}
+
+// Generate all 30-minute slots for a given calendar date in a zone
+function generateDaySlots(date: string, timeZone: string): TimeSlot[] {
   const slots: TimeSlot[] = [];
-  const dayStart = startOfDay(date);
+  const { start, end } = getZonedDayBounds(date, timeZone);
 
-  for (let minutes = 0; minutes < 24 * 60; minutes += SLOT_MINUTES) {
-    const slotTime = addMinutes(dayStart, minutes);
+  for (
+    let slotTime = start;
+    isBefore(slotTime, end);
+    slotTime = addMinutes(slotTime, SLOT_MINUTES)
+  ) {
     slots.push({
-      time: format(slotTime, 'HH:mm'),
+      time: formatInTimeZone(slotTime, timeZone, 'HH:mm'),
       datetime: slotTime.toISOString(),
       status: 'Blank',
     });
@@ -58,30 +166,296 @@ function generateDaySlots(date: Date): TimeSlot[] {
   return slots;
 }
 
-// Check if a recurring rule applies to a specific date
-function recurringRuleApplies(rule: AvailabilityRule, date: Date): boolean {
+// Check if a recurring rule applies to a specific studio calendar date ("YYYY-MM-DD")
+export function recurringRuleApplies(rule: AvailabilityRule, date: string): boolean {
   if (rule.ruleType !== 'recurring') return false;
   if (!rule.recurrenceDays || rule.recurrenceDays.length === 0) return false;
 
-  const dayOfWeek = getDay(date);
-  const dayName = DAY_MAP[dayOfWeek];
+  const day = parseISO(date);
+  const dayName = DAY_MAP[getDay(day)];
 
   if (!rule.recurrenceDays.includes(dayName)) return false;
+  if (!recurrencePatternMatches(rule, day)) return false;
+
+  // Check effective date range (ISO dates compare lexically)
+  if (rule.effectiveFrom && date < rule.effectiveFrom.slice(0, 10)) return false;
+  if (rule.effectiveUntil && date > rule.effectiveUntil.slice(0, 10)) return false;
+
+  if (rule.exceptions?.some((exception) => exceptionCovers(exception, date))) return false;
+
+  return true;
+}
 
-  // Check effective date range
-  if (rule.effectiveFrom) {
-    const effectiveFrom = parseISO(rule.effectiveFrom);
-    if (isBefore(date, effectiveFrom)) return false;
+// Check the interval and nth-weekday parts of a rule's pattern against a date
+function recurrencePatternMatches(rule: AvailabilityRule, day: Date): boolean {
+  const monthly = rule.recurrenceFrequency === 'monthly';
+  const interval = rule.recurrenceInterval || 1;
+
+  // Every N weeks/months, counted from the week/month containing effectiveFrom
+  if (interval > 1 && rule.effectiveFrom) {
+    const anchor = parseISO(rule.effectiveFrom.slice(0, 10));
+    const elapsed = monthly
+      ? differenceInCalendarMonths(day, anchor)
+      : differenceInCalendarWeeks(day, anchor, { weekStartsOn: 1 });
+    if (elapsed % interval !== 0) return false;
   }
 
-  if (rule.effectiveUntil) {
-    const effectiveUntil = parseISO(rule.effectiveUntil);
-    if (isAfter(date, effectiveUntil)) return false;
+  if (monthly && rule.recurrenceWeeks?.length) {
+    const dayOfMonth = getDate(day);
+    const nth = Math.ceil(dayOfMonth / 7);
+    const isLast = dayOfMonth + 7 > getDaysInMonth(day);
+    return rule.recurrenceWeeks.some((week) => week === nth || (week === -1 && isLast));
   }
 
   return true;
 }
 
+// Check if an exception ("YYYY-MM-DD" or "YYYY-MM-DD/YYYY-MM-DD", inclusive) covers a date
+function exceptionCovers(exception: string, date: string): boolean {
+  const [from, until = from] = exception.split('/');
+  return date >= from && date <= until;
+}
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const RECURRENCE_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const EXCEPTION_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:\/(\d{4}-\d{2}-\d{2}))?$/;
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+const isListOf = (value: unknown, type: 'string' | 'number') =>
+  Array.isArray(value) && value.every((item) => typeof item === type);
+
+// Check that a rule has the fields its type requires; returns an error message or null.
+// Rules arrive as raw JSON, so field types are checked before they're used.
+export function validateAvailabilityRule(
+  rule: Partial<NewAvailabilityRule>
+): string | null {
+  if (!rule.status || !['Available', 'Maybe', 'Unavailable', 'Blank'].includes(rule.status)) {
+    return 'status must be Available, Maybe, Unavailable or Blank';
+  }
+  if (rule.status === 'Blank' && rule.ruleType !== 'one-time') {
+    return 'Blank (erase) rules must be one-time';
+  }
+  if (rule.priority !== undefined && !Number.isInteger(rule.priority)) {
+    return 'priority must be a whole number';
+  }
+
+  if (rule.ruleType === 'one-time') {
+    if (!rule.startDateTime || !rule.endDateTime) {
+      return 'startDateTime and endDateTime are required for one-time rules';
+    }
+    if (typeof rule.startDateTime !== 'string' || typeof rule.endDateTime !== 'string') {
+      return 'startDateTime and endDateTime must be ISO datetimes';
+    }
+    const start = Date.parse(rule.startDateTime);
+    const end = Date.parse(rule.endDateTime);
+    if (isNaN(start) || isNaN(end)) {
+      return 'startDateTime and endDateTime must be ISO datetimes';
+    }
+    if (end <= start) {
+      return 'endDateTime must be after startDateTime';
+    }
+    return null;
+  }
+
+  if (rule.ruleType === 'recurring') {
+    if (!rule.startTime || !rule.endTime) {
+      return 'startTime and endTime are required for recurring rules';
+    }
+    if (
+      typeof rule.startTime !== 'string' ||
+      typeof rule.endTime !== 'string' ||
+      !TIME_PATTERN.test(rule.startTime) ||
+      !TIME_PATTERN.test(rule.endTime)
+    ) {
+      return 'startTime and endTime must be HH:mm';
+    }
+    if (rule.recurrenceDays !== undefined && !isListOf(rule.recurrenceDays, 'string')) {
+      return 'recurrenceDays must be a list of days';
+    }
+    if (!rule.recurrenceDays || rule.recurrenceDays.length === 0) {
+      return 'recurrenceDays must include at least one day';
+    }
+    if (rule.recurrenceDays.some((day) => !RECURRENCE_DAYS.includes(day))) {
+      return `recurrenceDays must be drawn from ${RECURRENCE_DAYS.join(', ')}`;
+    }
+    if (
+      rule.recurrenceFrequency &&
+      !['weekly', 'monthly'].includes(rule.recurrenceFrequency)
+    ) {
+      return 'recurrenceFrequency must be weekly or monthly';
+    }
+    if (rule.recurrenceInterval !== undefined) {
+      if (!Number.isInteger(rule.recurrenceInterval) || rule.recurrenceInterval < 1) {
+        return 'recurrenceInterval must be a positive whole number';
+      }
+      if (rule.recurrenceInterval > 1 && !rule.effectiveFrom) {
+        return 'effectiveFrom is required to anchor a recurrenceInterval above 1';
+      }
+    }
+    if (rule.recurrenceWeeks !== undefined && !isListOf(rule.recurrenceWeeks, 'number')) {
+      return 'recurrenceWeeks must be a list of numbers';
+    }
+    if (rule.recurrenceWeeks?.length) {
+      if (rule.recurrenceFrequency !== 'monthly') {
+        return 'recurrenceWeeks only applies to monthly rules';
+      }
+      if (rule.recurrenceWeeks.some((week) => ![1, 2, 3, 4, 5, -1].includes(week))) {
+        return 'recurrenceWeeks must be 1-5 or -1 (last)';
+      }
+    }
+    if (!isOptionalString(rule.effectiveFrom) || !isOptionalString(rule.effectiveUntil)) {
+      return 'effectiveFrom and effectiveUntil must be YYYY-MM-DD dates';
+    }
+    if (
+      rule.effectiveFrom &&
+      rule.effectiveUntil &&
+      rule.effectiveUntil < rule.effectiveFrom
+    ) {
+      return 'effectiveUntil must not be before effectiveFrom';
+    }
+    if (rule.exceptions !== undefined && !isListOf(rule.exceptions, 'string')) {
+      return 'exceptions must be a list of YYYY-MM-DD or YYYY-MM-DD/YYYY-MM-DD dates';
+    }
+    for (const exception of rule.exceptions || []) {
+      const match = EXCEPTION_PATTERN.exec(exception);
+      if (!match) {
+        return `exception "${exception}" must be YYYY-MM-DD or YYYY-MM-DD/YYYY-MM-DD`;
+      }
+      if (match[2] && match[2] < match[1]) {
+        return `exception "${exception}" ends before it starts`;
+      }
+    }
+    return null;
+  }
+
+  return 'ruleType must be one-time or recurring';
+}
+
+export type RecurrencePattern = Pick<
+  AvailabilityRule,
+  'recurrenceDays' | 'recurrenceFrequency' | 'recurrenceInterval' | 'recurrenceWeeks' | 'effectiveUntil'
+>;
+
+const RRULE_DAYS: Record<string, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+// Parse the subset of an RFC 5545 RRULE this app can store, e.g.
+// "FREQ=WEEKLY;INTERVAL=2;BYDAY=SA,SU" or "FREQ=MONTHLY;BYDAY=1SA,-1SA".
+// Returns an error message if the rule uses something unsupported.
+export function parseRRule(value: string): RecurrencePattern | string {
+  const parts = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    return 'Only FREQ=WEEKLY and FREQ=MONTHLY are supported';
+  }
+
+  const pattern: RecurrencePattern = {
+    recurrenceFrequency: freq === 'MONTHLY' ? 'monthly' : 'weekly',
+  };
+
+  if (parts.has('INTERVAL')) {
+    const interval = Number(parts.get('INTERVAL'));
+    if (!Number.isInteger(interval) || interval < 1) return 'INTERVAL must be a positive integer';
+    pattern.recurrenceInterval = interval;
+  }
+
+  const days = new Set<string>();
+  const ordinals = new Set<string>();
+  const pairs = new Set<string>();
+  for (const byDay of (parts.get('BYDAY') || '').split(',').filter(Boolean)) {
+    const match = /^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/.exec(byDay);
+    if (!match) return `Unsupported BYDAY value "${byDay}"`;
+    const ordinal = match[1] ? String(Number(match[1])) : '';
+    days.add(RRULE_DAYS[match[2]]);
+    ordinals.add(ordinal);
+    pairs.add(`${ordinal}${match[2]}`);
+  }
+  if (days.size === 0) return 'BYDAY is required';
+
+  // Every day shares one set of ordinals, so "1SA,1SU" works but "1SA,3SU" doesn't
+  const ordinalList = Array.from(ordinals);
+  if (
+    pairs.size !== days.size * ordinals.size ||
+    (ordinalList.includes('') && ordinalList.length > 1)
+  ) {
+    return 'Every BYDAY weekday must use the same ordinals';
+  }
+  pattern.recurrenceDays = Array.from(days);
+  if (ordinalList[0]) {
+    if (freq !== 'MONTHLY') return 'Ordinal BYDAY values need FREQ=MONTHLY';
+    const weeks = ordinalList.map(Number);
+    if (weeks.some((week) => ![1, 2, 3, 4, 5, -1].includes(week))) {
+      return 'BYDAY ordinals must be 1-5 or -1';
+    }
+    pattern.recurrenceWeeks = weeks;
+  }
+
+  const until = parts.get('UNTIL');
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(until);
+    if (!match) return 'UNTIL must be a date like 20250630';
+    pattern.effectiveUntil = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  return pattern;
+}
+
+const ORDINAL_LABELS: Record<number, string> = {
+  1: '1st',
+  2: '2nd',
+  3: '3rd',
+  4: '4th',
+  5: '5th',
+  [-1]: 'last',
+};
+
+// Human-readable recurrence, e.g. "Sat, Sun every 2 weeks" or "1st and last Sat of the month"
+export function describeRecurrence(rule: RecurrencePattern): string {
+  const days = rule.recurrenceDays?.join(', ') || 'No days';
+  const interval = rule.recurrenceInterval || 1;
+
+  if (rule.recurrenceFrequency === 'monthly') {
+    const every = interval > 1 ? `every ${interval} months` : 'the month';
+    if (!rule.recurrenceWeeks?.length) return `${days} of ${every}`;
+    const ordinals = [...rule.recurrenceWeeks]
+      .sort((a, b) => (a === -1 ? 6 : a) - (b === -1 ? 6 : b))
+      .map((week) => ORDINAL_LABELS[week]);
+    const ordinalStr =
+      ordinals.length > 1
+        ? `${ordinals.slice(0, -1).join(', ')} and ${ordinals[ordinals.length - 1]}`
+        : ordinals[0];
+    return `${ordinalStr} ${days} of ${every}`;
+  }
+
+  return interval > 1 ? `${days} every ${interval} weeks` : days;
+}
+
+// Normalize a user-supplied exception ("2025-04-18", "2025-12-24/2026-01-02",
+// "2025-12-24..2026-01-02" or "2025-12-24 to 2026-01-02"); returns null if unparseable
+export function normalizeException(value: string): string | null {
+  const match = /^(\d{4}-\d{2}-\d{2})(?:\s*(?:\/|\.\.|to)\s*(\d{4}-\d{2}-\d{2}))?$/i.exec(
+    value.trim()
+  );
+  if (!match) return null;
+
+  const [, from, until] = match;
+  if (!isValid(parseISO(from)) || (until && !isValid(parseISO(until)))) return null;
+  if (!until || until === from) return from;
+  return until < from ? null : `${from}/${until}`;
+}
+
 // Check if a one-time rule applies to a specific slot
 function oneTimeRuleApplies(
   rule: AvailabilityRule,
@@ -91,33 +465,75 @@ function oneTimeRuleApplies(
   if (rule.ruleType !== 'one-time') return false;
   if (!rule.startDateTime || !rule.endDateTime) return false;
 
-  const ruleStart = parseISO(rule.startDateTime);
-  const ruleEnd = parseISO(rule.endDateTime);
+  const ruleStart = parseZonedDateTime(rule.startDateTime);
+  const ruleEnd = parseZonedDateTime(rule.endDateTime);
 
   // Slot overlaps with rule if slot starts before rule ends AND slot ends after rule starts
   return isBefore(slotStart, ruleEnd) && isAfter(slotEnd, ruleStart);
 }
 
-// Check if a recurring rule applies to a specific slot
+// Studio dates a recurring rule must be effective on to reach into [start, end); the day
+// before counts since an overnight rule can spill into the first one
+export function getWindowDates(start: Date, end: Date): { firstDate: string; lastDate: string } {
+  const startDate = parseISO(formatInTimeZone(start, TIMEZONE, 'yyyy-MM-dd'));
+  return {
+    firstDate: format(addDays(startDate, -1), 'yyyy-MM-dd'),
+    lastDate: formatInTimeZone(end, TIMEZONE, 'yyyy-MM-dd'),
+  };
+}
+
+// Whether a rule could cover any slot in [start, end); the storage backends use this to
+// skip rules that are over or not started yet
+export function ruleInWindow(rule: AvailabilityRule, start: Date, end: Date): boolean {
+  if (rule.ruleType === 'one-time') return oneTimeRuleApplies(rule, start, end);
+
+  const { firstDate, lastDate } = getWindowDates(start, end);
+  return (
+    (!rule.effectiveFrom || rule.effectiveFrom.slice(0, 10) <= lastDate) &&
+    (!rule.effectiveUntil || rule.effectiveUntil.slice(0, 10) >= firstDate)
+  );
+}
+
+// Split rules or sessions into per-engineer lists, e.g. after fetching a whole team at once
+export function groupByEngineer<T extends { engineerId: string }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(item.engineerId);
+    if (group) group.push(item);
+    else groups.set(item.engineerId, [item]);
+  }
+  return groups;
+}
+
+// Check if a recurring rule covers a studio date ("YYYY-MM-DD") and wall-clock time ("HH:mm").
+// Overnight rules belong to the day they start on, so the part after midnight is
+// matched against the previous date's weekday and effective range.
 function recurringSlotApplies(
   rule: AvailabilityRule,
-  date: Date,
+  date: string,
   slotTime: string
 ): boolean {
   if (!rule.startTime || !rule.endTime) return false;
 
-  // Handle overnight rules (e.g., 22:00 to 04:00)
   const slotMinutes = timeToMinutes(slotTime);
   const startMinutes = timeToMinutes(rule.startTime);
-  let endMinutes = timeToMinutes(rule.endTime);
+  const endMinutes = timeToMinutes(rule.endTime);
 
-  // If end time is less than start time, it crosses midnight
+  // If end time is not after start time, it crosses midnight (e.g., 22:00 to 04:00)
   if (endMinutes <= startMinutes) {
-    // Slot is within range if it's after start OR before end
-    return slotMinutes >= startMinutes || slotMinutes < endMinutes;
+    if (slotMinutes >= startMinutes) return recurringRuleApplies(rule, date);
+    if (slotMinutes < endMinutes) {
+      const previousDate = format(addDays(parseISO(date), -1), 'yyyy-MM-dd');
+      return recurringRuleApplies(rule, previousDate);
+    }
+    return false;
   }
 
-  return slotMinutes >= startMinutes && slotMinutes < endMinutes;
+  return (
+    slotMinutes >= startMinutes &&
+    slotMinutes < endMinutes &&
+    recurringRuleApplies(rule, date)
+  );
 }
 
 function timeToMinutes(time: string): number {
@@ -131,55 +547,60 @@ function sessionCoversSlot(
   slotStart: Date,
   slotEnd: Date
 ): boolean {
-  const sessionStart = parseISO(session.start);
-  const sessionEnd = parseISO(session.end);
+  const sessionStart = parseZonedDateTime(session.start);
+  const sessionEnd = parseZonedDateTime(session.end);
 
   return isBefore(slotStart, sessionEnd) && isAfter(slotEnd, sessionStart);
 }
 
-// Calculate availability for a date range
+// Calculate availability for a date range.
+// Days are the calendar dates of startDate..endDate, laid out in options.timeZone;
+// recurring rules and offset-less datetimes are always read in the studio TIMEZONE.
 export function calculateAvailability(
   rules: AvailabilityRule[],
   sessions: Session[],
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  options: AvailabilityOptions = {}
 ): DayAvailability[] {
+  const timeZone = options.timeZone || TIMEZONE;
   const result: DayAvailability[] = [];
-  let currentDate = startOfDay(startDate);
-  const end = endOfDay(endDate);
+  const lastDate = format(endDate, 'yyyy-MM-dd');
 
-  while (isBefore(currentDate, end) || currentDate.getTime() === end.getTime()) {
-    const slots = generateDaySlots(currentDate);
-    const dateStr = format(currentDate, 'yyyy-MM-dd');
+  // Sort rules by precedence (ascending so the winning rule comes last)
+  const sortedRules = [...rules].sort(compareRulePrecedence);
 
-    // Sort rules by updatedAt timestamp (ascending so latest comes last and wins)
-    const sortedRules = [...rules].sort(
-      (a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime()
-    );
+  for (
+    let currentDate = startDate;
+    format(currentDate, 'yyyy-MM-dd') <= lastDate;
+    currentDate = addDays(currentDate, 1)
+  ) {
+    const dateStr = format(currentDate, 'yyyy-MM-dd');
+    const slots = generateDaySlots(dateStr, timeZone);
 
     // Apply rules to each slot
     for (const slot of slots) {
       const slotStart = parseISO(slot.datetime);
       const slotEnd = addMinutes(slotStart, SLOT_MINUTES);
+      const studioDate = formatInTimeZone(slotStart, TIMEZONE, 'yyyy-MM-dd');
+      const studioTime = formatInTimeZone(slotStart, TIMEZONE, 'HH:mm');
 
-      // Apply rules in order (latest wins due to overwriting)
+      // Apply rules in order (highest precedence wins due to overwriting)
+      const overridden: string[] = [];
       for (const rule of sortedRules) {
-        // Check one-time rules
-        if (rule.ruleType === 'one-time' && oneTimeRuleApplies(rule, slotStart, slotEnd)) {
-          slot.status = rule.status;
-          slot.ruleId = rule.id;
-        }
+        const applies =
+          rule.ruleType === 'one-time'
+            ? oneTimeRuleApplies(rule, slotStart, slotEnd)
+            : rule.ruleType === 'recurring' &&
+              recurringSlotApplies(rule, studioDate, studioTime);
 
-        // Check recurring rules
-        if (
-          rule.ruleType === 'recurring' &&
-          recurringRuleApplies(rule, currentDate) &&
-          recurringSlotApplies(rule, currentDate, slot.time)
-        ) {
+        if (applies) {
+          if (slot.ruleId) overridden.unshift(slot.ruleId);
           slot.status = rule.status;
           slot.ruleId = rule.id;
         }
       }
+      if (overridden.length > 0) slot.overriddenRuleIds = overridden;
 
       // Sessions always override availability (engineer is booked)
       for (const session of sessions) {
@@ -196,13 +617,391 @@ export function calculateAvailability(
       dayName: format(currentDate, 'EEE'),
       slots,
     });
-
-    currentDate = addMinutes(currentDate, 24 * 60);
   }
 
   return result;
 }
 
+// Rules sorted lowest precedence first, with one-time ranges parsed once for repeated slot lookups
+interface PreparedRule {
+  rule: AvailabilityRule;
+  start?: Date;
+  end?: Date;
+}
+
+function prepareRules(rules: AvailabilityRule[]): PreparedRule[] {
+  return [...rules]
+    .sort(compareRulePrecedence)
+    .map((rule) =>
+      rule.ruleType === 'one-time' && rule.startDateTime && rule.endDateTime
+        ? {
+            rule,
+            start: parseZonedDateTime(rule.startDateTime),
+            end: parseZonedDateTime(rule.endDateTime),
+          }
+        : { rule }
+    );
+}
+
+// Find the rule that wins a slot, optionally ignoring one rule
+function winningRule(
+  prepared: PreparedRule[],
+  slotStart: Date,
+  ignore?: AvailabilityRule
+): AvailabilityRule | undefined {
+  const slotEnd = addMinutes(slotStart, SLOT_MINUTES);
+  let studioDate: string | undefined;
+  let studioTime: string | undefined;
+
+  for (let i = prepared.length - 1; i >= 0; i--) {
+    const { rule, start, end } = prepared[i];
+    if (rule === ignore) continue;
+
+    if (rule.ruleType === 'one-time') {
+      if (start && end && isBefore(slotStart, end) && isAfter(slotEnd, start)) return rule;
+    } else if (rule.ruleType === 'recurring') {
+      studioDate = studioDate || formatInTimeZone(slotStart, TIMEZONE, 'yyyy-MM-dd');
+      studioTime = studioTime || formatInTimeZone(slotStart, TIMEZONE, 'HH:mm');
+      if (recurringSlotApplies(rule, studioDate, studioTime)) return rule;
+    }
+  }
+
+  return undefined;
+}
+
+function resolvedStatus(rule: AvailabilityRule | undefined): SlotStatus {
+  return rule ? rule.status : 'Blank';
+}
+
+// Erase planning: turn painted ranges back into Blank slots
+export interface DateTimeRange {
+  start: string; // ISO datetime; offset-less values are studio wall-clock time
+  end: string;
+}
+
+export interface ErasePlan {
+  deletes: string[];
+  updates: (NewAvailabilityRule & { id: string })[];
+  creates: NewAvailabilityRule[];
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export function toStudioDateTime(date: Date): string {
+  return formatInTimeZone(date, TIMEZONE, "yyyy-MM-dd'T'HH:mm:ss");
+}
+
+// Remove `cut` from `piece`, leaving zero, one or two intervals
+function subtractInterval(piece: Interval, cut: Interval): Interval[] {
+  if (!isBefore(cut.start, piece.end) || !isAfter(cut.end, piece.start)) {
+    return [piece];
+  }
+
+  const pieces: Interval[] = [];
+  if (isBefore(piece.start, cut.start)) pieces.push({ start: piece.start, end: cut.start });
+  if (isAfter(piece.end, cut.end)) pieces.push({ start: cut.end, end: piece.end });
+  return pieces;
+}
+
+// Check if a rule of either type covers the slot starting at slotStart
+function ruleCoversSlot(rule: AvailabilityRule, slotStart: Date): boolean {
+  if (rule.ruleType === 'one-time') {
+    return oneTimeRuleApplies(rule, slotStart, addMinutes(slotStart, SLOT_MINUTES));
+  }
+
+  return recurringSlotApplies(
+    rule,
+    formatInTimeZone(slotStart, TIMEZONE, 'yyyy-MM-dd'),
+    formatInTimeZone(slotStart, TIMEZONE, 'HH:mm')
+  );
+}
+
+function forEachSlotStart(interval: Interval, callback: (slotStart: Date) => boolean | void) {
+  for (
+    let slotStart = interval.start;
+    isBefore(slotStart, interval.end);
+    slotStart = addMinutes(slotStart, SLOT_MINUTES)
+  ) {
+    if (callback(slotStart) === false) return;
+  }
+}
+
+function ruleCoversInterval(rule: AvailabilityRule, interval: Interval): boolean {
+  let covered = false;
+  forEachSlotStart(interval, (slotStart) => {
+    covered = ruleCoversSlot(rule, slotStart);
+    return !covered;
+  });
+  return covered;
+}
+
+// The span a recurring rule covers when it occurs on a studio date
+export function recurringOccurrence(rule: AvailabilityRule, date: string): { start: Date; end: Date } {
+  const overnight = timeToMinutes(rule.endTime!) <= timeToMinutes(rule.startTime!);
+  const endDate = overnight ? format(addDays(parseISO(date), 1), 'yyyy-MM-dd') : date;
+  return {
+    start: fromZonedTime(`${date}T${rule.startTime}:00`, TIMEZONE),
+    end: fromZonedTime(`${endDate}T${rule.endTime}:00`, TIMEZONE),
+  };
+}
+
+// Work out the rule changes that make every slot in `ranges` resolve to Blank.
+// One-time rules inside a range are deleted and partial overlaps are trimmed or split.
+// Recurring occurrences that fall wholly inside the ranges become exception dates.
+// Rewritten rules get a fresh updatedAt, so a rule is only rewritten when that can't lift
+// it above a rule that overlaps what's left of it; otherwise it is left alone.
+// Anything still showing through gets a Blank one-time override at the default priority,
+// so a later paint still wins over it. Rules with a higher priority than that stay
+// visible, as they would over a paint.
+export function planErase(
+  rules: AvailabilityRule[],
+  ranges: DateTimeRange[],
+  engineerId: string,
+  source: AvailabilityRule['source'] = 'web_app'
+): ErasePlan {
+  const plan: ErasePlan = { deletes: [], updates: [], creates: [] };
+  const cuts: Interval[] = ranges
+    .map((range) => ({
+      start: parseZonedDateTime(range.start),
+      end: parseZonedDateTime(range.end),
+    }))
+    .filter((cut) => isBefore(cut.start, cut.end));
+
+  const changed = new Set<string>();
+  const now = new Date().toISOString();
+
+  for (const rule of rules) {
+    if (rule.ruleType !== 'one-time' || !rule.startDateTime || !rule.endDateTime) continue;
+
+    const original: Interval = {
+      start: parseZonedDateTime(rule.startDateTime),
+      end: parseZonedDateTime(rule.endDateTime),
+    };
+    let pieces = [original];
+    for (const cut of cuts) {
+      pieces = pieces.flatMap((piece) => subtractInterval(piece, cut));
+    }
+
+    if (pieces.length === 1 && pieces[0] === original) continue;
+
+    if (pieces.length === 0) {
+      plan.deletes.push(rule.id);
+      changed.add(rule.id);
+      continue;
+    }
+
+    const restamped = { ...rule, updatedAt: now };
+    const outranked = rules.filter(
+      (other) =>
+        other.id !== rule.id &&
+        compareRulePrecedence(other, rule) > 0 &&
+        compareRulePrecedence(other, restamped) < 0
+    );
+    const wouldFlip = pieces.some((piece) =>
+      outranked.some((other) => ruleCoversInterval(other, piece))
+    );
+    if (wouldFlip) continue;
+
+    const { id, updatedAt, ...fields } = rule;
+    const [first, ...rest] = pieces;
+    plan.updates.push({
+      ...fields,
+      id,
+      startDateTime: toStudioDateTime(first.start),
+      endDateTime: toStudioDateTime(first.end),
+    });
+    for (const piece of rest) {
+      plan.creates.push({
+        ...fields,
+        startDateTime: toStudioDateTime(piece.start),
+        endDateTime: toStudioDateTime(piece.end),
+      });
+    }
+    changed.add(rule.id);
+  }
+
+  // Skip whole occurrences of the recurring rules that show through
+  const inCuts = (slotStart: Date) =>
+    cuts.some((cut) => !isBefore(slotStart, cut.start) && isBefore(slotStart, cut.end));
+  let remaining = rules.filter((rule) => !changed.has(rule.id));
+  // Highest precedence first, so a rule skipped on a date lets the next one show through
+  const recurringIds = prepareRules(remaining)
+    .reverse()
+    .filter(({ rule }) => rule.ruleType === 'recurring' && rule.startTime && rule.endTime)
+    .map(({ rule }) => rule.id);
+
+  for (const ruleId of recurringIds) {
+    // Earlier passes restamp rules and add exceptions, so rank against the current versions
+    const rule = remaining.find((existing) => existing.id === ruleId)!;
+    const prepared = prepareRules(remaining);
+
+    // A rule restamped in this plan ties with this one, and a tie could go either way
+    const restamped = { ...rule, updatedAt: now };
+    const wouldFlip = remaining.some(
+      (other) =>
+        other.id !== rule.id &&
+        compareRulePrecedence(other, rule) > 0 &&
+        compareRulePrecedence(other, restamped) <= 0
+    );
+    if (wouldFlip) continue;
+
+    const dates = new Set<string>();
+    for (const cut of cuts) {
+      const lastDate = formatInTimeZone(cut.end, TIMEZONE, 'yyyy-MM-dd');
+      // Start a day early for overnight occurrences that run into the range
+      let date = format(addDays(parseISO(formatInTimeZone(cut.start, TIMEZONE, 'yyyy-MM-dd')), -1), 'yyyy-MM-dd');
+      for (; date <= lastDate; date = format(addDays(parseISO(date), 1), 'yyyy-MM-dd')) {
+        if (dates.has(date) || !recurringRuleApplies(rule, date)) continue;
+
+        let covered = true;
+        let shows = false;
+        forEachSlotStart(recurringOccurrence(rule, date), (slotStart) => {
+          covered = inCuts(slotStart);
+          shows = shows || winningRule(prepared, slotStart) === rule;
+          return covered;
+        });
+        if (covered && shows) dates.add(date);
+      }
+    }
+    if (dates.size === 0) continue;
+
+    const { id, updatedAt, ...fields } = rule;
+    const exceptions = [...(rule.exceptions || []), ...Array.from(dates).sort()];
+    plan.updates.push({ ...fields, id, exceptions });
+    remaining = remaining.map((existing) =>
+      existing.id === id ? { ...restamped, exceptions } : existing
+    );
+  }
+
+  // Resolve what's left and override ranges that aren't fully Blank
+  const resolved = prepareRules(remaining);
+
+  for (const cut of cuts) {
+    let showsThrough = false;
+    forEachSlotStart(cut, (slotStart) => {
+      showsThrough = resolvedStatus(winningRule(resolved, slotStart)) !== 'Blank';
+      return !showsThrough;
+    });
+
+    if (showsThrough) {
+      plan.creates.push({
+        engineerId,
+        status: 'Blank',
+        ruleType: 'one-time',
+        startDateTime: toStudioDateTime(cut.start),
+        endDateTime: toStudioDateTime(cut.end),
+        source,
+      });
+    }
+  }
+
+  return plan;
+}
+
+// Compaction: prune shadowed one-time rules and merge adjacent same-status ones
+export interface CompactionPlan {
+  deletes: string[];
+  updates: (NewAvailabilityRule & { id: string })[];
+}
+
+// Work out the deletes and updates that shrink an engineer's rules without changing
+// any slot's status. A one-time rule is pruned when every slot it covers resolves to
+// the same status without it. Touching chains of same-status one-time rules are merged
+// into their first rule; the merged rule becomes the latest of its priority, so a chain
+// is only merged when its whole span already resolves to that status.
+export function planCompaction(rules: AvailabilityRule[]): CompactionPlan {
+  const plan: CompactionPlan = { deletes: [], updates: [] };
+  let working = prepareRules(rules);
+
+  // Prune, lowest precedence first, re-checking against what's left after each removal
+  for (const candidate of [...working]) {
+    const { rule, start, end } = candidate;
+    if (rule.ruleType !== 'one-time' || !start || !end) continue;
+
+    let redundant = true;
+    forEachSlotStart({ start, end }, (slotStart) => {
+      const winner = winningRule(working, slotStart);
+      if (winner === rule) {
+        redundant =
+          resolvedStatus(winningRule(working, slotStart, rule)) === rule.status;
+      }
+      return redundant;
+    });
+
+    if (redundant) {
+      working = working.filter((prepared) => prepared !== candidate);
+      plan.deletes.push(rule.id);
+    }
+  }
+
+  // Merge chains of touching or overlapping ranges with the same status and priority;
+  // imported rules stay tied to their calendar event so re-imports can find them
+  const chainKey = (prepared: PreparedRule) =>
+    `${prepared.rule.status}:${prepared.rule.priority || 0}:${prepared.rule.importId || ''}`;
+  const oneTime = working
+    .filter((prepared) => prepared.start && prepared.end)
+    .sort(
+      (a, b) =>
+        chainKey(a).localeCompare(chainKey(b)) ||
+        a.start!.getTime() - b.start!.getTime()
+    );
+
+  const spanKeepsStatus = (span: Interval, status: SlotStatus) => {
+    let keeps = true;
+    forEachSlotStart(span, (slotStart) => {
+      keeps = resolvedStatus(winningRule(working, slotStart)) === status;
+      return keeps;
+    });
+    return keeps;
+  };
+
+  const mergeChain = (chain: PreparedRule[], span: Interval) => {
+    if (chain.length < 2) return;
+    const { id, updatedAt, ...fields } = chain[0].rule;
+    plan.updates.push({
+      ...fields,
+      id,
+      startDateTime: toStudioDateTime(span.start),
+      endDateTime: toStudioDateTime(span.end),
+    });
+    plan.deletes.push(...chain.slice(1).map((prepared) => prepared.rule.id));
+  };
+
+  let chain: PreparedRule[] = [];
+  let span: Interval | null = null;
+
+  for (const prepared of oneTime) {
+    const head = chain[0];
+    const touches =
+      head &&
+      span &&
+      chainKey(head) === chainKey(prepared) &&
+      !isAfter(prepared.start!, span.end);
+
+    if (touches) {
+      const extended: Interval = {
+        start: span!.start,
+        end: isAfter(prepared.end!, span!.end) ? prepared.end! : span!.end,
+      };
+      if (spanKeepsStatus(extended, prepared.rule.status)) {
+        chain.push(prepared);
+        span = extended;
+        continue;
+      }
+    }
+
+    if (span) mergeChain(chain, span);
+    chain = [prepared];
+    span = { start: prepared.start!, end: prepared.end! };
+  }
+  if (span) mergeChain(chain, span);
+
+  return plan;
+}
+
 // Get availability summary for n8n queries
 export interface AvailabilitySummary {
   available: string[];
@@ -277,3 +1076,276 @@ export function getAvailabilitySummary(
 
   return summary;
 }
+
+// Team heatmap: who is in each bucket for every slot of the range
+export interface HeatmapSlot extends AvailabilitySummary {
+  time: string;
+  datetime: string;
+}
+
+export interface HeatmapDay {
+  date: string;
+  dayName: string;
+  slots: HeatmapSlot[];
+}
+
+export function getTeamHeatmap(
+  engineersAvailability: Map<string, DayAvailability[]>,
+  startDate: Date,
+  endDate: Date,
+  options: AvailabilityOptions = {}
+): HeatmapDay[] {
+  // An empty calendar gives the slot grid even when there are no engineers
+  return calculateAvailability([], [], startDate, endDate, options).map((day) => ({
+    date: day.date,
+    dayName: day.dayName,
+    slots: day.slots.map((slot) => {
+      const end = timeToMinutes(slot.time) + SLOT_MINUTES;
+      const endTime = `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}`;
+      return {
+        time: slot.time,
+        datetime: slot.datetime,
+        ...getAvailabilitySummary(engineersAvailability, day.date, slot.time, endTime),
+      };
+    }),
+  }));
+}
+
+// Find-a-slot: windows of a given length where enough engineers are free at once
+export interface WindowSearchOptions {
+  durationMinutes: number;
+  requiredCount: number; // Engineers that must be free for the whole window
+  includeMaybe?: boolean; // Count Maybe slots as free
+  earliest?: string; // "HH:mm" the window may start from, in the grid's zone
+  latest?: string; // "HH:mm" the window must end by; before earliest means overnight
+  notBefore?: Date; // Skip windows starting earlier, e.g. now
+  limit?: number;
+  timeZone?: string; // Zone the grids were laid out in (defaults to TIMEZONE)
+}
+
+export interface AvailableWindow {
+  start: string; // ISO datetime
+  end: string;
+  latest_start: string; // The same engineers stay free for any start up to this
+  date: string; // Grid date the window starts on
+  start_time: string; // "HH:mm" in the grid's zone
+  end_time: string;
+  available: string[]; // Keys of engineersAvailability available for the whole window
+  maybe: string[]; // Keys of those only free if Maybe counts
+  maybe_counted_as_free: boolean; // True when the window needs Maybe engineers to reach requiredCount
+}
+
+// Free = 2 for Available, 1 for Maybe, 0 for anything else
+const FREE_LEVEL: Partial<Record<SlotStatus, number>> = { Available: 2, Maybe: 1 };
+
+// Whether a slot's time of day falls inside [earliest, latest)
+function withinTimeBounds(time: string, earliest: string, latest: string): boolean {
+  if (earliest < latest) return time >= earliest && time < latest;
+  return time >= earliest || time < latest;
+}
+
+// Slide a window over calculateAvailability output (every engineer laid out in the same zone
+// and range). Back-to-back starts with the same engineers collapse into one window with a
+// latest_start. Windows that don't need Maybe engineers rank first, then the earliest.
+export function findAvailableWindows(
+  engineersAvailability: Map<string, DayAvailability[]>,
+  options: WindowSearchOptions
+): AvailableWindow[] {
+  const { durationMinutes, requiredCount, includeMaybe = false, notBefore } = options;
+  const earliest = options.earliest || '00:00';
+  const latest = options.latest || '00:00';
+  const slotsNeeded = Math.ceil(durationMinutes / SLOT_MINUTES);
+
+  const names = [...engineersAvailability.keys()];
+  const grids = names.map((name) =>
+    engineersAvailability.get(name)!.flatMap((day) => day.slots.map((slot) => ({ date: day.date, slot })))
+  );
+  const slotCount = Math.min(...grids.map((grid) => grid.length));
+  if (names.length === 0 || slotCount < slotsNeeded) return [];
+
+  const windows: (AvailableWindow & { lastIndex: number })[] = [];
+
+  for (let i = 0; i + slotsNeeded <= slotCount; i++) {
+    const first = grids[0][i];
+    const startDate = parseISO(first.slot.datetime);
+    if (notBefore && isBefore(startDate, notBefore)) continue;
+
+    const covered = grids[0].slice(i, i + slotsNeeded);
+    if (!covered.every(({ slot }) => withinTimeBounds(slot.time, earliest, latest))) continue;
+
+    const available: string[] = [];
+    const maybe: string[] = [];
+    names.forEach((name, e) => {
+      const level = Math.min(
+        ...grids[e].slice(i, i + slotsNeeded).map(({ slot }) => FREE_LEVEL[slot.status] || 0)
+      );
+      if (level === 2) available.push(name);
+      else if (level === 1) maybe.push(name);
+    });
+
+    const freeCount = available.length + (includeMaybe ? maybe.length : 0);
+    if (freeCount < requiredCount) continue;
+
+    // Extend the previous window when this start is the next slot with the same people
+    const previous = windows[windows.length - 1];
+    if (
+      previous &&
+      previous.lastIndex === i - 1 &&
+      previous.available.join('|') === available.join('|') &&
+      previous.maybe.join('|') === maybe.join('|')
+    ) {
+      previous.latest_start = first.slot.datetime;
+      previous.lastIndex = i;
+      continue;
+    }
+
+    const end = addMinutes(startDate, durationMinutes);
+    windows.push({
+      start: first.slot.datetime,
+      end: end.toISOString(),
+      latest_start: first.slot.datetime,
+      date: first.date,
+      start_time: first.slot.time,
+      end_time: formatInTimeZone(end, options.timeZone || TIMEZONE, 'HH:mm'),
+      available,
+      maybe,
+      maybe_counted_as_free: available.length < requiredCount,
+      lastIndex: i,
+    });
+  }
+
+  return windows
+    .sort(
+      (a, b) =>
+        Number(a.maybe_counted_as_free) - Number(b.maybe_counted_as_free) ||
+        a.start.localeCompare(b.start)
+    )
+    .slice(0, options.limit)
+    .map(({ lastIndex, ...window }) => window);
+}
+
+// Back-to-back slots with the same status, e.g. the part of a booking that hits another session
+export interface SlotRange {
+  start: string; // ISO datetime
+  end: string;
+  status: SlotStatus;
+  sessionId?: string;
+  ruleId?: string;
+}
+
+export interface BookingCheck {
+  conflicts: SlotRange[]; // Booked or Unavailable: the booking needs force
+  warnings: SlotRange[]; // Maybe or not set: allowed, but worth confirming
+}
+
+const BLOCKING_STATUSES: SlotStatus[] = ['Booked', 'Unavailable'];
+
+// Check the slots a proposed booking overlaps in calculateAvailability output
+export function checkBooking(days: DayAvailability[], start: Date, end: Date): BookingCheck {
+  const ranges: SlotRange[] = [];
+
+  for (const slot of days.flatMap((day) => day.slots)) {
+    const slotStart = parseISO(slot.datetime);
+    const slotEnd = addMinutes(slotStart, SLOT_MINUTES);
+    if (!isBefore(slotStart, end) || !isAfter(slotEnd, start) || slot.status === 'Available') {
+      continue;
+    }
+
+    const previous = ranges[ranges.length - 1];
+    if (
+      previous &&
+      previous.end === slot.datetime &&
+      previous.status === slot.status &&
+      previous.sessionId === slot.sessionId &&
+      previous.ruleId === slot.ruleId
+    ) {
+      previous.end = slotEnd.toISOString();
+      continue;
+    }
+
+    ranges.push({
+      start: slot.datetime,
+      end: slotEnd.toISOString(),
+      status: slot.status,
+      ...(slot.sessionId && { sessionId: slot.sessionId }),
+      ...(slot.ruleId && { ruleId: slot.ruleId }),
+    });
+  }
+
+  return {
+    conflicts: ranges.filter((range) => BLOCKING_STATUSES.includes(range.status)),
+    warnings: ranges.filter((range) => !BLOCKING_STATUSES.includes(range.status)),
+  };
+}
+
+// Conflict report: sessions booked over time the engineer didn't offer, on top of each
+// other, or for engineers who are no longer active
+export type SessionConflictType = 'unavailable' | 'not_set' | 'overlap' | 'inactive_engineer';
+
+export interface SessionConflict {
+  type: SessionConflictType;
+  session: Session;
+  ranges?: SlotRange[]; // unavailable / not_set: the part of the session affected
+  otherSession?: Session; // overlap: the later of the two sessions
+}
+
+export function findSessionConflicts(
+  sessions: Session[],
+  activeEngineerIds: Set<string>,
+  rules: AvailabilityRule[]
+): SessionConflict[] {
+  const conflicts: SessionConflict[] = [];
+  const bounds = new Map(
+    sessions.map((session) => [
+      session.id,
+      { start: parseZonedDateTime(session.start), end: parseZonedDateTime(session.end) },
+    ])
+  );
+  const byEngineer = new Map<string, Session[]>();
+  for (const session of sessions) {
+    byEngineer.set(session.engineerId, [...(byEngineer.get(session.engineerId) || []), session]);
+  }
+
+  for (const [engineerId, engineerSessions] of byEngineer) {
+    if (!activeEngineerIds.has(engineerId)) {
+      for (const session of engineerSessions) {
+        conflicts.push({ type: 'inactive_engineer', session });
+      }
+      continue;
+    }
+
+    // What the engineer's rules alone say about each session's slots
+    const engineerRules = rules.filter((rule) => rule.engineerId === engineerId);
+    for (const session of engineerSessions) {
+      const { start, end } = bounds.get(session.id)!;
+      const days = calculateAvailability(
+        engineerRules,
+        [],
+        parseISO(formatInTimeZone(start, TIMEZONE, 'yyyy-MM-dd')),
+        parseISO(formatInTimeZone(end, TIMEZONE, 'yyyy-MM-dd'))
+      );
+      const check = checkBooking(days, start, end);
+      const notSet = check.warnings.filter((range) => range.status === 'Blank');
+      if (check.conflicts.length > 0) {
+        conflicts.push({ type: 'unavailable', session, ranges: check.conflicts });
+      }
+      if (notSet.length > 0) {
+        conflicts.push({ type: 'not_set', session, ranges: notSet });
+      }
+    }
+
+    const sorted = [...engineerSessions].sort(
+      (a, b) => bounds.get(a.id)!.start.getTime() - bounds.get(b.id)!.start.getTime()
+    );
+    sorted.forEach((session, i) => {
+      for (const other of sorted.slice(i + 1)) {
+        if (!isBefore(bounds.get(other.id)!.start, bounds.get(session.id)!.end)) break;
+        conflicts.push({ type: 'overlap', session, otherSession: other });
+      }
+    });
+  }
+
+  return conflicts.sort(
+    (a, b) => bounds.get(a.session.id)!.start.getTime() - bounds.get(b.session.id)!.start.getTime()
+  );
+}
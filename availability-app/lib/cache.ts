@@ -0,0 +1,250 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { NextApiHandler, NextApiResponse } from 'next';
+import type { StorageBackend } from './storage';
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number; // Epoch milliseconds
+  expiresAt: number;
+}
+
+// Where cached reads live; swap in a shared store (e.g. Redis) with setCacheStore when
+// several instances should see each other's invalidations
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+const DEFAULT_TTL_SECONDS = 30;
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Process-local store. Values are copied in and out so callers can't mutate a cached entry.
+// Expired entries are swept on write, and past maxEntries the oldest entries are dropped.
+export function createMemoryCacheStore(maxEntries: number = DEFAULT_MAX_ENTRIES): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return structuredClone(entry) as CacheEntry<T>;
+    },
+
+    async set(key, entry) {
+      const now = Date.now();
+      for (const [existingKey, existing] of Array.from(entries.entries())) {
+        if (existing.expiresAt <= now) entries.delete(existingKey);
+      }
+      // Re-inserting moves the key to the back of the Map's insertion order
+      entries.delete(key);
+      while (entries.size >= maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      entries.set(key, structuredClone(entry));
+    },
+
+    async deletePrefix(prefix) {
+      for (const key of Array.from(entries.keys())) {
+        if (key.startsWith(prefix)) entries.delete(key);
+      }
+    },
+  };
+}
+
+let cacheStore: CacheStore | undefined;
+
+export function getCacheStore(): CacheStore {
+  if (!cacheStore) cacheStore = createMemoryCacheStore();
+  return cacheStore;
+}
+
+export function setCacheStore(store: CacheStore | undefined): void {
+  cacheStore = store;
+}
+
+// CACHE_TTL_SECONDS, where 0 turns the cache off
+export function getCacheTtlSeconds(): number {
+  const value = process.env.CACHE_TTL_SECONDS;
+  if (value === undefined || value === '') return DEFAULT_TTL_SECONDS;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS;
+}
+
+// Cache reads made while handling one request, so the response can say how fresh it is
+interface CacheReads {
+  res: NextApiResponse;
+  missed: boolean;
+  oldestStoredAt?: number;
+}
+
+const requestReads = new AsyncLocalStorage<CacheReads>();
+
+function recordRead(storedAt: number | undefined) {
+  const reads = requestReads.getStore();
+  if (!reads || reads.res.headersSent) return;
+
+  if (storedAt === undefined) reads.missed = true;
+  else reads.oldestStoredAt = Math.min(reads.oldestStoredAt ?? storedAt, storedAt);
+
+  // X-Cache is HIT only when every read came from the cache; Age is the oldest entry used
+  reads.res.setHeader('X-Cache', reads.missed ? 'MISS' : 'HIT');
+  reads.res.setHeader(
+    'Age',
+    String(reads.oldestStoredAt === undefined ? 0 : Math.floor((Date.now() - reads.oldestStoredAt) / 1000))
+  );
+}
+
+// Wrap an API route so its responses carry X-Cache and Age headers for the reads it made
+export function withCacheHeaders(handler: NextApiHandler): NextApiHandler {
+  return (req, res) => requestReads.run({ res, missed: false }, () => handler(req, res));
+}
+
+// Reads inside withoutCache go straight to the backend
+const bypass = new AsyncLocalStorage<boolean>();
+
+// Run fn with fresh reads, for checks that decide what to write: another instance or an edit
+// in Airtable may have changed the data without invalidating this process's cache
+export function withoutCache<T>(fn: () => Promise<T>): Promise<T> {
+  return bypass.run(true, fn);
+}
+
+const engineerScope = (engineerId?: string) => engineerId || '*';
+
+// Put a cache in front of the backend's list reads. Writes drop the cached rules or
+// sessions of the engineer they touch, plus the team-wide lists that include them.
+export function withCache(
+  backend: StorageBackend,
+  options: { ttlSeconds: number; store?: () => CacheStore }
+): StorageBackend {
+  const store = options.store || getCacheStore;
+
+  async function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (bypass.getStore()) {
+      recordRead(undefined);
+      return load();
+    }
+
+    const hit = await store().get<T>(key);
+    if (hit) {
+      recordRead(hit.storedAt);
+      return hit.value;
+    }
+
+    const value = await load();
+    const now = Date.now();
+    await store().set(key, { value, storedAt: now, expiresAt: now + options.ttlSeconds * 1000 });
+    recordRead(undefined);
+    return value;
+  }
+
+  // Without an engineer every entry of that kind goes
+  async function invalidate(kind: 'rules' | 'sessions', engineerId?: string) {
+    if (!engineerId) {
+      await store().deletePrefix(`${kind}:`);
+      return;
+    }
+    await store().deletePrefix(`${kind}:${engineerId}:`);
+    await store().deletePrefix(`${kind}:*:`);
+  }
+
+  async function ruleOwner(ruleId: string) {
+    return (await backend.getAvailabilityRule(ruleId))?.engineerId;
+  }
+
+  async function sessionOwner(sessionId: string) {
+    return (await backend.getSession(sessionId))?.engineerId;
+  }
+
+  return {
+    ...backend,
+
+    getEngineers() {
+      return cached('engineers:', () => backend.getEngineers());
+    },
+
+    getAvailabilityRules(engineerId) {
+      return cached(`rules:${engineerScope(engineerId)}:`, () =>
+        backend.getAvailabilityRules(engineerId)
+      );
+    },
+
+    getAvailabilityRulesInRange(startDate, endDate, engineerId) {
+      return cached(`rules:${engineerScope(engineerId)}:${startDate}/${endDate}`, () =>
+        backend.getAvailabilityRulesInRange(startDate, endDate, engineerId)
+      );
+    },
+
+    getSessions(startDate, endDate, engineerId) {
+      return cached(`sessions:${engineerScope(engineerId)}:${startDate}/${endDate}`, () =>
+        backend.getSessions(startDate, endDate, engineerId)
+      );
+    },
+
+    async createAvailabilityRule(rule) {
+      const created = await backend.createAvailabilityRule(rule);
+      await invalidate('rules', rule.engineerId);
+      return created;
+    },
+
+    async updateAvailabilityRule(ruleId, rule) {
+      const previousOwner = await ruleOwner(ruleId);
+      const updated = await backend.updateAvailabilityRule(ruleId, rule);
+      await invalidate('rules', rule.engineerId);
+      if (previousOwner !== rule.engineerId) await invalidate('rules', previousOwner);
+      return updated;
+    },
+
+    async deleteAvailabilityRule(ruleId) {
+      const owner = await ruleOwner(ruleId);
+      await backend.deleteAvailabilityRule(ruleId);
+      await invalidate('rules', owner);
+    },
+
+    // Batch deletes only have IDs, so they clear every cached rule list
+    async batchDeleteAvailabilityRules(ruleIds) {
+      await backend.batchDeleteAvailabilityRules(ruleIds);
+      if (ruleIds.length > 0) await invalidate('rules');
+    },
+
+    async batchCreateAvailabilityRules(rules) {
+      const created = await backend.batchCreateAvailabilityRules(rules);
+      for (const engineerId of new Set(rules.map((rule) => rule.engineerId))) {
+        await invalidate('rules', engineerId);
+      }
+      return created;
+    },
+
+    async batchUpdateAvailabilityRules(rules) {
+      const updated = await backend.batchUpdateAvailabilityRules(rules);
+      for (const engineerId of new Set(rules.map((rule) => rule.engineerId))) {
+        await invalidate('rules', engineerId);
+      }
+      return updated;
+    },
+
+    async createSession(session) {
+      const created = await backend.createSession(session);
+      await invalidate('sessions', session.engineerId);
+      return created;
+    },
+
+    async updateSession(sessionId, session) {
+      const previousOwner = await sessionOwner(sessionId);
+      const updated = await backend.updateSession(sessionId, session);
+      await invalidate('sessions', session.engineerId);
+      if (previousOwner !== session.engineerId) await invalidate('sessions', previousOwner);
+      return updated;
+    },
+
+    async deleteSession(sessionId) {
+      const owner = await sessionOwner(sessionId);
+      await backend.deleteSession(sessionId);
+      await invalidate('sessions', owner);
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import { Engineer } from './types';
+
+// Resolve what a person or bot typed ("marc", "DeShawn W.", "+1 555 010 0199")
+// to one engineer, or to the candidates it could mean
+
+export type EngineerMatchType = 'id' | 'phone' | 'name' | 'alias' | 'partial' | 'typo';
+
+export interface EngineerCandidate {
+  id: string;
+  name: string;
+  matchedOn: EngineerMatchType;
+}
+
+export type EngineerResolution =
+  | { status: 'found'; engineer: Engineer; matchedOn: EngineerMatchType }
+  | { status: 'ambiguous'; candidates: EngineerCandidate[] }
+  | { status: 'not_found' };
+
+// Lower-case, drop accents and punctuation, collapse spaces: "DeShawn W." -> "deshawn w"
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Digits of a phone number, treating 10-digit numbers as North American (+1)
+export function normalizePhone(value: string): string | null {
+  if (!/^\+?[\d\s().-]+$/.test(value.trim())) return null;
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 7) return null;
+  return digits.length === 10 ? `1${digits}` : digits;
+}
+
+export function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+// Every normalized name an engineer goes by: full name, first name and aliases
+export function engineerNames(engineer: Engineer): { value: string; matchedOn: 'name' | 'alias' }[] {
+  const fullName = normalizeName(engineer.name);
+  const names: { value: string; matchedOn: 'name' | 'alias' }[] = [{ value: fullName, matchedOn: 'name' }];
+  const firstName = fullName.split(' ')[0];
+  if (firstName && firstName !== fullName) names.push({ value: firstName, matchedOn: 'name' });
+  for (const alias of engineer.aliases || []) {
+    const value = normalizeName(alias);
+    if (value) names.push({ value, matchedOn: 'alias' });
+  }
+  return names;
+}
+
+// Longer names tolerate more typos
+function allowedTypos(value: string): number {
+  if (value.length < 4) return 0;
+  return value.length < 8 ? 1 : 2;
+}
+
+// "marc" or "deshawn w" matches "Marcus ..." / "DeShawn Williams": each word is a prefix, in order
+function isPartialMatch(query: string, name: string): boolean {
+  const queryWords = query.split(' ');
+  const nameWords = name.split(' ');
+  if (queryWords[0].length < 2 || queryWords.length > nameWords.length) return false;
+  return queryWords.every((word, i) => nameWords[i].startsWith(word));
+}
+
+function toResolution(matches: { engineer: Engineer; matchedOn: EngineerMatchType }[]): EngineerResolution | null {
+  if (matches.length === 0) return null;
+  if (matches.length === 1) return { status: 'found', ...matches[0] };
+  return {
+    status: 'ambiguous',
+    candidates: matches.map(({ engineer, matchedOn }) => ({ id: engineer.id, name: engineer.name, matchedOn })),
+  };
+}
+
+// Try each way of matching from most to least certain, stopping at the first that hits
+export function resolveEngineer(query: string, engineers: Engineer[]): EngineerResolution {
+  const trimmed = query.trim();
+  if (!trimmed) return { status: 'not_found' };
+
+  const byId = engineers.filter((e) => e.id === trimmed);
+  if (byId.length > 0) return { status: 'found', engineer: byId[0], matchedOn: 'id' };
+
+  const phone = normalizePhone(trimmed);
+  if (phone) {
+    const byPhone = engineers
+      .filter((e) => e.phone && normalizePhone(e.phone) === phone)
+      .map((engineer) => ({ engineer, matchedOn: 'phone' as const }));
+    return toResolution(byPhone) || { status: 'not_found' };
+  }
+
+  const normalized = normalizeName(trimmed);
+  if (!normalized) return { status: 'not_found' };
+  const named = engineers.map((engineer) => ({ engineer, names: engineerNames(engineer) }));
+
+  // Full name, then alias, then first name, then prefixes, then typos
+  const tiers: [EngineerMatchType, (name: { value: string; matchedOn: string }, index: number) => boolean][] = [
+    ['name', (name, index) => index === 0 && name.value === normalized],
+    ['alias', (name) => name.matchedOn === 'alias' && name.value === normalized],
+    ['name', (name) => name.value === normalized],
+    ['partial', (name) => isPartialMatch(normalized, name.value)],
+    [
+      'typo',
+      (name) => {
+        const allowed = allowedTypos(name.value);
+        return allowed > 0 && editDistance(normalized, name.value) <= allowed;
+      },
+    ],
+  ];
+
+  for (const [matchedOn, matches] of tiers) {
+    const resolution = toResolution(
+      named
+        .filter(({ names }) => names.some(matches))
+        .map(({ engineer }) => ({ engineer, matchedOn }))
+    );
+    if (resolution) return resolution;
+  }
+
+  return { status: 'not_found' };
+}
@@ -0,0 +1,48 @@
+import { parseISO, isValid } from 'date-fns';
+
+// Helpers for building Airtable filterByFormula strings from untrusted input.
+// Values are always validated and quoted here rather than spliced in by callers.
+
+const RECORD_ID_PATTERN = /^rec[A-Za-z0-9]{14}$/;
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export function isRecordId(value: unknown): value is string {
+  return typeof value === 'string' && RECORD_ID_PATTERN.test(value);
+}
+
+export function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && isValid(parseISO(value));
+}
+
+// Quote a string literal, escaping anything that could end it early
+export function quote(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+  return `'${escaped}'`;
+}
+
+export function recordIdValue(value: string): string {
+  if (!isRecordId(value)) {
+    throw new Error(`Invalid record ID "${value}"`);
+  }
+  return quote(value);
+}
+
+export function isoDateValue(value: string): string {
+  if (!isIsoDate(value)) {
+    throw new Error(`Invalid ISO date "${value}"`);
+  }
+  return quote(value);
+}
+
+export function and(conditions: string[]): string {
+  return conditions.length === 1 ? conditions[0] : `AND(${conditions.join(', ')})`;
+}
+
+export function or(conditions: string[]): string {
+  return conditions.length === 1 ? conditions[0] : `OR(${conditions.join(', ')})`;
+}
@@ -0,0 +1,342 @@
+import { format, parseISO, addDays, getDaysInMonth, differenceInCalendarDays } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  calculateAvailability,
+  DayAvailability,
+  describeRecurrence,
+  getZonedDayBounds,
+  parseZonedDateTime,
+  recurringOccurrence,
+  recurringRuleApplies,
+  TIMEZONE,
+} from './availability';
+import { AvailabilityRule, Engineer, Session } from './types';
+
+const PRODUCT_ID = '-//Engineer Availability//Availability Feed//EN';
+const UID_DOMAIN = 'engineer-availability';
+const SLOT_MS = 30 * 60 * 1000;
+const MAX_OCCURRENCE_SEARCH_DAYS = 2 * 366;
+
+const ICS_DAYS: Record<string, string> = {
+  Mon: 'MO',
+  Tue: 'TU',
+  Wed: 'WE',
+  Thu: 'TH',
+  Fri: 'FR',
+  Sat: 'SA',
+  Sun: 'SU',
+};
+
+export interface CalendarFeedInput {
+  engineer: Engineer;
+  rules: AvailabilityRule[];
+  sessions: Session[];
+  from: string; // "YYYY-MM-DD", first studio date for one-time blocks
+  to: string; // Last studio date for one-time blocks
+  now?: Date;
+}
+
+// Escape TEXT values (RFC 5545 3.3.11)
+export function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Fold lines longer than 75 octets onto continuation lines starting with a space
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Local wall-clock time in the studio zone, for TZID-qualified properties
+function formatLocal(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+function formatOffset(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  const sign = ms < 0 ? '-' : '+';
+  return `${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// UTC offset in ms; date-fns-tz's getTimezoneOffset is off for hours around a change
+function zoneOffset(timeZone: string, instant: Date): number {
+  const wallClock = formatInTimeZone(instant, timeZone, "yyyy-MM-dd'T'HH:mm:ss'Z'");
+  return Date.parse(wallClock) - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Instants in the given year where the zone's UTC offset changes, found to the minute
+function findOffsetTransitions(timeZone: string, year: number): Date[] {
+  const transitions: Date[] = [];
+  let previous = new Date(Date.UTC(year, 0, 1, 12));
+  for (let day = 1; day <= 366; day++) {
+    const next = new Date(Date.UTC(year, 0, 1 + day, 12));
+    if (zoneOffset(timeZone, previous) !== zoneOffset(timeZone, next)) {
+      let low = previous.getTime();
+      let high = next.getTime();
+      while (high - low > 60000) {
+        const mid = Math.floor((low + high) / 2 / 60000) * 60000;
+        if (zoneOffset(timeZone, new Date(mid)) === zoneOffset(timeZone, previous)) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      transitions.push(new Date(high));
+    }
+    previous = next;
+  }
+  return transitions;
+}
+
+// VTIMEZONE for the studio zone, with yearly rules taken from the given year's transitions
+export function buildTimezone(timeZone: string, year: number): string[] {
+  const transitions = findOffsetTransitions(timeZone, year);
+  if (transitions.length !== 2) {
+    const offset = formatOffset(zoneOffset(timeZone, new Date(Date.UTC(year, 0, 1))));
+    return [
+      'BEGIN:VTIMEZONE',
+      `TZID:${timeZone}`,
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ];
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  for (const instant of transitions) {
+    const before = zoneOffset(timeZone, new Date(instant.getTime() - 60000));
+    const after = zoneOffset(timeZone, instant);
+    const component = after > before ? 'DAYLIGHT' : 'STANDARD';
+    // Observances start at the wall-clock time just before the change
+    const local = new Date(instant.getTime() + before);
+    const dayOfMonth = local.getUTCDate();
+    const localDay = parseISO(local.toISOString().slice(0, 10));
+    const nth = dayOfMonth + 7 > getDaysInMonth(localDay) ? -1 : Math.ceil(dayOfMonth / 7);
+    const weekday = ICS_DAYS[format(localDay, 'EEE')];
+    lines.push(
+      `BEGIN:${component}`,
+      `DTSTART:${formatUtc(local).replace('Z', '')}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${nth}${weekday}`,
+      `TZOFFSETFROM:${formatOffset(before)}`,
+      `TZOFFSETTO:${formatOffset(after)}`,
+      `TZNAME:${formatInTimeZone(instant, timeZone, 'zzz')}`,
+      `END:${component}`
+    );
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// Dates a recurring rule's exceptions knock out, as local start times for EXDATE
+function exceptionDates(rule: AvailabilityRule): string[] {
+  const withoutExceptions = { ...rule, exceptions: [] };
+  const dates: string[] = [];
+  for (const exception of rule.exceptions || []) {
+    const [from, until = from] = exception.split('/');
+    const days = differenceInCalendarDays(parseISO(until), parseISO(from));
+    for (let i = 0; i <= days; i++) {
+      const date = format(addDays(parseISO(from), i), 'yyyy-MM-dd');
+      if (recurringRuleApplies(withoutExceptions, date)) dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// First date on or after `from` the rule occurs, so DTSTART lines up with the RRULE
+function firstOccurrence(rule: AvailabilityRule, from: string): string | null {
+  const withoutExceptions = { ...rule, exceptions: [] };
+  const start = rule.effectiveFrom && rule.effectiveFrom.slice(0, 10) > from ? rule.effectiveFrom.slice(0, 10) : from;
+  for (let i = 0; i < MAX_OCCURRENCE_SEARCH_DAYS; i++) {
+    const date = format(addDays(parseISO(start), i), 'yyyy-MM-dd');
+    if (rule.effectiveUntil && date > rule.effectiveUntil.slice(0, 10)) return null;
+    if (recurringRuleApplies(withoutExceptions, date)) return date;
+  }
+  return null;
+}
+
+// RRULE matching how calculateAvailability expands the rule
+export function toRRule(rule: AvailabilityRule): string {
+  const monthly = rule.recurrenceFrequency === 'monthly';
+  const days = (rule.recurrenceDays || []).map((day) => ICS_DAYS[day]);
+  const byDay =
+    monthly && rule.recurrenceWeeks?.length
+      ? rule.recurrenceWeeks.flatMap((week) => days.map((day) => `${week}${day}`))
+      : days;
+
+  const parts = [`FREQ=${monthly ? 'MONTHLY' : 'WEEKLY'}`];
+  // Intervals only count from effectiveFrom; without it the rule runs every week/month
+  if ((rule.recurrenceInterval || 1) > 1 && rule.effectiveFrom) {
+    parts.push(`INTERVAL=${rule.recurrenceInterval}`);
+  }
+  parts.push(`BYDAY=${byDay.join(',')}`);
+  if (rule.effectiveUntil) {
+    const lastDay = getZonedDayBounds(rule.effectiveUntil.slice(0, 10), TIMEZONE).end;
+    parts.push(`UNTIL=${formatUtc(new Date(lastDay.getTime() - 1000))}`);
+  }
+  parts.push('WKST=MO');
+  return parts.join(';');
+}
+
+// Dates in the feed window where another rule wins part of the rule's occurrence. Those
+// occurrences are left out of the RRULE, and the slots the rule still wins become blocks.
+function lostOccurrences(
+  rule: AvailabilityRule,
+  winners: Map<number, string | undefined>,
+  from: string,
+  to: string
+): string[] {
+  if (!rule.startTime || !rule.endTime) return [];
+  const lost: string[] = [];
+  for (let date = from; date <= to; date = format(addDays(parseISO(date), 1), 'yyyy-MM-dd')) {
+    if (!recurringRuleApplies(rule, date)) continue;
+    const { start, end } = recurringOccurrence(rule, date);
+    for (let slot = start.getTime(); slot < end.getTime(); slot += SLOT_MS) {
+      // Slots past the window aren't resolved; treat them as the rule's own
+      if (winners.has(slot) && winners.get(slot) !== rule.id) {
+        lost.push(date);
+        break;
+      }
+    }
+  }
+  return lost;
+}
+
+function recurringEvent(rule: AvailabilityRule, from: string, stamp: string, lost: string[]): string[] {
+  if (!rule.startTime || !rule.endTime || rule.status === 'Blank') return [];
+  const first = firstOccurrence(rule, from);
+  if (!first) return [];
+
+  // End at or before the start crosses midnight, so 00:00-00:00 is the whole day
+  const endDate = rule.endTime <= rule.startTime ? format(addDays(parseISO(first), 1), 'yyyy-MM-dd') : first;
+  const exdates = Array.from(new Set([...exceptionDates(rule), ...lost]))
+    .sort()
+    .map((date) => formatLocal(date, rule.startTime!));
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${rule.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${formatUtc(new Date(rule.updatedAt))}`,
+    `DTSTART;TZID=${TIMEZONE}:${formatLocal(first, rule.startTime)}`,
+    `DTEND;TZID=${TIMEZONE}:${formatLocal(endDate, rule.endTime)}`,
+    `RRULE:${toRRule(rule)}`,
+    ...(exdates.length > 0 ? [`EXDATE;TZID=${TIMEZONE}:${exdates.join(',')}`] : []),
+    `SUMMARY:${escapeText(rule.status)}`,
+    `DESCRIPTION:${escapeText(`${rule.status} ${describeRecurrence(rule)}`)}`,
+    `CATEGORIES:${rule.status.toUpperCase()}`,
+    `TRANSP:${rule.status === 'Unavailable' ? 'OPAQUE' : 'TRANSPARENT'}`,
+    'END:VEVENT',
+  ];
+}
+
+interface Block {
+  ruleId: string;
+  status: string;
+  start: Date;
+  end: Date;
+}
+
+// Merge back-to-back slots won by the same one-time rule, or by a recurring rule on a date
+// its RRULE event leaves out; other recurring slots are covered by the RRULE events
+function ruleBlocks(days: DayAvailability[], rules: AvailabilityRule[], expanded: Set<number>): Block[] {
+  const oneTimeIds = new Set(rules.filter((rule) => rule.ruleType === 'one-time').map((rule) => rule.id));
+  const blocks: Block[] = [];
+  for (const day of days) {
+    for (const slot of day.slots) {
+      const start = new Date(slot.datetime);
+      if (!slot.ruleId || slot.status === 'Blank') continue;
+      if (!oneTimeIds.has(slot.ruleId) && !expanded.has(start.getTime())) continue;
+      const last = blocks[blocks.length - 1];
+      if (last && last.ruleId === slot.ruleId && last.status === slot.status && last.end.getTime() === start.getTime()) {
+        last.end = new Date(start.getTime() + SLOT_MS);
+      } else {
+        blocks.push({ ruleId: slot.ruleId, status: slot.status, start, end: new Date(start.getTime() + SLOT_MS) });
+      }
+    }
+  }
+  return blocks;
+}
+
+// Build an RFC 5545 calendar of an engineer's availability and booked sessions
+export function buildCalendarFeed({ engineer, rules, sessions, from, to, now = new Date() }: CalendarFeedInput): string {
+  const stamp = formatUtc(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${engineer.name} availability`)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    ...buildTimezone(TIMEZONE, parseISO(from).getFullYear() - 1),
+  ];
+
+  // Resolve the window once so the feed shows what the web calendar shows
+  const days = calculateAvailability(rules, [], parseISO(from), parseISO(to));
+  const winners = new Map(
+    days.flatMap((day) => day.slots.map((slot) => [Date.parse(slot.datetime), slot.ruleId] as const))
+  );
+  const expanded = new Set<number>();
+
+  for (const rule of rules.filter((rule) => rule.ruleType === 'recurring')) {
+    const lost = lostOccurrences(rule, winners, from, to);
+    for (const date of lost) {
+      const { start, end } = recurringOccurrence(rule, date);
+      for (let slot = start.getTime(); slot < end.getTime(); slot += SLOT_MS) {
+        if (winners.get(slot) === rule.id) expanded.add(slot);
+      }
+    }
+    lines.push(...recurringEvent(rule, from, stamp, lost));
+  }
+
+  for (const block of ruleBlocks(days, rules, expanded)) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${block.ruleId}-${formatUtc(block.start)}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(block.start)}`,
+      `DTEND:${formatUtc(block.end)}`,
+      `SUMMARY:${escapeText(block.status)}`,
+      `CATEGORIES:${block.status.toUpperCase()}`,
+      `TRANSP:${block.status === 'Unavailable' ? 'OPAQUE' : 'TRANSPARENT'}`,
+      'END:VEVENT'
+    );
+  }
+
+  for (const session of sessions) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${session.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(parseZonedDateTime(session.start))}`,
+      `DTEND:${formatUtc(parseZonedDateTime(session.end))}`,
+      `SUMMARY:${escapeText(`Booked: ${session.title}`)}`,
+      'CATEGORIES:BOOKED',
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,352 @@
+import { format, parseISO, addDays } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import {
+  isValidTimeZone,
+  parseRRule,
+  recurringRuleApplies,
+  toStudioDateTime,
+  validateAvailabilityRule,
+  TIMEZONE,
+} from './availability';
+import { NewAvailabilityRule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_COUNT_SEARCH_DAYS = 5 * 366;
+const WEEK_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+// RRULE parts the rule model can represent; anything else is skipped rather than guessed at
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT', 'WKST'];
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsEvent {
+  properties: Map<string, IcsProperty[]>;
+}
+
+export interface SkippedEvent {
+  uid: string;
+  summary?: string;
+  reason: string;
+}
+
+export interface IcsImportOptions {
+  engineerId: string;
+  calendar?: string; // Groups the file's rules so a re-import can find them; defaults to X-WR-CALNAME
+  createdBy?: string;
+  now?: Date;
+}
+
+export interface IcsImport {
+  calendar: string;
+  rules: NewAvailabilityRule[];
+  skipped: SkippedEvent[];
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+// Split a content line into name, parameters and value, respecting quoted parameter values
+function parseLine(line: string): { name: string; property: IcsProperty } | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), property: { params, value: line.slice(colon + 1) } };
+}
+
+// Unfold the file and collect the properties of each VEVENT (nested VALARMs are ignored)
+export function parseIcs(text: string): { calendarName?: string; events: IcsEvent[] } {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  const stack: string[] = [];
+  let calendarName: string | undefined;
+  let current: IcsEvent | null = null;
+
+  for (const line of lines) {
+    const parsed = parseLine(line);
+    if (!parsed) continue;
+    const { name, property } = parsed;
+
+    if (name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') current = { properties: new Map() };
+    } else if (name === 'END') {
+      if (stack.pop() === 'VEVENT' && current) {
+        events.push(current);
+        current = null;
+      }
+    } else if (current && stack[stack.length - 1] === 'VEVENT') {
+      current.properties.set(name, [...(current.properties.get(name) || []), property]);
+    } else if (name === 'X-WR-CALNAME' && stack[stack.length - 1] === 'VCALENDAR') {
+      calendarName = unescapeText(property.value);
+    }
+  }
+
+  return { calendarName, events };
+}
+
+function first(event: IcsEvent, name: string): IcsProperty | undefined {
+  return event.properties.get(name)?.[0];
+}
+
+interface IcsTime {
+  instant: Date;
+  allDay: boolean;
+  timeZone: string; // Zone the value was written in
+}
+
+// DATE, UTC, TZID-qualified or floating DATE-TIME; unknown TZIDs are read as studio time
+function parseIcsTime(value: string, params: Record<string, string> = {}): IcsTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = `${year}-${month}-${day}`;
+
+  if (!hours || params.VALUE === 'DATE') {
+    return { instant: fromZonedTime(`${date}T00:00:00`, TIMEZONE), allDay: true, timeZone: TIMEZONE };
+  }
+  const local = `${date}T${hours}:${minutes}:${seconds}`;
+  if (utc) return { instant: new Date(`${local}Z`), allDay: false, timeZone: 'UTC' };
+
+  const tzid = (params.TZID || '').replace(/^\//, '');
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : TIMEZONE;
+  return { instant: fromZonedTime(local, timeZone), allDay: false, timeZone };
+}
+
+// ISO 8601 durations as used by DURATION, e.g. PT1H30M or P1D
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part || '0');
+  const ms =
+    (((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes)) * 60000 +
+    Number(seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function eventTimes(event: IcsEvent): { start: IcsTime; end: Date } | string {
+  const dtstart = first(event, 'DTSTART');
+  const start = dtstart && parseIcsTime(dtstart.value, dtstart.params);
+  if (!start) return 'Missing or unreadable start time';
+
+  const dtend = first(event, 'DTEND');
+  const duration = first(event, 'DURATION');
+  let end: Date;
+  if (dtend) {
+    const parsed = parseIcsTime(dtend.value, dtend.params);
+    if (!parsed) return 'Unreadable end time';
+    end = parsed.instant;
+  } else if (duration) {
+    const ms = parseDuration(duration.value);
+    if (ms === null) return 'Unreadable duration';
+    end = new Date(start.instant.getTime() + ms);
+  } else {
+    // RFC 5545: all-day events without an end last the day, timed ones take no time
+    end = start.allDay ? addDays(start.instant, 1) : start.instant;
+  }
+
+  if (end.getTime() <= start.instant.getTime()) return 'Takes no time';
+  return { start, end };
+}
+
+function studioDate(instant: Date): string {
+  return formatInTimeZone(instant, TIMEZONE, 'yyyy-MM-dd');
+}
+
+// All EXDATE values, as the studio dates they knock out
+function exceptionDates(event: IcsEvent): string[] {
+  const dates = new Set<string>();
+  for (const property of event.properties.get('EXDATE') || []) {
+    for (const value of property.value.split(',')) {
+      const parsed = parseIcsTime(value, property.params);
+      if (parsed) dates.add(studioDate(parsed.instant));
+    }
+  }
+  return Array.from(dates);
+}
+
+// Turn a repeating event into a recurring rule, or explain why it can't be one
+function toRecurringRule(
+  event: IcsEvent,
+  start: IcsTime,
+  end: Date,
+  base: NewAvailabilityRule
+): NewAvailabilityRule | string {
+  if (end.getTime() - start.instant.getTime() > DAY_MS) {
+    return "Repeating events longer than a day aren't supported";
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of first(event, 'RRULE')!.value.split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+  const unsupported = Array.from(parts.keys()).filter((key) => !SUPPORTED_RRULE_PARTS.includes(key));
+  if (unsupported.length > 0) return `Unsupported repeat rule (${unsupported.join(', ')})`;
+
+  // Every day is a weekly rule on all seven days
+  const eventDay = formatInTimeZone(start.instant, start.timeZone, 'EEE');
+  if (parts.get('FREQ') === 'DAILY') {
+    if ((parts.get('INTERVAL') || '1') !== '1') return 'Unsupported repeat rule (every few days)';
+    parts.set('FREQ', 'WEEKLY');
+    parts.set('BYDAY', 'MO,TU,WE,TH,FR,SA,SU');
+  }
+  if (!parts.has('BYDAY')) {
+    if (parts.get('FREQ') === 'MONTHLY') return 'Unsupported repeat rule (monthly by date)';
+    parts.set('BYDAY', eventDay.slice(0, 2).toUpperCase());
+  }
+
+  const pattern = parseRRule(
+    Array.from(parts.entries())
+      .filter(([key]) => key !== 'UNTIL' && key !== 'COUNT')
+      .map(([key, value]) => `${key}=${value}`)
+      .join(';')
+  );
+  if (typeof pattern === 'string') return `Unsupported repeat rule (${pattern})`;
+
+  // Rules are kept in studio time, so shift the weekdays if the event's zone puts it on another day
+  const dayDifference = WEEK_DAYS.indexOf(formatInTimeZone(start.instant, TIMEZONE, 'EEE')) - WEEK_DAYS.indexOf(eventDay);
+  const shift = ((dayDifference + 10) % 7) - 3; // Sun -> Mon is +1, not -6
+  if (shift !== 0) {
+    if (pattern.recurrenceWeeks?.length) return 'Repeats on a different day in studio time';
+    pattern.recurrenceDays = pattern.recurrenceDays!.map(
+      (day) => WEEK_DAYS[(WEEK_DAYS.indexOf(day) + shift + 7) % 7]
+    );
+  }
+
+  const rule: NewAvailabilityRule = {
+    ...base,
+    ruleType: 'recurring',
+    startTime: start.allDay ? '00:00' : formatInTimeZone(start.instant, TIMEZONE, 'HH:mm'),
+    endTime: start.allDay ? '00:00' : formatInTimeZone(end, TIMEZONE, 'HH:mm'),
+    ...pattern,
+    effectiveFrom: studioDate(start.instant),
+  };
+
+  const until = parts.get('UNTIL');
+  if (until) {
+    const parsed = parseIcsTime(until);
+    if (!parsed) return 'Unreadable UNTIL';
+    rule.effectiveUntil = studioDate(parsed.instant);
+  }
+
+  // The rule model has no COUNT, so end it on the last counted occurrence
+  const count = Number(parts.get('COUNT'));
+  if (parts.has('COUNT')) {
+    if (!Number.isInteger(count) || count < 1) return 'Unreadable COUNT';
+    const unbounded = { ...rule, effectiveUntil: undefined, id: '', updatedAt: '' };
+    let seen = 0;
+    for (let i = 0; i < MAX_COUNT_SEARCH_DAYS && seen < count; i++) {
+      const date = format(addDays(parseISO(rule.effectiveFrom!), i), 'yyyy-MM-dd');
+      if (recurringRuleApplies(unbounded, date)) {
+        seen++;
+        rule.effectiveUntil = date;
+      }
+    }
+  }
+
+  return rule;
+}
+
+// Convert the busy events of an .ics file into Unavailable rules for one engineer
+export function importIcsRules(text: string, options: IcsImportOptions): IcsImport {
+  const { calendarName, events } = parseIcs(text);
+  const calendar = (options.calendar || calendarName || 'Calendar').trim().replace(/\//g, '-');
+  const now = options.now || new Date();
+  const today = studioDate(now);
+  const rules: NewAvailabilityRule[] = [];
+  const skipped: SkippedEvent[] = [];
+
+  // Moved or edited instances of a repeating event come as separate VEVENTs with a RECURRENCE-ID
+  const overridden = new Map<string, string[]>();
+  for (const event of events) {
+    const uid = first(event, 'UID')?.value;
+    const recurrenceId = first(event, 'RECURRENCE-ID');
+    const original = recurrenceId && parseIcsTime(recurrenceId.value, recurrenceId.params);
+    if (uid && original) {
+      overridden.set(uid, [...(overridden.get(uid) || []), studioDate(original.instant)]);
+    }
+  }
+
+  for (const event of events) {
+    const uid = first(event, 'UID')?.value || '';
+    const summary = first(event, 'SUMMARY') && unescapeText(first(event, 'SUMMARY')!.value);
+    const skip = (reason: string) => skipped.push({ uid, ...(summary && { summary }), reason });
+
+    if (!uid) {
+      skip('Missing UID');
+      continue;
+    }
+    if (first(event, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+      skip('Cancelled');
+      continue;
+    }
+    if (first(event, 'TRANSP')?.value.toUpperCase() === 'TRANSPARENT') {
+      skip('Shown as free');
+      continue;
+    }
+
+    const times = eventTimes(event);
+    if (typeof times === 'string') {
+      skip(times);
+      continue;
+    }
+
+    const recurrenceId = first(event, 'RECURRENCE-ID');
+    const base: NewAvailabilityRule = {
+      engineerId: options.engineerId,
+      status: 'Unavailable',
+      ruleType: 'one-time',
+      source: 'calendar_import',
+      importId: `${calendar}/${uid}${recurrenceId ? `/${recurrenceId.value}` : ''}`,
+      ...(options.createdBy && { createdBy: options.createdBy }),
+    };
+
+    let rule: NewAvailabilityRule | string;
+    if (first(event, 'RRULE') && !recurrenceId) {
+      rule = toRecurringRule(event, times.start, times.end, base);
+      if (typeof rule !== 'string') {
+        const exceptions = [...exceptionDates(event), ...(overridden.get(uid) || [])];
+        if (exceptions.length > 0) rule.exceptions = Array.from(new Set(exceptions)).sort();
+        if (rule.effectiveUntil && rule.effectiveUntil < today) rule = 'Already over';
+      }
+    } else if (times.end.getTime() <= now.getTime()) {
+      rule = 'Already over';
+    } else {
+      rule = {
+        ...base,
+        startDateTime: toStudioDateTime(times.start.instant),
+        endDateTime: toStudioDateTime(times.end),
+      };
+    }
+
+    if (typeof rule === 'string') {
+      skip(rule);
+      continue;
+    }
+    const error = validateAvailabilityRule(rule);
+    if (error) {
+      skip(error);
+      continue;
+    }
+    rules.push(rule);
+  }
+
+  return { calendar, rules, skipped };
+}
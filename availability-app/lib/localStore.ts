@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { StorageBackend } from './storage';
+import {
+  ApiKey,
+  Engineer,
+  AvailabilityRule,
+  NewAvailabilityRule,
+  NewSession,
+  Session,
+} from './types';
+import { ruleInWindow } from './availability';
+
+// Shape of the JSON data file, one array per Airtable table
+export interface LocalData {
+  engineers: Engineer[];
+  rules: AvailabilityRule[];
+  sessions: Session[];
+  apiKeys: ApiKey[];
+  calendarSecrets: Record<string, string>; // Engineer ID to calendar feed secret
+  usedTokens: Record<string, string>; // Single-use token ID to when it can be forgotten
+}
+
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// Airtable-style record ID: "rec" followed by 14 alphanumerics
+function generateRecordId(): string {
+  const bytes = randomBytes(14);
+  let id = 'rec';
+  for (const byte of bytes) {
+    id += ID_ALPHABET[byte % ID_ALPHABET.length];
+  }
+  return id;
+}
+
+function emptyData(): LocalData {
+  return { engineers: [], rules: [], sessions: [], apiKeys: [], calendarSecrets: {}, usedTokens: {} };
+}
+
+// Drop undefined fields so stored rules look like ones read back from Airtable
+function toStoredRule(id: string, rule: NewAvailabilityRule, updatedAt: string): AvailabilityRule {
+  const stored = { ...rule, id, updatedAt } as AvailabilityRule;
+  for (const key of Object.keys(stored) as (keyof AvailabilityRule)[]) {
+    if (stored[key] === undefined) delete stored[key];
+  }
+  return stored;
+}
+
+// File-backed storage for running locally without Airtable
+export function createJsonStorage(filePath: string): StorageBackend {
+  // Serialise writes so concurrent requests can't interleave read-modify-write cycles
+  let pending: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<LocalData> {
+    try {
+      const contents = await fs.promises.readFile(filePath, 'utf8');
+      return { ...emptyData(), ...JSON.parse(contents) };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return emptyData();
+      throw error;
+    }
+  }
+
+  async function write(data: LocalData): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file and rename so readers never see a half-written file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  function mutate<T>(change: (data: LocalData) => T): Promise<T> {
+    const result = pending.then(async () => {
+      const data = await read();
+      const value = change(data);
+      await write(data);
+      return value;
+    });
+    pending = result.catch(() => undefined);
+    return result;
+  }
+
+  function updateRules(
+    data: LocalData,
+    rules: (NewAvailabilityRule & { id: string })[]
+  ): AvailabilityRule[] {
+    const updatedAt = new Date().toISOString();
+    return rules.map(({ id, ...rule }) => {
+      const index = data.rules.findIndex((existing) => existing.id === id);
+      if (index === -1) {
+        throw Object.assign(new Error(`Rule ${id} not found`), { statusCode: 404 });
+      }
+      const engineerName = data.rules[index].engineerName;
+      data.rules[index] = toStoredRule(id, { engineerName, ...rule }, updatedAt);
+      return data.rules[index];
+    });
+  }
+
+  return {
+    async getEngineers() {
+      const data = await read();
+      return data.engineers.filter((engineer) => engineer.active);
+    },
+
+    async getAvailabilityRules(engineerId) {
+      const data = await read();
+      return engineerId
+        ? data.rules.filter((rule) => rule.engineerId === engineerId)
+        : data.rules;
+    },
+
+    async getAvailabilityRulesInRange(startDate, endDate, engineerId) {
+      const data = await read();
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+      return data.rules.filter(
+        (rule) =>
+          (!engineerId || rule.engineerId === engineerId) && ruleInWindow(rule, start, end)
+      );
+    },
+
+    async getAvailabilityRule(ruleId) {
+      const data = await read();
+      return data.rules.find((rule) => rule.id === ruleId) || null;
+    },
+
+    async getSessions(startDate, endDate, engineerId) {
+      const data = await read();
+      const start = Date.parse(startDate);
+      const end = Date.parse(endDate);
+      return data.sessions.filter((session) => {
+        const sessionStart = Date.parse(session.start);
+        return (
+          sessionStart > start &&
+          sessionStart < end &&
+          (!engineerId || session.engineerId === engineerId)
+        );
+      });
+    },
+
+    async getSession(sessionId) {
+      const data = await read();
+      return data.sessions.find((session) => session.id === sessionId) || null;
+    },
+
+    async getApiKeys() {
+      const data = await read();
+      return data.apiKeys;
+    },
+
+    async getCalendarSecret(engineerId) {
+      const data = await read();
+      return data.calendarSecrets[engineerId] || null;
+    },
+
+    setCalendarSecret(engineerId, secret) {
+      return mutate((data) => {
+        data.calendarSecrets[engineerId] = secret;
+      });
+    },
+
+    claimToken(tokenId, expiresAt) {
+      return mutate((data) => {
+        const now = new Date().toISOString();
+        for (const [used, expires] of Object.entries(data.usedTokens)) {
+          if (expires < now) delete data.usedTokens[used];
+        }
+        if (tokenId in data.usedTokens) return false;
+        data.usedTokens[tokenId] = expiresAt;
+        return true;
+      });
+    },
+
+    createAvailabilityRule(rule) {
+      return mutate((data) => {
+        const created = toStoredRule(generateRecordId(), rule, new Date().toISOString());
+        data.rules.push(created);
+        return created;
+      });
+    },
+
+    updateAvailabilityRule(ruleId, rule) {
+      return mutate((data) => updateRules(data, [{ ...rule, id: ruleId }])[0]);
+    },
+
+    deleteAvailabilityRule(ruleId) {
+      return mutate((data) => {
+        data.rules = data.rules.filter((rule) => rule.id !== ruleId);
+      });
+    },
+
+    batchDeleteAvailabilityRules(ruleIds) {
+      if (ruleIds.length === 0) return Promise.resolve();
+      const ids = new Set(ruleIds);
+      return mutate((data) => {
+        data.rules = data.rules.filter((rule) => !ids.has(rule.id));
+      });
+    },
+
+    batchCreateAvailabilityRules(rules) {
+      if (rules.length === 0) return Promise.resolve([]);
+      return mutate((data) => {
+        const updatedAt = new Date().toISOString();
+        const created = rules.map((rule) => toStoredRule(generateRecordId(), rule, updatedAt));
+        data.rules.push(...created);
+        return created;
+      });
+    },
+
+    batchUpdateAvailabilityRules(rules) {
+      if (rules.length === 0) return Promise.resolve([]);
+      return mutate((data) => updateRules(data, rules));
+    },
+
+    createSession(session) {
+      return mutate((data) => {
+        const created: Session = { ...session, id: generateRecordId() };
+        data.sessions.push(created);
+        return created;
+      });
+    },
+
+    updateSession(sessionId, session) {
+      return mutate((data) => {
+        const index = data.sessions.findIndex((existing) => existing.id === sessionId);
+        if (index === -1) throw new Error(`Session ${sessionId} not found`);
+        data.sessions[index] = { ...session, id: sessionId };
+        return data.sessions[index];
+      });
+    },
+
+    deleteSession(sessionId) {
+      return mutate((data) => {
+        data.sessions = data.sessions.filter((session) => session.id !== sessionId);
+      });
+    },
+  };
+}
@@ -0,0 +1,363 @@
+import { parseISO, addDays, format, getDay, getISODay, isValid, lastDayOfMonth } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Engineer } from './types';
+import { TIMEZONE } from './availability';
+import { editDistance, engineerNames } from './engineerMatch';
+
+// Deterministic parser for chatbot messages like "Marcus is out next Friday after 6pm"
+// or "Tina free weekdays 10-4 until March". Produces /api/chatbot's structured fields.
+
+export interface ParsedAvailabilityText {
+  engineer: string; // Engineer record ID, or the name as written when several engineers match
+  status: 'Available' | 'Maybe' | 'Unavailable';
+  date?: string; // One-time rules
+  days?: string[]; // Recurring rules
+  start_time: string;
+  end_time: string;
+  effective_from?: string;
+  effective_until?: string;
+}
+
+interface TextMatch {
+  index: number;
+  end: number;
+}
+
+interface DateMatch extends TextMatch {
+  // First or last day the expression covers ("March" spans a whole month)
+  resolve: (bound: 'start' | 'end') => string | null;
+}
+
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+const WEEKEND = ['Sat', 'Sun'];
+
+const WEEKDAY_WORD =
+  'monday|mon|tuesday|tues|tue|wednesday|weds|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat|sunday|sun';
+const PLURAL_WEEKDAY_WORD = 'mondays|tuesdays|wednesdays|thursdays|fridays|saturdays|sundays';
+const MONTH_WORD =
+  'january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sept|sep|october|oct|november|nov|december|dec';
+const MONTH_KEYS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const UNTIL_BEFORE = /\b(?:until|till|til|through|thru)\s+$/;
+const FROM_BEFORE = /\b(?:from|starting|beginning|as of)\s+$/;
+const RECURRING_PATTERN = new RegExp(
+  `\\b(?:every|each|daily|weekdays|weekends|${PLURAL_WEEKDAY_WORD})\\b`
+);
+
+const STATUS_PATTERNS: [ParsedAvailabilityText['status'], RegExp][] = [
+  ['Maybe', /\b(?:maybe|may be|might|possibly|tentative(?:ly)?|probably)\b/],
+  [
+    'Unavailable',
+    /\b(?:unavailable|not available|not free|not working|out|off|busy|away|on leave|vacation|holiday|sick|can'?t|cannot)\b/,
+  ],
+  ['Available', /\b(?:available|free|around|working|open|can work)\b/],
+];
+
+const TIME = '(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)?|noon|midnight';
+const TIME_RANGE_PATTERN = new RegExp(
+  `\\b(?:from\\s+|between\\s+)?(${TIME})\\s*(?:-|to|until|till|and)\\s*(${TIME})(?![\\w:])`
+);
+const AFTER_PATTERN = new RegExp(`\\b(?:after|from|starting)\\s+(${TIME})(?![\\w:])`);
+const BEFORE_PATTERN = new RegExp(`\\b(?:before|until|till|til)\\s+(${TIME})(?![\\w:])`);
+const PERIODS: [RegExp, string, string][] = [
+  [/\bmornings?\b/, '08:00', '12:00'],
+  [/\bafternoons?\b/, '12:00', '17:00'],
+  [/\bevenings?\b/, '17:00', '22:00'],
+  [/\b(?:tonight|nights?)\b/, '18:00', '00:00'],
+];
+
+export function parseAvailabilityText(
+  text: string,
+  engineers: Engineer[],
+  now: Date = new Date()
+): ParsedAvailabilityText | string {
+  let remaining = normalize(text);
+  const today = formatInTimeZone(now, TIMEZONE, 'yyyy-MM-dd');
+
+  const engineer = findEngineer(remaining, engineers);
+  if (typeof engineer === 'string') return engineer;
+  remaining = mask(remaining, [engineer.match]);
+
+  const status = STATUS_PATTERNS.find(([, pattern]) => pattern.test(remaining))?.[0];
+  if (!status) {
+    return 'Could not tell whether they are available, maybe available or out';
+  }
+
+  const dates = findDates(remaining, today);
+  const untilDates = dates.filter((d) => UNTIL_BEFORE.test(remaining.slice(0, d.index)));
+  const fromDates = dates.filter((d) => FROM_BEFORE.test(remaining.slice(0, d.index)));
+  const rangeDates = [...untilDates, ...fromDates];
+  const isRecurring = RECURRING_PATTERN.test(mask(remaining, rangeDates));
+
+  const parsed: Omit<ParsedAvailabilityText, 'start_time' | 'end_time'> = {
+    engineer: engineer.engineer,
+    status,
+  };
+
+  if (isRecurring) {
+    if (untilDates.length > 1 || fromDates.length > 1) {
+      return 'Found more than one start or end date';
+    }
+    parsed.effective_until = untilDates[0]?.resolve('end') || undefined;
+    parsed.effective_from = fromDates[0]?.resolve('start') || undefined;
+
+    // Weekday names outside the from/until clauses are the recurring days
+    const dayText = mask(remaining, rangeDates);
+    const days = findRecurringDays(dayText);
+    if (days.days.length === 0) {
+      return 'Could not tell which days the pattern repeats on';
+    }
+    parsed.days = days.days;
+    remaining = mask(remaining, [...rangeDates, ...days.matches]);
+  } else {
+    if (untilDates.length > 0) {
+      return 'Multi-day ranges aren\'t supported; send one day at a time or a repeating pattern like "weekdays"';
+    }
+    const oneTimeDates = dates.filter((d) => !fromDates.includes(d));
+    if (oneTimeDates.length > 1 || fromDates.length > 0) {
+      return 'Found more than one date; send one day at a time';
+    }
+    const date = oneTimeDates[0]?.resolve('start') || (/\b(?:tonight|this (?:morning|afternoon|evening))\b/.test(remaining) ? today : null);
+    if (!date) {
+      return 'Could not find a date or repeating days';
+    }
+    parsed.date = date;
+    remaining = mask(remaining, oneTimeDates);
+  }
+
+  const times = findTimes(remaining);
+  if (typeof times === 'string') return times;
+
+  return { ...parsed, start_time: times.start, end_time: times.end };
+}
+
+// Lower-case and straighten dashes/quotes so the patterns stay simple
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Blank out matched spans, keeping every other index in place
+function mask(text: string, matches: TextMatch[]): string {
+  let result = text;
+  for (const { index, end } of matches) {
+    result = result.slice(0, index) + ' '.repeat(end - index) + result.slice(end);
+  }
+  return result;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Find who the text is about by full name, alias, first name or a small typo. When
+// several engineers fit equally well, the name as written is returned instead of an
+// ID so /api/chatbot's resolver can list the candidates.
+function findEngineer(text: string, engineers: Engineer[]): { engineer: string; match: TextMatch } | string {
+  const scored = engineers.flatMap((engineer) => {
+    const names = engineerNames(engineer);
+
+    for (const [i, name] of names.entries()) {
+      const words = name.value.split(' ').map(escapeRegExp).join('\\s+');
+      const match = new RegExp(`\\b${words}(?:'s)?\\b`).exec(text);
+      if (match) {
+        const score = i === 0 || name.matchedOn === 'alias' ? 3 : 2;
+        return [{ engineer, score, match: { index: match.index, end: match.index + match[0].length } }];
+      }
+    }
+
+    for (const word of text.matchAll(/[a-z]{4,}/g)) {
+      if (names.some((name) => name.value.length >= 4 && editDistance(word[0], name.value) === 1)) {
+        return [{ engineer, score: 1, match: { index: word.index!, end: word.index! + word[0].length } }];
+      }
+    }
+    return [];
+  });
+
+  if (scored.length === 0) return 'No engineer name found in text';
+
+  const best = Math.max(...scored.map((s) => s.score));
+  const top = scored.filter((s) => s.score === best);
+  if (top.length > 1) {
+    const { match } = top[0];
+    return { engineer: text.slice(match.index, match.end).replace(/'s$/, ''), match };
+  }
+  return { engineer: top[0].engineer.id, match: top[0].match };
+}
+
+function dayIndex(word: string): number {
+  return DAY_KEYS.indexOf(word.slice(0, 3));
+}
+
+function monthIndex(word: string): number {
+  return MONTH_KEYS.indexOf(word.slice(0, 3));
+}
+
+// Dates without a year are the next one on or after today
+function upcomingDate(today: string, month: number, day: number): string | null {
+  const year = parseISO(today).getFullYear();
+  for (const candidateYear of [year, year + 1]) {
+    const candidate = new Date(candidateYear, month, day);
+    if (!isValid(candidate) || candidate.getMonth() !== month) return null;
+    const value = format(candidate, 'yyyy-MM-dd');
+    if (value >= today) return value;
+  }
+  return null;
+}
+
+function findDates(text: string, today: string): DateMatch[] {
+  const todayDate = parseISO(today);
+  const patterns: [RegExp, (m: RegExpExecArray) => DateMatch['resolve']][] = [
+    [/\b(\d{4})-(\d{2})-(\d{2})\b/g, (m) => () => {
+      const value = `${m[1]}-${m[2]}-${m[3]}`;
+      return isValid(parseISO(value)) ? value : null;
+    }],
+    [new RegExp(`\\b(${MONTH_WORD})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'g'), (m) => () =>
+      upcomingDate(today, monthIndex(m[1]), Number(m[2]))],
+    [new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_WORD})\\b`, 'g'), (m) => () =>
+      upcomingDate(today, monthIndex(m[2]), Number(m[1]))],
+    // US-style month/day, matching the studio's locale
+    [/\b(\d{1,2})\/(\d{1,2})\b/g, (m) => () => upcomingDate(today, Number(m[1]) - 1, Number(m[2]))],
+    [/\b(today|tonight|tomorrow)\b/g, (m) => () =>
+      format(addDays(todayDate, m[1] === 'tomorrow' ? 1 : 0), 'yyyy-MM-dd')],
+    // "next Friday" is Friday of next week; "Friday" or "this Friday" is the coming one
+    [new RegExp(`\\b(?:(next|this|on)\\s+)?(${WEEKDAY_WORD})\\b`, 'g'), (m) => () => {
+      const target = dayIndex(m[2]);
+      if (m[1] === 'next') {
+        const nextMonday = addDays(todayDate, 8 - getISODay(todayDate));
+        return format(addDays(nextMonday, (target + 6) % 7), 'yyyy-MM-dd');
+      }
+      return format(addDays(todayDate, (target - getDay(todayDate) + 7) % 7), 'yyyy-MM-dd');
+    }],
+    // A bare month only counts as a date in "until March" / "from March"
+    [new RegExp(`(?<=\\b(?:until|till|til|through|thru|from|starting|beginning)\\s+)(${MONTH_WORD})\\b`, 'g'), (m) => (bound) => {
+      const first = upcomingDate(today, monthIndex(m[1]), 1) || today;
+      const start = first > today || bound === 'end' ? first : today;
+      return bound === 'end' ? format(lastDayOfMonth(parseISO(start)), 'yyyy-MM-dd') : start;
+    }],
+  ];
+
+  const matches: DateMatch[] = [];
+  for (const [pattern, toResolve] of patterns) {
+    for (const m of text.matchAll(pattern)) {
+      const match = { index: m.index!, end: m.index! + m[0].length };
+      if (matches.some((other) => match.index < other.end && other.index < match.end)) continue;
+      matches.push({ ...match, resolve: toResolve(m as RegExpExecArray) });
+    }
+  }
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+function findRecurringDays(text: string): { days: string[]; matches: TextMatch[] } {
+  const days = new Set<string>();
+  const matches: TextMatch[] = [];
+  const pattern = new RegExp(
+    `\\b(?:every\\s+|each\\s+)?(weekdays|weekends?|daily|day|${PLURAL_WEEKDAY_WORD}|${WEEKDAY_WORD})\\b`,
+    'g'
+  );
+
+  for (const m of text.matchAll(pattern)) {
+    const word = m[1];
+    if (word === 'day' && !/^(?:every|each)/.test(m[0])) continue;
+    if (word === 'weekdays') WEEKDAYS.forEach((d) => days.add(d));
+    else if (word.startsWith('weekend')) WEEKEND.forEach((d) => days.add(d));
+    else if (word === 'daily' || word === 'day') DAY_LABELS.forEach((d) => days.add(d));
+    else days.add(DAY_LABELS[dayIndex(word)]);
+    matches.push({ index: m.index!, end: m.index! + m[0].length });
+  }
+
+  const ordered = [...WEEKDAYS, ...WEEKEND].filter((d) => days.has(d));
+  return { days: ordered, matches };
+}
+
+interface ClockTime {
+  hours: number;
+  minutes: number;
+  meridiem?: 'am' | 'pm';
+}
+
+// groups: [whole, hours, minutes, meridiem] from the TIME pattern
+function readClock(whole: string, hours?: string, minutes?: string, meridiem?: string): ClockTime | null {
+  if (whole.trim() === 'noon') return { hours: 12, minutes: 0, meridiem: 'pm' };
+  if (whole.trim() === 'midnight') return { hours: 0, minutes: 0, meridiem: 'am' };
+
+  const clock: ClockTime = { hours: Number(hours), minutes: Number(minutes || 0) };
+  if (meridiem) clock.meridiem = meridiem.startsWith('p') ? 'pm' : 'am';
+  if (clock.minutes > 59 || clock.hours > 23 || (clock.meridiem && (clock.hours < 1 || clock.hours > 12))) {
+    return null;
+  }
+  return clock;
+}
+
+// 12-hour readings of a clock time, in minutes after midnight
+function candidates(clock: ClockTime): number[] {
+  const base = (clock.hours % 12) * 60 + clock.minutes;
+  if (clock.meridiem === 'am') return [base];
+  if (clock.meridiem === 'pm') return [base + 12 * 60];
+  if (clock.hours === 0 || clock.hours > 12) return [clock.hours * 60 + clock.minutes];
+  return [clock.hours === 12 ? 12 * 60 + clock.minutes : base, base + 12 * 60];
+}
+
+// A lone bare hour before 7 is read as PM ("after 6" is 18:00)
+function resolveAlone(clock: ClockTime): number {
+  const options = candidates(clock);
+  return options.length > 1 && clock.hours < 7 ? options[1] : options[0];
+}
+
+function resolveRange(start: ClockTime, end: ClockTime): [number, number] {
+  if (!start.meridiem && end.meridiem) {
+    const endMinutes = candidates(end)[0];
+    const options = candidates(start);
+    const before = options.filter((o) => o < endMinutes);
+    return [before.length > 0 ? Math.max(...before) : Math.max(...options), endMinutes];
+  }
+
+  const startMinutes = start.meridiem ? candidates(start)[0] : resolveAlone(start);
+  const options = candidates(end);
+  const after = options.filter((o) => o > startMinutes);
+  // Nothing later the same day means the range runs past midnight
+  return [startMinutes, after.length > 0 ? Math.min(...after) : options[0]];
+}
+
+function toTimeString(minutes: number): string {
+  const normalized = minutes % (24 * 60);
+  const hours = Math.floor(normalized / 60).toString().padStart(2, '0');
+  return `${hours}:${(normalized % 60).toString().padStart(2, '0')}`;
+}
+
+function findTimes(text: string): { start: string; end: string } | string {
+  const range = TIME_RANGE_PATTERN.exec(text);
+  if (range) {
+    const start = readClock(range[1], range[2], range[3], range[4]);
+    const end = readClock(range[5], range[6], range[7], range[8]);
+    if (!start || !end) return `Could not read the times in "${range[0].trim()}"`;
+    const [startMinutes, endMinutes] = resolveRange(start, end);
+    return { start: toTimeString(startMinutes), end: toTimeString(endMinutes) };
+  }
+
+  const after = AFTER_PATTERN.exec(text);
+  if (after) {
+    const start = readClock(after[1], after[2], after[3], after[4]);
+    if (!start) return `Could not read the time in "${after[0].trim()}"`;
+    return { start: toTimeString(resolveAlone(start)), end: '00:00' };
+  }
+
+  const before = BEFORE_PATTERN.exec(text);
+  if (before) {
+    const end = readClock(before[1], before[2], before[3], before[4]);
+    if (!end) return `Could not read the time in "${before[0].trim()}"`;
+    return { start: '00:00', end: toTimeString(resolveAlone(end)) };
+  }
+
+  const period = PERIODS.find(([pattern]) => pattern.test(text));
+  if (period) return { start: period[1], end: period[2] };
+
+  // No time given means the whole day
+  return { start: '00:00', end: '00:00' };
+}
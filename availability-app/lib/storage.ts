@@ -0,0 +1,149 @@
+import path from 'path';
+import * as airtable from './airtable';
+import { createJsonStorage } from './localStore';
+import { getCacheTtlSeconds, withCache } from './cache';
+import {
+  ApiKey,
+  Engineer,
+  AvailabilityRule,
+  NewAvailabilityRule,
+  NewSession,
+  Session,
+} from './types';
+
+// Everything the API routes need from the data store
+export interface StorageBackend {
+  getEngineers(): Promise<Engineer[]>;
+  getAvailabilityRules(engineerId?: string): Promise<AvailabilityRule[]>;
+  // Rules that can cover any time between the two ISO datetimes, for one engineer or everyone
+  getAvailabilityRulesInRange(
+    startDate: string,
+    endDate: string,
+    engineerId?: string
+  ): Promise<AvailabilityRule[]>;
+  getAvailabilityRule(ruleId: string): Promise<AvailabilityRule | null>;
+  getSessions(startDate: string, endDate: string, engineerId?: string): Promise<Session[]>;
+  getSession(sessionId: string): Promise<Session | null>;
+  getApiKeys(): Promise<ApiKey[]>;
+  // The secret behind an engineer's calendar feed links, or null before the first link is made
+  getCalendarSecret(engineerId: string): Promise<string | null>;
+  setCalendarSecret(engineerId: string, secret: string): Promise<void>;
+  // Record a single-use token (a used sign-in link or request signature) until expiresAt.
+  // Resolves false when it was already recorded, so the caller should refuse it.
+  claimToken(tokenId: string, expiresAt: string): Promise<boolean>;
+  createAvailabilityRule(rule: NewAvailabilityRule): Promise<AvailabilityRule>;
+  updateAvailabilityRule(ruleId: string, rule: NewAvailabilityRule): Promise<AvailabilityRule>;
+  deleteAvailabilityRule(ruleId: string): Promise<void>;
+  batchDeleteAvailabilityRules(ruleIds: string[]): Promise<void>;
+  batchCreateAvailabilityRules(rules: NewAvailabilityRule[]): Promise<AvailabilityRule[]>;
+  batchUpdateAvailabilityRules(
+    rules: (NewAvailabilityRule & { id: string })[]
+  ): Promise<AvailabilityRule[]>;
+  createSession(session: NewSession): Promise<Session>;
+  updateSession(sessionId: string, session: NewSession): Promise<Session>;
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+const DEFAULT_LOCAL_DATA_FILE = path.join('.data', 'availability.json');
+
+let storage: StorageBackend | undefined;
+
+// Pick the backend from STORAGE_BACKEND ('airtable' by default, or 'json').
+// Airtable reads are cached for CACHE_TTL_SECONDS.
+export function getStorage(): StorageBackend {
+  if (storage) return storage;
+
+  const backend = process.env.STORAGE_BACKEND || 'airtable';
+  if (backend === 'airtable') {
+    const ttlSeconds = getCacheTtlSeconds();
+    storage = ttlSeconds > 0 ? withCache(airtable, { ttlSeconds }) : airtable;
+  } else if (backend === 'json') {
+    storage = createJsonStorage(
+      path.resolve(process.env.LOCAL_DATA_FILE || DEFAULT_LOCAL_DATA_FILE)
+    );
+  } else {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected "airtable" or "json"`);
+  }
+  return storage;
+}
+
+// Swap the backend in place, e.g. for an in-memory store in tests
+export function setStorage(backend: StorageBackend | undefined): void {
+  storage = backend;
+}
+
+export function getEngineers() {
+  return getStorage().getEngineers();
+}
+
+export function getAvailabilityRules(engineerId?: string) {
+  return getStorage().getAvailabilityRules(engineerId);
+}
+
+export function getAvailabilityRulesInRange(startDate: string, endDate: string, engineerId?: string) {
+  return getStorage().getAvailabilityRulesInRange(startDate, endDate, engineerId);
+}
+
+export function getAvailabilityRule(ruleId: string) {
+  return getStorage().getAvailabilityRule(ruleId);
+}
+
+export function getSessions(startDate: string, endDate: string, engineerId?: string) {
+  return getStorage().getSessions(startDate, endDate, engineerId);
+}
+
+export function getSession(sessionId: string) {
+  return getStorage().getSession(sessionId);
+}
+
+export function getApiKeys() {
+  return getStorage().getApiKeys();
+}
+
+export function getCalendarSecret(engineerId: string) {
+  return getStorage().getCalendarSecret(engineerId);
+}
+
+export function setCalendarSecret(engineerId: string, secret: string) {
+  return getStorage().setCalendarSecret(engineerId, secret);
+}
+
+export function claimToken(tokenId: string, expiresAt: string) {
+  return getStorage().claimToken(tokenId, expiresAt);
+}
+
+export function createAvailabilityRule(rule: NewAvailabilityRule) {
+  return getStorage().createAvailabilityRule(rule);
+}
+
+export function updateAvailabilityRule(ruleId: string, rule: NewAvailabilityRule) {
+  return getStorage().updateAvailabilityRule(ruleId, rule);
+}
+
+export function deleteAvailabilityRule(ruleId: string) {
+  return getStorage().deleteAvailabilityRule(ruleId);
+}
+
+export function batchDeleteAvailabilityRules(ruleIds: string[]) {
+  return getStorage().batchDeleteAvailabilityRules(ruleIds);
+}
+
+export function batchCreateAvailabilityRules(rules: NewAvailabilityRule[]) {
+  return getStorage().batchCreateAvailabilityRules(rules);
+}
+
+export function batchUpdateAvailabilityRules(rules: (NewAvailabilityRule & { id: string })[]) {
+  return getStorage().batchUpdateAvailabilityRules(rules);
+}
+
+export function createSession(session: NewSession) {
+  return getStorage().createSession(session);
+}
+
+export function updateSession(sessionId: string, session: NewSession) {
+  return getStorage().updateSession(sessionId, session);
+}
+
+export function deleteSession(sessionId: string) {
+  return getStorage().deleteSession(sessionId);
+}
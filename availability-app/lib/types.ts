@@ -0,0 +1,76 @@
+export interface Engineer {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string; // E.164, e.g. +15550100199
+  aliases?: string[]; // Nicknames the chatbot and API also match, e.g. ["Shawn", "DW"]
+  active: boolean;
+  admin?: boolean; // Admins can edit every engineer's rules
+}
+
+export interface AvailabilityRule {
+  id: string;
+  engineerId: string;
+  engineerName?: string;
+  status: 'Available' | 'Maybe' | 'Unavailable' | 'Blank'; // Blank = erase override
+  ruleType: 'one-time' | 'recurring';
+  startDateTime?: string;
+  endDateTime?: string;
+  startTime?: string;
+  endTime?: string;
+  recurrenceDays?: string[];
+  recurrenceFrequency?: 'weekly' | 'monthly'; // RRULE FREQ (defaults to weekly)
+  recurrenceInterval?: number; // RRULE INTERVAL: every N weeks/months, counted from effectiveFrom
+  recurrenceWeeks?: number[]; // Monthly only, RRULE BYDAY ordinals: 1-5 = nth weekday, -1 = last
+  effectiveFrom?: string;
+  effectiveUntil?: string;
+  exceptions?: string[]; // "YYYY-MM-DD" or "YYYY-MM-DD/YYYY-MM-DD" dates a recurring rule skips
+  priority?: number; // Higher wins; defaults to 0
+  source: 'web_app' | 'chatbot' | 'booking' | 'calendar_import';
+  importId?: string; // "<calendar>/<event UID>" for rules imported from an .ics file
+  createdBy?: string; // ID of the signed-in engineer who created the rule
+  updatedAt: string;
+}
+
+export interface Session {
+  id: string;
+  title: string;
+  engineerId: string;
+  engineerName?: string;
+  start: string;
+  end: string;
+}
+
+// Machine client key kept in storage; only a SHA-256 hash of the key is stored
+export interface ApiKey {
+  id: string;
+  name: string;
+  scope: 'read' | 'write';
+  keyHash: string;
+  active: boolean;
+}
+
+export type NewAvailabilityRule = Omit<AvailabilityRule, 'id' | 'updatedAt'>;
+
+export type NewSession = Omit<Session, 'id' | 'engineerName'>;
+
+// Fields that can be changed on an existing rule (engineer and source stay fixed)
+export type AvailabilityRuleUpdate = Partial<
+  Pick<
+    AvailabilityRule,
+    | 'status'
+    | 'ruleType'
+    | 'startDateTime'
+    | 'endDateTime'
+    | 'startTime'
+    | 'endTime'
+    | 'recurrenceDays'
+    | 'recurrenceFrequency'
+    | 'recurrenceInterval'
+    | 'recurrenceWeeks'
+    | 'effectiveFrom'
+    | 'effectiveUntil'
+    | 'exceptions'
+    | 'priority'
+  >
+>;
@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getEngineers } from '@/lib/storage';
+import { Engineer } from '@/lib/types';
+import {
+  createLoginToken,
+  clearSessionCookie,
+  getAppUrl,
+  getSessionUser,
+} from '@/lib/auth';
+
+// Only development may fall back to logging links; anyone who can read production logs
+// could otherwise sign in as anyone
+function canSendLoginLinks(): boolean {
+  return Boolean(process.env.LOGIN_WEBHOOK_URL) || process.env.NODE_ENV !== 'production';
+}
+
+// Hand the link to the n8n webhook that emails it, or log it when developing locally
+async function sendLoginLink(engineer: Engineer, link: string): Promise<void> {
+  const webhookUrl = process.env.LOGIN_WEBHOOK_URL;
+  if (!webhookUrl) {
+    console.log(`Sign-in link for ${engineer.name}: ${link}`);
+    return;
+  }
+
+  const res = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: engineer.email, name: engineer.name, link }),
+  });
+  if (!res.ok) {
+    throw new Error(`Login webhook responded with ${res.status}`);
+  }
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const user = await getSessionUser(req);
+        if (!user) {
+          return res.status(401).json({ error: 'Not signed in' });
+        }
+        return res.status(200).json({ user });
+      }
+
+      case 'POST': {
+        const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+        if (!email) {
+          return res.status(400).json({ error: 'Email required' });
+        }
+
+        const appUrl = getAppUrl(req);
+        if (!appUrl) {
+          console.error('APP_URL must be set to send sign-in links');
+          return res.status(500).json({ error: 'Sign-in is not configured' });
+        }
+        if (!canSendLoginLinks()) {
+          console.error('LOGIN_WEBHOOK_URL must be set to send sign-in links');
+          return res.status(500).json({ error: 'Sign-in is not configured' });
+        }
+
+        const engineers = await getEngineers();
+        const engineer = engineers.find((e) => e.email?.toLowerCase() === email);
+        if (engineer) {
+          const link = `${appUrl}/api/login?token=${encodeURIComponent(createLoginToken(engineer))}`;
+          await sendLoginLink(engineer, link);
+        }
+
+        // Same response either way so the form can't be used to discover addresses
+        return res.status(200).json({
+          success: true,
+          message: 'If that email belongs to an engineer, a sign-in link is on its way',
+        });
+      }
+
+      case 'DELETE': {
+        clearSessionCookie(res);
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error handling sign-in:', error);
+    return res.status(500).json({ error: 'Failed to process request' });
+  }
+}
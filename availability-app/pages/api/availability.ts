@@ -1,27 +1,44 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { parseISO, startOfDay, endOfDay, addDays } from 'date-fns';
+import { parseISO, addDays } from 'date-fns';
 import {
   getEngineers,
-  getAvailabilityRules,
+  getAvailabilityRulesInRange,
   getSessions,
-} from '@/lib/airtable';
+} from '@/lib/storage';
 import {
   calculateAvailability,
   getAvailabilitySummary,
+  getTeamHeatmap,
+  getZonedDayBounds,
+  groupByEngineer,
+  isValidTimeZone,
+  parseDateRange,
   AvailabilitySummary,
   DayAvailability,
+  HeatmapDay,
+  TIMEZONE,
 } from '@/lib/availability';
+import { authenticateApiRequest } from '@/lib/apiAuth';
+import { resolveEngineer, EngineerCandidate } from '@/lib/engineerMatch';
+import { withCacheHeaders } from '@/lib/cache';
 
 interface AvailabilityResponse {
   date: string;
+  from?: string;
+  to?: string;
+  timezone?: string;
   start_time?: string;
   end_time?: string;
   summary?: AvailabilitySummary;
+  summaries?: Record<string, AvailabilitySummary>;
   engineers?: Record<string, DayAvailability[]>;
+  heatmap?: HeatmapDay[]; // Per-slot team summary
+  matched_engineer?: EngineerCandidate; // Who a fuzzy engineer query resolved to
+  candidates?: EngineerCandidate[]; // When the engineer query is ambiguous
   error?: string;
 }
 
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<AvailabilityResponse>
 ) {
@@ -30,99 +47,187 @@ export default async function handler(
   }
 
   try {
-    const { date, start, end, engineer, detailed } = req.query;
+    const caller = await authenticateApiRequest(req, res, 'read');
+    if (!caller) return;
 
-    if (!date || typeof date !== 'string') {
+    const { start, end, engineer, detailed, heatmap, tz } = req.query;
+
+    const range = parseDateRange(req.query);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range, date: '' });
+    }
+
+    if (tz !== undefined && (typeof tz !== 'string' || !isValidTimeZone(tz))) {
       return res.status(400).json({
-        error: 'Date parameter required (YYYY-MM-DD format)',
+        error: `Unknown timezone "${tz}" (expected an IANA name like America/New_York)`,
         date: '',
       });
     }
 
-    const targetDate = parseISO(date);
-    const startDate = startOfDay(targetDate);
-    const endDate = endOfDay(targetDate);
+    const timeZone = (tz as string | undefined) || TIMEZONE;
+    const date = range.from;
+    const isRange = range.dates.length > 1;
+    const startDate = parseISO(range.from);
+    const endDate = parseISO(range.to);
+
+    // Session window covers the whole range in the requested zone, plus a day
+    // before for overnight sessions that spill into the first day
+    const windowStart = addDays(getZonedDayBounds(range.from, timeZone).start, -1);
+    const windowEnd = getZonedDayBounds(range.to, timeZone).end;
 
     // Fetch all data
     const engineers = await getEngineers();
     
     // Filter by specific engineer if requested
-    const targetEngineers = engineer
-      ? engineers.filter(
-          (e) =>
-            e.name.toLowerCase() === (engineer as string).toLowerCase() ||
-            e.id === engineer
-        )
-      : engineers;
-
-    if (targetEngineers.length === 0) {
-      return res.status(404).json({
-        error: `Engineer "${engineer}" not found`,
-        date,
-      });
+    let targetEngineers = engineers;
+    let matchedEngineer: EngineerCandidate | undefined;
+    if (engineer) {
+      const resolution = resolveEngineer(String(engineer), engineers);
+      if (resolution.status === 'not_found') {
+        return res.status(404).json({
+          error: `Engineer "${engineer}" not found`,
+          date,
+        });
+      }
+      if (resolution.status === 'ambiguous') {
+        return res.status(409).json({
+          error: `Engineer "${engineer}" matches more than one engineer`,
+          date,
+          candidates: resolution.candidates,
+        });
+      }
+      targetEngineers = [resolution.engineer];
+      matchedEngineer = {
+        id: resolution.engineer.id,
+        name: resolution.engineer.name,
+        matchedOn: resolution.matchedOn,
+      };
     }
 
-    // Build availability map for each engineer
+    // Fetch the whole team's rules and sessions for the window in one go, rather than
+    // a pair of queries per engineer
+    const onlyEngineerId = targetEngineers.length === 1 ? targetEngineers[0].id : undefined;
+    const [rules, sessions] = await Promise.all([
+      getAvailabilityRulesInRange(windowStart.toISOString(), windowEnd.toISOString(), onlyEngineerId),
+      getSessions(windowStart.toISOString(), windowEnd.toISOString(), onlyEngineerId),
+    ]);
+    const rulesByEngineer = groupByEngineer(rules);
+    const sessionsByEngineer = groupByEngineer(sessions);
+
+    // Build availability map for each engineer, keyed by ID so engineers who share a
+    // name stay apart. Summaries and the heatmap list names.
     const engineersAvailability = new Map<string, DayAvailability[]>();
+    const names = new Map(targetEngineers.map((eng) => [eng.id, eng.name]));
+    const toNames = (ids: string[]) => ids.map((id) => names.get(id)!);
+    const withNames = (summary: AvailabilitySummary): AvailabilitySummary => ({
+      available: toNames(summary.available),
+      maybe: toNames(summary.maybe),
+      unavailable: toNames(summary.unavailable),
+      booked: toNames(summary.booked),
+      not_set: toNames(summary.not_set),
+    });
 
     for (const eng of targetEngineers) {
-      const rules = await getAvailabilityRules(eng.id);
-      const sessions = await getSessions(
-        startDate.toISOString(),
-        addDays(endDate, 1).toISOString(),
-        eng.id
-      );
-
       const availability = calculateAvailability(
-        rules,
-        sessions,
+        rulesByEngineer.get(eng.id) || [],
+        sessionsByEngineer.get(eng.id) || [],
         startDate,
-        endDate
+        endDate,
+        { timeZone }
       );
 
-      engineersAvailability.set(eng.name, availability);
+      engineersAvailability.set(eng.id, availability);
     }
 
+    const startTime = start && end ? (start as string) : '00:00';
+    const endTime = start && end ? (end as string) : '23:59';
+
+    // Multi-day queries get one summary per day
+    const buildSummaries = () => {
+      const summaries: Record<string, AvailabilitySummary> = {};
+      for (const day of range.dates) {
+        summaries[day] = withNames(
+          getAvailabilitySummary(engineersAvailability, day, startTime, endTime)
+        );
+      }
+      return summaries;
+    };
+
     // If time range specified, return summary
     if (start && end) {
-      const summary = getAvailabilitySummary(
-        engineersAvailability,
-        date,
-        start as string,
-        end as string
+      if (isRange) {
+        return res.status(200).json({
+          date,
+          ...(matchedEngineer && { matched_engineer: matchedEngineer }),
+          from: range.from,
+          to: range.to,
+          start_time: startTime,
+          end_time: endTime,
+          summaries: buildSummaries(),
+        });
+      }
+
+      const summary = withNames(
+        getAvailabilitySummary(engineersAvailability, date, startTime, endTime)
       );
 
       return res.status(200).json({
         date,
-        start_time: start as string,
-        end_time: end as string,
+        ...(matchedEngineer && { matched_engineer: matchedEngineer }),
+        start_time: startTime,
+        end_time: endTime,
         summary,
       });
     }
 
-    // If detailed view requested, return full slot data
+    // Team heatmap: who is in each status for every slot
+    if (heatmap === 'true') {
+      return res.status(200).json({
+        date,
+        ...(matchedEngineer && { matched_engineer: matchedEngineer }),
+        ...(isRange && { from: range.from, to: range.to }),
+        timezone: timeZone,
+        heatmap: getTeamHeatmap(engineersAvailability, startDate, endDate, { timeZone }).map((day) => ({
+          ...day,
+          slots: day.slots.map((slot) => ({ ...slot, ...withNames(slot) })),
+        })),
+      });
+    }
+
+    // If detailed view requested, return full slot data keyed by engineer ID
     if (detailed === 'true') {
       const engineersData: Record<string, DayAvailability[]> = {};
-      for (const [name, avail] of engineersAvailability.entries()) {
-        engineersData[name] = avail;
+      for (const [id, avail] of engineersAvailability.entries()) {
+        engineersData[id] = avail;
       }
 
       return res.status(200).json({
         date,
+        ...(matchedEngineer && { matched_engineer: matchedEngineer }),
+        ...(isRange && { from: range.from, to: range.to }),
+        timezone: timeZone,
         engineers: engineersData,
       });
     }
 
-    // Default: return summary for entire day
-    const summary = getAvailabilitySummary(
-      engineersAvailability,
-      date,
-      '00:00',
-      '23:59'
+    // Default: return summary for entire day (or each day of the range)
+    if (isRange) {
+      return res.status(200).json({
+        date,
+        ...(matchedEngineer && { matched_engineer: matchedEngineer }),
+        from: range.from,
+        to: range.to,
+        summaries: buildSummaries(),
+      });
+    }
+
+    const summary = withNames(
+      getAvailabilitySummary(engineersAvailability, date, startTime, endTime)
     );
 
     return res.status(200).json({
       date,
+      ...(matchedEngineer && { matched_engineer: matchedEngineer }),
       summary,
     });
   } catch (error) {
@@ -133,3 +238,5 @@ export default async function handler(
     });
   }
 }
+
+export default withCacheHeaders(handler);
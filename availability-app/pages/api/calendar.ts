@@ -0,0 +1,105 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { addDays, parseISO, format } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  getEngineers,
+  getAvailabilityRules,
+  getCalendarSecret,
+  getSessions,
+  setCalendarSecret,
+} from '@/lib/storage';
+import { getZonedDayBounds, TIMEZONE } from '@/lib/availability';
+import {
+  canEditEngineer,
+  createCalendarSecret,
+  createCalendarToken,
+  getAppUrl,
+  readCalendarToken,
+  requireUser,
+} from '@/lib/auth';
+import { buildCalendarFeed } from '@/lib/ics';
+import { withCacheHeaders } from '@/lib/cache';
+
+// One-time blocks and sessions are listed this far around today; recurring rules repeat on their own
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 90;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    switch (req.method) {
+      // Calendar apps fetch the feed with the token from the subscription URL
+      case 'GET': {
+        const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+        const user = await readCalendarToken(token);
+        if (!user) {
+          return res.status(401).json({ error: 'Invalid or expired calendar link' });
+        }
+
+        const engineers = await getEngineers();
+        const engineer = engineers.find((e) => e.id === user.engineerId);
+        if (!engineer) {
+          return res.status(404).json({ error: 'Engineer not found' });
+        }
+
+        const today = parseISO(formatInTimeZone(new Date(), TIMEZONE, 'yyyy-MM-dd'));
+        const from = format(addDays(today, -FEED_PAST_DAYS), 'yyyy-MM-dd');
+        const to = format(addDays(today, FEED_FUTURE_DAYS), 'yyyy-MM-dd');
+
+        const [rules, sessions] = await Promise.all([
+          getAvailabilityRules(engineer.id),
+          getSessions(
+            addDays(getZonedDayBounds(from).start, -1).toISOString(),
+            getZonedDayBounds(to).end.toISOString(),
+            engineer.id
+          ),
+        ]);
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', 'inline; filename="availability.ics"');
+        return res.status(200).send(buildCalendarFeed({ engineer, rules, sessions, from, to }));
+      }
+
+      // Signed-in engineers get their own subscription URL; admins may ask for anyone's.
+      // { "regenerate": true } replaces the feed secret, so every earlier link stops working.
+      case 'POST': {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const engineerId = typeof req.body?.engineerId === 'string' ? req.body.engineerId : user.engineerId;
+        if (!canEditEngineer(user, engineerId)) {
+          return res.status(403).json({ error: 'You can only subscribe to your own calendar' });
+        }
+
+        const engineers = await getEngineers();
+        const engineer = engineers.find((e) => e.id === engineerId);
+        if (!engineer) {
+          return res.status(404).json({ error: 'Engineer not found' });
+        }
+
+        const appUrl = getAppUrl(req);
+        if (!appUrl) {
+          console.error('APP_URL must be set to create calendar links');
+          return res.status(500).json({ error: 'Calendar links are not configured' });
+        }
+
+        let secret = req.body?.regenerate === true ? null : await getCalendarSecret(engineer.id);
+        if (!secret) {
+          secret = createCalendarSecret();
+          await setCalendarSecret(engineer.id, secret);
+        }
+
+        const token = createCalendarToken(engineer, secret);
+        const url = `${appUrl}/api/calendar?token=${encodeURIComponent(token)}`;
+        return res.status(200).json({ url, webcal: url.replace(/^https?:/, 'webcal:') });
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return res.status(500).json({ error: 'Failed to build calendar feed' });
+  }
+}
+
+export default withCacheHeaders(handler);
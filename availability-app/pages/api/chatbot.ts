@@ -1,32 +1,60 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { parseISO, format, addMinutes } from 'date-fns';
+import { parseISO, format, addMinutes, isValid } from 'date-fns';
+import { getEngineers, createAvailabilityRule } from '@/lib/storage';
+import { AvailabilityRule, NewAvailabilityRule } from '@/lib/types';
 import {
-  getEngineers,
-  createAvailabilityRule,
-  AvailabilityRule,
-} from '@/lib/airtable';
+  validateAvailabilityRule,
+  normalizeException,
+  parseRRule,
+  describeRecurrence,
+  RecurrencePattern,
+} from '@/lib/availability';
+import { authenticateApiRequest, readRawBody } from '@/lib/apiAuth';
+import { parseAvailabilityText, ParsedAvailabilityText } from '@/lib/naturalLanguage';
+import { resolveEngineer, EngineerCandidate } from '@/lib/engineerMatch';
+import { withCacheHeaders } from '@/lib/cache';
+
+// The raw body is needed to check request signatures, so parse JSON here instead
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 interface ChatbotRequest {
-  engineer: string; // Name or ID
+  text?: string; // Free text like "Marcus is out next Friday after 6pm"; explicit fields win
+  dry_run?: boolean; // Return the rule that would be created without saving it
+  engineer: string; // ID, name, first name, alias or E.164 phone number
   status: 'Available' | 'Maybe' | 'Unavailable';
+  priority?: number; // Higher wins; one-time beats recurring at equal priority
   // For one-time rules
   date?: string; // YYYY-MM-DD
   start_time?: string; // HH:mm
   end_time?: string; // HH:mm
   // For recurring rules
   days?: string[]; // ['Mon', 'Tue', etc.]
+  frequency?: 'weekly' | 'monthly'; // Defaults to weekly
+  interval?: number; // Every N weeks/months, counted from effective_from
+  weeks_of_month?: number[]; // Monthly only: 1-5 = nth weekday, -1 = last
+  rrule?: string; // Alternative to the above, e.g. 'FREQ=MONTHLY;BYDAY=1SA'
   effective_from?: string; // YYYY-MM-DD
   effective_until?: string; // YYYY-MM-DD
+  except?: string | string[]; // Skipped dates: 'YYYY-MM-DD' or 'YYYY-MM-DD/YYYY-MM-DD'
 }
 
 interface ChatbotResponse {
   success: boolean;
   message: string;
-  rule?: AvailabilityRule;
+  rule?: AvailabilityRule | NewAvailabilityRule;
+  parsed?: ParsedAvailabilityText; // What was understood from text
+  dry_run?: boolean;
+  candidates?: EngineerCandidate[]; // When the engineer is ambiguous
   error?: string;
 }
 
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ChatbotResponse>
 ) {
@@ -39,7 +67,44 @@ export default async function handler(
   }
 
   try {
-    const body: ChatbotRequest = req.body;
+    const rawBody = await readRawBody(req);
+    const caller = await authenticateApiRequest(req, res, 'write', rawBody);
+    if (!caller) return;
+
+    let body: ChatbotRequest;
+    try {
+      body = JSON.parse(rawBody || '{}');
+    } catch {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid JSON body',
+        error: 'Request body must be JSON',
+      });
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid JSON body',
+        error: 'Request body must be a JSON object',
+      });
+    }
+
+    const engineers = await getEngineers();
+
+    let parsed: ParsedAvailabilityText | undefined;
+    if (body.text) {
+      const result = parseAvailabilityText(String(body.text), engineers);
+      if (typeof result === 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Could not understand text',
+          error: result,
+        });
+      }
+      parsed = result;
+      const { text, ...explicit } = body;
+      body = { ...result, ...explicit };
+    }
 
     // Validate required fields
     if (!body.engineer || !body.status) {
@@ -51,14 +116,9 @@ export default async function handler(
     }
 
     // Find the engineer
-    const engineers = await getEngineers();
-    const engineer = engineers.find(
-      (e) =>
-        e.name.toLowerCase() === body.engineer.toLowerCase() ||
-        e.id === body.engineer
-    );
+    const resolution = resolveEngineer(String(body.engineer), engineers);
 
-    if (!engineer) {
+    if (resolution.status === 'not_found') {
       return res.status(404).json({
         success: false,
         message: `Engineer "${body.engineer}" not found`,
@@ -66,8 +126,41 @@ export default async function handler(
       });
     }
 
+    if (resolution.status === 'ambiguous') {
+      return res.status(409).json({
+        success: false,
+        message: `"${body.engineer}" could be ${resolution.candidates.map((c) => c.name).join(' or ')}`,
+        error: 'Engineer is ambiguous',
+        candidates: resolution.candidates,
+      });
+    }
+
+    const engineer = resolution.engineer;
+
+    let newRule: NewAvailabilityRule;
+    let description: string;
+
+    if (
+      body.days !== undefined &&
+      body.days !== null &&
+      !(Array.isArray(body.days) && body.days.every((day) => typeof day === 'string'))
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid days',
+        error: 'days must be an array of day names, e.g. ["Mon", "Tue"]',
+      });
+    }
+    if (body.rrule !== undefined && body.rrule !== null && typeof body.rrule !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid rrule',
+        error: 'rrule must be a string',
+      });
+    }
+
     // Determine if this is a one-time or recurring rule
-    const isRecurring = body.days && body.days.length > 0;
+    const isRecurring = (body.days && body.days.length > 0) || !!body.rrule;
 
     if (isRecurring) {
       // Validate recurring rule fields
@@ -79,24 +172,68 @@ export default async function handler(
         });
       }
 
-      const rule = await createAvailabilityRule({
+      // Accept a single string, comma-separated list or array of exceptions
+      const { except } = body;
+      if (
+        except !== undefined &&
+        except !== null &&
+        typeof except !== 'string' &&
+        !(Array.isArray(except) && except.every((e) => typeof e === 'string'))
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid exception',
+          error: 'except must be a string or an array of strings',
+        });
+      }
+      const rawExceptions = Array.isArray(except)
+        ? except
+        : (except || '').split(',').filter((e) => e.trim());
+      const exceptions = rawExceptions.map((e) => normalizeException(String(e)));
+      const badIndex = exceptions.indexOf(null);
+      if (badIndex !== -1) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid exception',
+          error: `Could not read except "${rawExceptions[badIndex]}" (use YYYY-MM-DD or YYYY-MM-DD/YYYY-MM-DD)`,
+        });
+      }
+
+      let pattern: RecurrencePattern = {
+        recurrenceDays: body.days,
+        recurrenceFrequency: body.frequency,
+        recurrenceInterval: body.interval,
+        recurrenceWeeks: body.weeks_of_month,
+        effectiveUntil: body.effective_until,
+      };
+      if (body.rrule) {
+        const parsed = parseRRule(body.rrule);
+        if (typeof parsed === 'string') {
+          return res.status(400).json({
+            success: false,
+            message: 'Invalid rrule',
+            error: parsed,
+          });
+        }
+        pattern = { ...parsed, effectiveUntil: body.effective_until || parsed.effectiveUntil };
+      }
+
+      newRule = {
         engineerId: engineer.id,
         status: body.status,
         ruleType: 'recurring',
         startTime: body.start_time,
         endTime: body.end_time,
-        recurrenceDays: body.days,
+        ...pattern,
         effectiveFrom: body.effective_from,
-        effectiveUntil: body.effective_until,
+        exceptions: exceptions.length > 0 ? (exceptions as string[]) : undefined,
+        priority: body.priority,
         source: 'chatbot',
-      });
+      };
 
-      const daysStr = body.days!.join(', ');
-      return res.status(201).json({
-        success: true,
-        message: `Set ${engineer.name} as ${body.status} on ${daysStr} from ${body.start_time} to ${body.end_time}`,
-        rule,
-      });
+      const daysStr = describeRecurrence(pattern);
+      const exceptStr = exceptions.length > 0 ? ` except ${exceptions.join(', ')}` : '';
+      description = `${engineer.name} as ${body.status} on ${daysStr} from ${body.start_time} to ${body.end_time}${exceptStr}`;
     } else {
       // One-time rule
       if (!body.date || !body.start_time || !body.end_time) {
@@ -106,14 +243,21 @@ export default async function handler(
           error: 'date, start_time, and end_time are required for one-time rules',
         });
       }
+      if (typeof body.date !== 'string' || !DATE_PATTERN.test(body.date) || !isValid(parseISO(body.date))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid date',
+          error: 'date must be YYYY-MM-DD',
+        });
+      }
 
       // Construct full datetime strings
       const startDateTime = `${body.date}T${body.start_time}:00`;
       const endDateTime = `${body.date}T${body.end_time}:00`;
 
-      // Handle overnight times (end time before start time)
+      // Handle overnight times (end time before start time); equal times mean the whole day
       let adjustedEndDateTime = endDateTime;
-      if (body.end_time < body.start_time) {
+      if (body.end_time <= body.start_time) {
         // End time is on the next day
         const nextDay = format(
           addMinutes(parseISO(body.date), 24 * 60),
@@ -122,21 +266,45 @@ export default async function handler(
         adjustedEndDateTime = `${nextDay}T${body.end_time}:00`;
       }
 
-      const rule = await createAvailabilityRule({
+      newRule = {
         engineerId: engineer.id,
         status: body.status,
         ruleType: 'one-time',
         startDateTime,
         endDateTime: adjustedEndDateTime,
+        priority: body.priority,
         source: 'chatbot',
+      };
+      description = `${engineer.name} as ${body.status} on ${body.date} from ${body.start_time} to ${body.end_time}`;
+    }
+
+    const validationError = validateAvailabilityRule(newRule);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid ${newRule.ruleType} rule`,
+        error: validationError,
       });
+    }
 
-      return res.status(201).json({
+    if (body.dry_run) {
+      return res.status(200).json({
         success: true,
-        message: `Set ${engineer.name} as ${body.status} on ${body.date} from ${body.start_time} to ${body.end_time}`,
-        rule,
+        dry_run: true,
+        message: `Would set ${description}`,
+        rule: newRule,
+        parsed,
       });
     }
+
+    const rule = await createAvailabilityRule(newRule);
+
+    return res.status(201).json({
+      success: true,
+      message: `Set ${description}`,
+      rule,
+      parsed,
+    });
   } catch (error) {
     console.error('Error processing chatbot request:', error);
     return res.status(500).json({
@@ -146,3 +314,5 @@ export default async function handler(
     });
   }
 }
+
+export default withCacheHeaders(handler);
@@ -0,0 +1,96 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  getAvailabilityRules,
+  batchUpdateAvailabilityRules,
+  batchDeleteAvailabilityRules,
+} from '@/lib/storage';
+import { withoutCache } from '@/lib/cache';
+import { AvailabilityRule } from '@/lib/types';
+import { planCompaction } from '@/lib/availability';
+import { isRecordId } from '@/lib/formula';
+import { requireUser, canEditEngineer } from '@/lib/auth';
+
+interface CompactRequest {
+  engineerId?: string; // Omit to compact every engineer's rules
+  dryRun?: boolean;
+}
+
+interface CompactResponse {
+  dryRun: boolean;
+  rulesBefore: number;
+  deleted: number;
+  updated: number;
+  engineers: Record<string, { deleted: number; updated: number }>;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CompactResponse | { error: string }>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Request body must be a JSON object' });
+    }
+    const body: CompactRequest = req.body;
+    const dryRun = body.dryRun === true;
+
+    if (body.engineerId !== undefined && !isRecordId(body.engineerId)) {
+      return res.status(400).json({ error: 'engineerId must be a record ID' });
+    }
+
+    // Compacting everyone at once is an admin job
+    if (body.engineerId ? !canEditEngineer(user, body.engineerId) : !user.admin) {
+      return res.status(403).json({ error: 'You can only compact your own rules' });
+    }
+
+    const rules = await withoutCache(() => getAvailabilityRules(body.engineerId));
+
+    // Rules only interact with the same engineer's rules, so plan per engineer
+    const rulesByEngineer = new Map<string, AvailabilityRule[]>();
+    for (const rule of rules) {
+      if (!rulesByEngineer.has(rule.engineerId)) {
+        rulesByEngineer.set(rule.engineerId, []);
+      }
+      rulesByEngineer.get(rule.engineerId)!.push(rule);
+    }
+
+    const response: CompactResponse = {
+      dryRun,
+      rulesBefore: rules.length,
+      deleted: 0,
+      updated: 0,
+      engineers: {},
+    };
+
+    for (const [engineerId, engineerRules] of rulesByEngineer.entries()) {
+      const plan = planCompaction(engineerRules);
+      if (plan.deletes.length === 0 && plan.updates.length === 0) continue;
+
+      if (!dryRun) {
+        // Widen merged rules before deleting the pieces they replace
+        await batchUpdateAvailabilityRules(plan.updates);
+        await batchDeleteAvailabilityRules(plan.deletes);
+      }
+
+      response.engineers[engineerId] = {
+        deleted: plan.deletes.length,
+        updated: plan.updates.length,
+      };
+      response.deleted += plan.deletes.length;
+      response.updated += plan.updates.length;
+    }
+
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Error compacting rules:', error);
+    return res.status(500).json({ error: 'Failed to compact rules' });
+  }
+}
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { addDays, isAfter, isBefore } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { getEngineers, getAvailabilityRulesInRange, getSessions } from '@/lib/storage';
+import {
+  findSessionConflicts,
+  getZonedDayBounds,
+  parseDateRange,
+  parseZonedDateTime,
+  SessionConflict,
+  SessionConflictType,
+  TIMEZONE,
+} from '@/lib/availability';
+import { authenticateApiRequest } from '@/lib/apiAuth';
+import { withCacheHeaders } from '@/lib/cache';
+
+const DEFAULT_REPORT_DAYS = 14;
+
+interface ConflictsResponse {
+  from?: string;
+  to?: string;
+  counts?: Record<SessionConflictType, number>;
+  conflicts?: SessionConflict[];
+  error?: string;
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ConflictsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const caller = await authenticateApiRequest(req, res, 'read');
+    if (!caller) return;
+
+    // Default to the next two weeks from today
+    const query = req.query.from || req.query.date
+      ? req.query
+      : {
+          ...req.query,
+          from: formatInTimeZone(new Date(), TIMEZONE, 'yyyy-MM-dd'),
+          days: req.query.days || String(DEFAULT_REPORT_DAYS),
+        };
+    const range = parseDateRange(query);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    const rangeStart = getZonedDayBounds(range.from).start;
+    const rangeEnd = getZonedDayBounds(range.to).end;
+
+    // Fetch a day early so sessions running into the range are included
+    const windowStart = addDays(rangeStart, -1).toISOString();
+    const [engineers, rules, fetched] = await Promise.all([
+      getEngineers(),
+      getAvailabilityRulesInRange(windowStart, rangeEnd.toISOString()),
+      getSessions(windowStart, rangeEnd.toISOString()),
+    ]);
+
+    const names = new Map(engineers.map((e) => [e.id, e.name]));
+    const sessions = fetched
+      .filter(
+        (session) =>
+          isBefore(parseZonedDateTime(session.start), rangeEnd) &&
+          isAfter(parseZonedDateTime(session.end), rangeStart)
+      )
+      .map((session) => ({ ...session, engineerName: names.get(session.engineerId) }));
+
+    const conflicts = findSessionConflicts(sessions, new Set(names.keys()), rules);
+
+    const counts: Record<SessionConflictType, number> = {
+      unavailable: 0,
+      not_set: 0,
+      overlap: 0,
+      inactive_engineer: 0,
+    };
+    for (const conflict of conflicts) counts[conflict.type]++;
+
+    return res.status(200).json({ from: range.from, to: range.to, counts, conflicts });
+  } catch (error) {
+    console.error('Error building conflict report:', error);
+    return res.status(500).json({ error: 'Failed to build conflict report' });
+  }
+}
+
+export default withCacheHeaders(handler);
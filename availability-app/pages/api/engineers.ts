@@ -1,7 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getEngineers, Engineer } from '@/lib/airtable';
+import { getEngineers } from '@/lib/storage';
+import { Engineer } from '@/lib/types';
+import { authenticateApiRequest } from '@/lib/apiAuth';
+import { withCacheHeaders } from '@/lib/cache';
 
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<Engineer[] | { error: string }>
 ) {
@@ -10,6 +13,9 @@ export default async function handler(
   }
 
   try {
+    const caller = await authenticateApiRequest(req, res, 'read');
+    if (!caller) return;
+
     const engineers = await getEngineers();
     res.status(200).json(engineers);
   } catch (error) {
@@ -17,3 +23,5 @@ export default async function handler(
     res.status(500).json({ error: 'Failed to fetch engineers' });
   }
 }
+
+export default withCacheHeaders(handler);
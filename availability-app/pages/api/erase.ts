@@ -0,0 +1,105 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  getAvailabilityRules,
+  batchCreateAvailabilityRules,
+  batchUpdateAvailabilityRules,
+  batchDeleteAvailabilityRules,
+} from '@/lib/storage';
+import { withoutCache } from '@/lib/cache';
+import { planErase, DateTimeRange } from '@/lib/availability';
+import { isRecordId } from '@/lib/formula';
+import { requireUser, canEditEngineer } from '@/lib/auth';
+
+interface EraseRequest {
+  engineerId: string;
+  ranges: DateTimeRange[];
+}
+
+interface EraseResponse {
+  deleted: number;
+  updated: number;
+  created: number;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<EraseResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed', deleted: 0, updated: 0, created: 0 });
+  }
+
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({
+        error: 'Request body must be a JSON object',
+        deleted: 0,
+        updated: 0,
+        created: 0,
+      });
+    }
+    const body: EraseRequest = req.body;
+
+    if (!isRecordId(body.engineerId) || !Array.isArray(body.ranges) || body.ranges.length === 0) {
+      return res.status(400).json({
+        error: 'A record ID engineerId and a non-empty ranges array are required',
+        deleted: 0,
+        updated: 0,
+        created: 0,
+      });
+    }
+
+    const invalidRange = body.ranges.some(
+      (range) =>
+        !range?.start ||
+        !range?.end ||
+        isNaN(Date.parse(range.start)) ||
+        isNaN(Date.parse(range.end))
+    );
+    if (invalidRange) {
+      return res.status(400).json({
+        error: 'Each range needs ISO start and end datetimes',
+        deleted: 0,
+        updated: 0,
+        created: 0,
+      });
+    }
+
+    if (!canEditEngineer(user, body.engineerId)) {
+      return res.status(403).json({
+        error: 'You can only change your own availability',
+        deleted: 0,
+        updated: 0,
+        created: 0,
+      });
+    }
+
+    const rules = await withoutCache(() => getAvailabilityRules(body.engineerId));
+    const plan = planErase(rules, body.ranges, body.engineerId);
+
+    // Trim existing rules before writing overrides so the overrides stay the latest
+    await batchDeleteAvailabilityRules(plan.deletes);
+    await batchUpdateAvailabilityRules(plan.updates);
+    await batchCreateAvailabilityRules(
+      plan.creates.map((rule) => ({ ...rule, createdBy: user.engineerId }))
+    );
+
+    return res.status(200).json({
+      deleted: plan.deletes.length,
+      updated: plan.updates.length,
+      created: plan.creates.length,
+    });
+  } catch (error) {
+    console.error('Error erasing availability:', error);
+    return res.status(500).json({
+      error: 'Failed to erase availability',
+      deleted: 0,
+      updated: 0,
+      created: 0,
+    });
+  }
+}
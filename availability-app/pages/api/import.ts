@@ -0,0 +1,155 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isAfter } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  getAvailabilityRules,
+  batchCreateAvailabilityRules,
+  batchUpdateAvailabilityRules,
+  batchDeleteAvailabilityRules,
+} from '@/lib/storage';
+import { withoutCache } from '@/lib/cache';
+import { AvailabilityRule, NewAvailabilityRule } from '@/lib/types';
+import { parseZonedDateTime, TIMEZONE } from '@/lib/availability';
+import { importIcsRules, SkippedEvent } from '@/lib/icsImport';
+import { isRecordId } from '@/lib/formula';
+import { requireUser, canEditEngineer } from '@/lib/auth';
+
+// Calendar exports can run to a few megabytes
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb',
+    },
+  },
+};
+
+interface ImportRequest {
+  engineerId?: string;
+  ics?: string; // Contents of the .ics file
+  calendar?: string; // Name to group the rules under; defaults to the file's calendar name
+  dryRun?: boolean;
+}
+
+interface ImportResponse {
+  dryRun: boolean;
+  calendar: string;
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  skipped: SkippedEvent[];
+}
+
+// Fields an import sets; a rule whose fields all match needs no write
+const IMPORTED_FIELDS: (keyof NewAvailabilityRule)[] = [
+  'ruleType',
+  'startTime',
+  'endTime',
+  'recurrenceDays',
+  'recurrenceFrequency',
+  'recurrenceInterval',
+  'recurrenceWeeks',
+  'effectiveFrom',
+  'effectiveUntil',
+  'exceptions',
+];
+
+// Datetimes are compared as instants since the store may hand them back in UTC
+function sameInstant(a?: string, b?: string): boolean {
+  return !a || !b ? a === b : parseZonedDateTime(a).getTime() === parseZonedDateTime(b).getTime();
+}
+
+function sameImport(existing: AvailabilityRule, imported: NewAvailabilityRule): boolean {
+  return (
+    existing.status === imported.status &&
+    sameInstant(existing.startDateTime, imported.startDateTime) &&
+    sameInstant(existing.endDateTime, imported.endDateTime) &&
+    IMPORTED_FIELDS.every(
+      (field) => JSON.stringify(existing[field] ?? null) === JSON.stringify(imported[field] ?? null)
+    )
+  );
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ImportResponse | { error: string }>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Request body must be a JSON object' });
+    }
+    const body: ImportRequest = req.body;
+    const dryRun = body.dryRun === true;
+
+    if (!body.engineerId || !isRecordId(body.engineerId)) {
+      return res.status(400).json({ error: 'engineerId must be a record ID' });
+    }
+    if (!canEditEngineer(user, body.engineerId)) {
+      return res.status(403).json({ error: 'You can only import into your own calendar' });
+    }
+    if (typeof body.ics !== 'string' || !body.ics.includes('BEGIN:VCALENDAR')) {
+      return res.status(400).json({ error: 'ics must be the contents of an .ics file' });
+    }
+
+    const { calendar, rules, skipped } = importIcsRules(body.ics, {
+      engineerId: body.engineerId,
+      calendar: body.calendar,
+      createdBy: user.engineerId,
+    });
+
+    // Match against this calendar's earlier import by event
+    const previous = new Map(
+      (await withoutCache(() => getAvailabilityRules(body.engineerId!)))
+        .filter((rule) => rule.source === 'calendar_import' && rule.importId?.startsWith(`${calendar}/`))
+        .map((rule) => [rule.importId!, rule])
+    );
+
+    const creates: NewAvailabilityRule[] = [];
+    const updates: (NewAvailabilityRule & { id: string })[] = [];
+    let unchanged = 0;
+    for (const rule of rules) {
+      const existing = previous.get(rule.importId!);
+      previous.delete(rule.importId!);
+      if (!existing) creates.push(rule);
+      else if (sameImport(existing, rule)) unchanged++;
+      else updates.push({ ...rule, id: existing.id });
+    }
+    // Whatever is left was removed from the calendar since the last import; past rules are
+    // left alone since the file may no longer list events that are over
+    const now = new Date();
+    const today = formatInTimeZone(now, TIMEZONE, 'yyyy-MM-dd');
+    const deletes = Array.from(previous.values())
+      .filter((rule) =>
+        rule.ruleType === 'one-time'
+          ? !rule.endDateTime || isAfter(parseZonedDateTime(rule.endDateTime), now)
+          : !rule.effectiveUntil || rule.effectiveUntil.slice(0, 10) >= today
+      )
+      .map((rule) => rule.id);
+
+    if (!dryRun) {
+      await batchCreateAvailabilityRules(creates);
+      await batchUpdateAvailabilityRules(updates);
+      await batchDeleteAvailabilityRules(deletes);
+    }
+
+    return res.status(200).json({
+      dryRun,
+      calendar,
+      created: creates.length,
+      updated: updates.length,
+      deleted: deletes.length,
+      unchanged,
+      skipped,
+    });
+  } catch (error) {
+    console.error('Error importing calendar:', error);
+    return res.status(500).json({ error: 'Failed to import calendar' });
+  }
+}
@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getEngineers } from '@/lib/storage';
+import { readLoginToken, setSessionCookie, toAuthUser } from '@/lib/auth';
+
+// Target of the emailed sign-in link: swap the link token for a session cookie
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const linkUser = await readLoginToken(req.query.token as string | undefined);
+    if (!linkUser) {
+      return res.redirect(302, '/?login=expired');
+    }
+
+    // Re-read the engineer so deactivated accounts can't sign in and role changes apply
+    const engineers = await getEngineers();
+    const engineer = engineers.find((e) => e.id === linkUser.engineerId);
+    if (!engineer) {
+      return res.redirect(302, '/?login=expired');
+    }
+
+    setSessionCookie(res, toAuthUser(engineer));
+    return res.redirect(302, '/');
+  } catch (error) {
+    console.error('Error completing sign-in:', error);
+    return res.status(500).json({ error: 'Failed to sign in' });
+  }
+}
@@ -1,42 +1,184 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import {
   getAvailabilityRules,
+  getAvailabilityRule,
   createAvailabilityRule,
+  updateAvailabilityRule,
   deleteAvailabilityRule,
   batchCreateAvailabilityRules,
-  AvailabilityRule,
-} from '@/lib/airtable';
+  batchUpdateAvailabilityRules,
+} from '@/lib/storage';
+import { AvailabilityRule, AvailabilityRuleUpdate, NewAvailabilityRule } from '@/lib/types';
+import { validateAvailabilityRule } from '@/lib/availability';
+import { isRecordId } from '@/lib/formula';
+import { requireUser, canEditEngineer } from '@/lib/auth';
+import { withCacheHeaders } from '@/lib/cache';
 
-export default async function handler(
+const FORBIDDEN = 'You can only change your own availability';
+
+const UPDATABLE_FIELDS: (keyof AvailabilityRuleUpdate)[] = [
+  'status',
+  'ruleType',
+  'startDateTime',
+  'endDateTime',
+  'startTime',
+  'endTime',
+  'recurrenceDays',
+  'recurrenceFrequency',
+  'recurrenceInterval',
+  'recurrenceWeeks',
+  'effectiveFrom',
+  'effectiveUntil',
+  'exceptions',
+  'priority',
+];
+
+// Copy one field of a request body onto a rule; validateAvailabilityRule checks its type
+function copyField<K extends keyof AvailabilityRuleUpdate>(
+  rule: AvailabilityRuleUpdate,
+  field: K,
+  value: unknown
+): void {
+  rule[field] = (value ?? undefined) as AvailabilityRuleUpdate[K];
+}
+
+// Apply the updatable fields of a request body onto an existing rule;
+// null clears optional fields such as effectiveUntil
+function mergeRuleUpdate(
+  existing: AvailabilityRule,
+  changes: Record<string, unknown>
+): NewAvailabilityRule {
+  const { id, updatedAt, ...merged } = existing;
+  for (const field of UPDATABLE_FIELDS) {
+    if (field in changes) copyField(merged, field, changes[field]);
+  }
+  return merged;
+}
+
+function isJsonObject(body: unknown): body is Record<string, any> {
+  return !!body && typeof body === 'object' && !Array.isArray(body);
+}
+
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
   try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+
     switch (req.method) {
       case 'GET': {
         const { engineerId } = req.query;
+        if (engineerId !== undefined && !isRecordId(engineerId)) {
+          return res.status(400).json({ error: 'engineerId must be a record ID' });
+        }
         const rules = await getAvailabilityRules(engineerId as string | undefined);
         return res.status(200).json(rules);
       }
 
       case 'POST': {
+        if (!isJsonObject(req.body)) {
+          return res.status(400).json({ error: 'Request body must be a JSON object' });
+        }
         const { rules } = req.body;
-        
+        const newRules: NewAvailabilityRule[] = Array.isArray(rules) ? rules : [req.body];
+        if (newRules.length === 0 || newRules.some((rule) => !isRecordId(rule?.engineerId))) {
+          return res.status(400).json({ error: 'Each rule needs a record ID engineerId' });
+        }
+        if (newRules.some((rule) => !canEditEngineer(user, rule.engineerId))) {
+          return res.status(403).json({ error: FORBIDDEN });
+        }
+        for (const [index, rule] of newRules.entries()) {
+          const error = validateAvailabilityRule(rule);
+          if (error) {
+            return res.status(400).json({ error: Array.isArray(rules) ? `Rule ${index + 1}: ${error}` : error });
+          }
+        }
+
+        // Record who made each rule, whatever the client sent
+        const stamped = newRules.map((rule) => ({ ...rule, createdBy: user.engineerId }));
+
         // Support both single rule and batch creation
         if (Array.isArray(rules)) {
-          const created = await batchCreateAvailabilityRules(rules);
+          const created = await batchCreateAvailabilityRules(stamped);
           return res.status(201).json(created);
         } else {
-          const rule = await createAvailabilityRule(req.body);
+          const rule = await createAvailabilityRule(stamped[0]);
           return res.status(201).json(rule);
         }
       }
 
+      case 'PATCH': {
+        if (!isJsonObject(req.body)) {
+          return res.status(400).json({ error: 'Request body must be a JSON object' });
+        }
+        const { rules } = req.body;
+
+        // Support both single rule (?ruleId=) and batch ({ rules: [{ id, ... }] }) updates
+        if (Array.isArray(rules)) {
+          if (rules.some((change) => !isJsonObject(change) || typeof change.id !== 'string' || !change.id)) {
+            return res.status(400).json({ error: 'Each rule update needs an id' });
+          }
+
+          // Look the rules up together rather than one round trip at a time
+          const existingRules = await Promise.all(
+            rules.map((change) => getAvailabilityRule(change.id))
+          );
+          const merged: (NewAvailabilityRule & { id: string })[] = [];
+          for (const [index, change] of rules.entries()) {
+            const existing = existingRules[index];
+            if (!existing) {
+              return res.status(404).json({ error: `Rule ${change.id} not found` });
+            }
+            if (!canEditEngineer(user, existing.engineerId)) {
+              return res.status(403).json({ error: FORBIDDEN });
+            }
+            const rule = mergeRuleUpdate(existing, change);
+            const error = validateAvailabilityRule(rule);
+            if (error) {
+              return res.status(400).json({ error: `Rule ${change.id}: ${error}` });
+            }
+            merged.push({ id: change.id, ...rule });
+          }
+
+          const updated = await batchUpdateAvailabilityRules(merged);
+          return res.status(200).json(updated);
+        }
+
+        const { ruleId } = req.query;
+        if (!ruleId || typeof ruleId !== 'string') {
+          return res.status(400).json({ error: 'Rule ID required' });
+        }
+        const existing = await getAvailabilityRule(ruleId);
+        if (!existing) {
+          return res.status(404).json({ error: 'Rule not found' });
+        }
+        if (!canEditEngineer(user, existing.engineerId)) {
+          return res.status(403).json({ error: FORBIDDEN });
+        }
+        const rule = mergeRuleUpdate(existing, req.body);
+        const error = validateAvailabilityRule(rule);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+
+        const updated = await updateAvailabilityRule(ruleId, rule);
+        return res.status(200).json(updated);
+      }
+
       case 'DELETE': {
         const { ruleId } = req.query;
         if (!ruleId || typeof ruleId !== 'string') {
           return res.status(400).json({ error: 'Rule ID required' });
         }
+        const existing = await getAvailabilityRule(ruleId);
+        if (!existing) {
+          return res.status(404).json({ error: 'Rule not found' });
+        }
+        if (!canEditEngineer(user, existing.engineerId)) {
+          return res.status(403).json({ error: FORBIDDEN });
+        }
         await deleteAvailabilityRule(ruleId);
         return res.status(200).json({ success: true });
       }
@@ -49,3 +191,5 @@ export default async function handler(
     res.status(500).json({ error: 'Failed to process request' });
   }
 }
+
+export default withCacheHeaders(handler);
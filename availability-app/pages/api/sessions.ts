@@ -0,0 +1,286 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseISO, addDays, addMinutes, differenceInMinutes, isValid, isBefore } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  getEngineers,
+  getAvailabilityRules,
+  getSessions,
+  getSession,
+  createSession,
+  updateSession,
+  deleteSession,
+} from '@/lib/storage';
+import {
+  calculateAvailability,
+  checkBooking,
+  parseZonedDateTime,
+  BookingCheck,
+  TIMEZONE,
+} from '@/lib/availability';
+import { resolveEngineer, EngineerCandidate } from '@/lib/engineerMatch';
+import { authenticateApiRequest, readRawBody } from '@/lib/apiAuth';
+import { Engineer, NewSession, Session } from '@/lib/types';
+import { withCacheHeaders, withoutCache } from '@/lib/cache';
+
+// The raw body is needed to check request signatures, so parse JSON here instead
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const MAX_SESSION_MINUTES = 24 * 60;
+
+interface SessionRequest {
+  engineer?: string; // ID, name, alias or phone; required when booking
+  title?: string;
+  start?: string; // ISO datetime; without an offset it's studio time
+  end?: string; // Or duration
+  duration?: number; // Minutes
+  force?: boolean; // Book even over Booked/Unavailable slots
+  dry_run?: boolean; // Check without saving
+}
+
+interface SessionResponse {
+  success: boolean;
+  message: string;
+  session?: Session | NewSession;
+  conflicts?: BookingCheck['conflicts'];
+  warnings?: BookingCheck['warnings'];
+  candidates?: EngineerCandidate[];
+  dry_run?: boolean;
+  error?: string;
+}
+
+// Resolve start/end (or start/duration) into instants, or return an error message
+function parseTimes(body: SessionRequest): { start: Date; end: Date } | string {
+  if (!body.start || typeof body.start !== 'string') {
+    return 'start is required (ISO datetime)';
+  }
+  const start = parseZonedDateTime(body.start);
+  if (!isValid(start)) return `Invalid start "${body.start}"`;
+
+  let end: Date;
+  if (body.end !== undefined) {
+    end = typeof body.end === 'string' ? parseZonedDateTime(body.end) : new Date(NaN);
+    if (!isValid(end)) return `Invalid end "${body.end}"`;
+  } else if (body.duration !== undefined) {
+    if (!Number.isInteger(body.duration) || body.duration < 1) {
+      return 'duration must be a positive number of minutes';
+    }
+    end = addMinutes(start, body.duration);
+  } else {
+    return 'end or duration is required';
+  }
+
+  if (!isBefore(start, end)) return 'end must be after start';
+  if (end.getTime() - start.getTime() > MAX_SESSION_MINUTES * 60 * 1000) {
+    return 'Sessions can be at most 24 hours';
+  }
+
+  return { start, end };
+}
+
+// A reschedule keeps whatever isn't sent; moving only the start keeps the length
+function withExistingTimes(body: SessionRequest, existing: Session | null): SessionRequest {
+  if (!existing) return body;
+  const start = body.start ?? existing.start;
+  if (body.end !== undefined || body.duration !== undefined) return { ...body, start };
+  const duration = differenceInMinutes(parseZonedDateTime(existing.end), parseZonedDateTime(existing.start));
+  return { ...body, start, duration };
+}
+
+// Check the engineer's availability over a proposed session, ignoring the session being moved
+async function checkAvailability(
+  engineerId: string,
+  start: Date,
+  end: Date,
+  ignoreSessionId?: string
+): Promise<BookingCheck> {
+  const firstDate = formatInTimeZone(start, TIMEZONE, 'yyyy-MM-dd');
+  const lastDate = formatInTimeZone(end, TIMEZONE, 'yyyy-MM-dd');
+
+  // Read past the cache so a booking made elsewhere moments ago still counts
+  const [rules, fetched] = await withoutCache(() =>
+    Promise.all([
+      getAvailabilityRules(engineerId),
+      getSessions(addDays(start, -1).toISOString(), end.toISOString(), engineerId),
+    ])
+  );
+  const sessions = fetched.filter((session) => session.id !== ignoreSessionId);
+
+  const days = calculateAvailability(rules, sessions, parseISO(firstDate), parseISO(lastDate));
+  return checkBooking(days, start, end);
+}
+
+function describeTimes(start: Date, end: Date): string {
+  return `${formatInTimeZone(start, TIMEZONE, 'yyyy-MM-dd HH:mm')}–${formatInTimeZone(end, TIMEZONE, 'HH:mm')}`;
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SessionResponse>
+) {
+  if (!['POST', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed',
+      error: 'Use POST, PATCH or DELETE',
+    });
+  }
+
+  try {
+    const rawBody = await readRawBody(req);
+    const caller = await authenticateApiRequest(req, res, 'write', rawBody);
+    if (!caller) return;
+
+    let body: SessionRequest;
+    try {
+      body = JSON.parse(rawBody || '{}');
+    } catch {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid JSON body',
+        error: 'Request body must be JSON',
+      });
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid JSON body',
+        error: 'Request body must be a JSON object',
+      });
+    }
+
+    // Cancel, reschedule and retitle all act on an existing session
+    let existing: Session | null = null;
+    if (req.method !== 'POST') {
+      const { sessionId } = req.query;
+      if (!sessionId || typeof sessionId !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Session ID required',
+          error: 'Pass ?sessionId=',
+        });
+      }
+      existing = await getSession(sessionId);
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: `Session ${sessionId} not found`,
+          error: 'Session not found',
+        });
+      }
+
+      if (req.method === 'DELETE') {
+        await deleteSession(existing.id);
+        return res.status(200).json({
+          success: true,
+          message: `Cancelled "${existing.title}"`,
+          session: existing,
+        });
+      }
+    }
+
+    // Find the engineer; a reschedule keeps the current one unless another is named
+    const engineers = await getEngineers();
+    let engineer: Engineer | undefined;
+    if (body.engineer) {
+      const resolution = resolveEngineer(String(body.engineer), engineers);
+      if (resolution.status === 'not_found') {
+        return res.status(404).json({
+          success: false,
+          message: `Engineer "${body.engineer}" not found`,
+          error: 'Engineer not found',
+        });
+      }
+      if (resolution.status === 'ambiguous') {
+        return res.status(409).json({
+          success: false,
+          message: `"${body.engineer}" could be ${resolution.candidates.map((c) => c.name).join(' or ')}`,
+          error: 'Engineer is ambiguous',
+          candidates: resolution.candidates,
+        });
+      }
+      engineer = resolution.engineer;
+    } else if (existing) {
+      const engineerId = existing.engineerId;
+      engineer = engineers.find((e) => e.id === engineerId);
+    }
+    if (!engineer) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields',
+        error: existing ? 'The session\'s engineer is no longer active' : 'engineer is required',
+      });
+    }
+
+    const times = parseTimes(withExistingTimes(body, existing));
+    if (typeof times === 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid session times',
+        error: times,
+      });
+    }
+
+    const moved = !existing || times.start.getTime() !== parseZonedDateTime(existing.start).getTime();
+    if (moved && isBefore(times.start, new Date())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid session times',
+        error: 'Sessions must start in the future',
+      });
+    }
+
+    const session: NewSession = {
+      title: body.title || existing?.title || `Session with ${engineer.name}`,
+      engineerId: engineer.id,
+      start: times.start.toISOString(),
+      end: times.end.toISOString(),
+    };
+
+    const { conflicts, warnings } = await checkAvailability(engineer.id, times.start, times.end, existing?.id);
+    const when = describeTimes(times.start, times.end);
+
+    if (conflicts.length > 0 && !body.force) {
+      return res.status(409).json({
+        success: false,
+        message: `${engineer.name} is booked or unavailable during ${when}`,
+        error: 'Conflicts with existing availability (send force: true to book anyway)',
+        conflicts,
+        warnings,
+      });
+    }
+
+    const verb = existing ? 'reschedule' : 'book';
+    if (body.dry_run) {
+      return res.status(200).json({
+        success: true,
+        dry_run: true,
+        message: `Would ${verb} ${engineer.name} for ${when}`,
+        session,
+        conflicts,
+        warnings,
+      });
+    }
+
+    const saved = existing ? await updateSession(existing.id, session) : await createSession(session);
+    return res.status(existing ? 200 : 201).json({
+      success: true,
+      message: `${existing ? 'Rescheduled' : 'Booked'} ${engineer.name} for ${when}`,
+      session: saved,
+      conflicts,
+      warnings,
+    });
+  } catch (error) {
+    console.error('Error processing session request:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update session',
+      error: 'Internal server error',
+    });
+  }
+}
+
+export default withCacheHeaders(handler);
@@ -0,0 +1,195 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseISO, addDays } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { getEngineers, getAvailabilityRulesInRange, getSessions } from '@/lib/storage';
+import {
+  calculateAvailability,
+  findAvailableWindows,
+  getZonedDayBounds,
+  groupByEngineer,
+  isValidTimeZone,
+  parseDateRange,
+  AvailableWindow,
+  DayAvailability,
+  TIME_PATTERN,
+  TIMEZONE,
+} from '@/lib/availability';
+import { resolveEngineer, EngineerCandidate } from '@/lib/engineerMatch';
+import { authenticateApiRequest } from '@/lib/apiAuth';
+import { Engineer } from '@/lib/types';
+import { withCacheHeaders } from '@/lib/cache';
+
+const DEFAULT_SEARCH_DAYS = 14;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+interface SlotsResponse {
+  from?: string;
+  to?: string;
+  timezone?: string;
+  duration_minutes?: number;
+  required_count?: number;
+  maybe_counts_as_free?: boolean;
+  engineers?: string[]; // Who was considered
+  windows?: AvailableWindow[];
+  candidates?: EngineerCandidate[]; // When an engineer name is ambiguous
+  error?: string;
+}
+
+// Parse an optional positive integer query param, or return an error message
+function parseCount(value: unknown, name: string): number | undefined | string {
+  if (value === undefined || value === '') return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    return `${name} must be a positive integer`;
+  }
+  return count;
+}
+
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SlotsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const caller = await authenticateApiRequest(req, res, 'read');
+    if (!caller) return;
+
+    const { duration, count, engineers: engineerParam, earliest, latest, maybe, limit, tz } = req.query;
+
+    if (tz !== undefined && (typeof tz !== 'string' || !isValidTimeZone(tz))) {
+      return res.status(400).json({
+        error: `Unknown timezone "${tz}" (expected an IANA name like America/New_York)`,
+      });
+    }
+    const timeZone = (tz as string | undefined) || TIMEZONE;
+
+    const durationMinutes = parseCount(duration, 'duration');
+    if (typeof durationMinutes === 'string' || durationMinutes === undefined || durationMinutes > 24 * 60) {
+      return res.status(400).json({ error: 'duration is required, in minutes (1-1440)' });
+    }
+
+    for (const [name, value] of [['earliest', earliest], ['latest', latest]] as const) {
+      if (value !== undefined && (typeof value !== 'string' || !TIME_PATTERN.test(value))) {
+        return res.status(400).json({ error: `${name} must be HH:mm` });
+      }
+    }
+
+    const requiredCount = parseCount(count, 'count');
+    const maxWindows = parseCount(limit, 'limit');
+    if (typeof requiredCount === 'string') {
+      return res.status(400).json({ error: requiredCount });
+    }
+    if (typeof maxWindows === 'string') {
+      return res.status(400).json({ error: maxWindows });
+    }
+
+    // Default to the next two weeks from today
+    const query = req.query.from || req.query.date
+      ? req.query
+      : {
+          ...req.query,
+          from: formatInTimeZone(new Date(), timeZone, 'yyyy-MM-dd'),
+          days: req.query.days || String(DEFAULT_SEARCH_DAYS),
+        };
+    const range = parseDateRange(query);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    // Either a specific set of engineers (all of them by default) or a count from everyone
+    const activeEngineers = await getEngineers();
+    let pool: Engineer[] = activeEngineers;
+    if (engineerParam) {
+      pool = [];
+      const queries = String(engineerParam).split(',').map((e) => e.trim()).filter(Boolean);
+      for (const engineerQuery of queries) {
+        const resolution = resolveEngineer(engineerQuery, activeEngineers);
+        if (resolution.status === 'not_found') {
+          return res.status(404).json({ error: `Engineer "${engineerQuery}" not found` });
+        }
+        if (resolution.status === 'ambiguous') {
+          return res.status(409).json({
+            error: `Engineer "${engineerQuery}" matches more than one engineer`,
+            candidates: resolution.candidates,
+          });
+        }
+        if (!pool.includes(resolution.engineer)) pool.push(resolution.engineer);
+      }
+    } else if (requiredCount === undefined) {
+      return res.status(400).json({ error: 'count or engineers is required' });
+    }
+
+    const needed = requiredCount ?? pool.length;
+    if (needed > pool.length) {
+      return res.status(400).json({
+        error: `count (${needed}) is more than the ${pool.length} engineers considered`,
+      });
+    }
+
+    // Sessions window covers the range plus a day before for overnight sessions
+    const windowStart = addDays(getZonedDayBounds(range.from, timeZone).start, -1);
+    const windowEnd = getZonedDayBounds(range.to, timeZone).end;
+
+    // One query each for the team's rules and sessions, split up by engineer here
+    const onlyEngineerId = pool.length === 1 ? pool[0].id : undefined;
+    const [rules, sessions] = await Promise.all([
+      getAvailabilityRulesInRange(windowStart.toISOString(), windowEnd.toISOString(), onlyEngineerId),
+      getSessions(windowStart.toISOString(), windowEnd.toISOString(), onlyEngineerId),
+    ]);
+    const rulesByEngineer = groupByEngineer(rules);
+    const sessionsByEngineer = groupByEngineer(sessions);
+
+    // Keyed by ID so two engineers with the same name both count
+    const engineersAvailability = new Map<string, DayAvailability[]>();
+    for (const eng of pool) {
+      engineersAvailability.set(
+        eng.id,
+        calculateAvailability(
+          rulesByEngineer.get(eng.id) || [],
+          sessionsByEngineer.get(eng.id) || [],
+          parseISO(range.from),
+          parseISO(range.to),
+          { timeZone }
+        )
+      );
+    }
+
+    const includeMaybe = maybe === 'true';
+    const names = new Map(pool.map((eng) => [eng.id, eng.name]));
+    const toNames = (ids: string[]) => ids.map((id) => names.get(id)!);
+    const windows = findAvailableWindows(engineersAvailability, {
+      durationMinutes,
+      requiredCount: needed,
+      includeMaybe,
+      earliest: earliest as string | undefined,
+      latest: latest as string | undefined,
+      notBefore: new Date(),
+      limit: Math.min(maxWindows ?? DEFAULT_LIMIT, MAX_LIMIT),
+      timeZone,
+    });
+
+    return res.status(200).json({
+      from: range.from,
+      to: range.to,
+      timezone: timeZone,
+      duration_minutes: durationMinutes,
+      required_count: needed,
+      maybe_counts_as_free: includeMaybe,
+      engineers: pool.map((e) => e.name),
+      windows: windows.map((window) => ({
+        ...window,
+        available: toNames(window.available),
+        maybe: toNames(window.maybe),
+      })),
+    });
+  } catch (error) {
+    console.error('Error finding slots:', error);
+    return res.status(500).json({ error: 'Failed to find slots' });
+  }
+}
+
+export default withCacheHeaders(handler);
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { format, addDays } from 'date-fns';
+import ConflictReport from '@/components/ConflictReport';
+import LoginForm from '@/components/LoginForm';
+import type { AuthUser } from '@/lib/auth';
+import type { SessionConflict, SessionConflictType } from '@/lib/availability';
+
+const COUNT_LABELS: Record<SessionConflictType, string> = {
+  unavailable: 'over unavailable time',
+  overlap: 'double-booked',
+  not_set: 'availability not set',
+  inactive_engineer: 'inactive engineer',
+};
+
+export default function Conflicts() {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [from, setFrom] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(addDays(new Date(), 13), 'yyyy-MM-dd'));
+  const [conflicts, setConflicts] = useState<SessionConflict[]>([]);
+  const [counts, setCounts] = useState<Record<SessionConflictType, number> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth')
+      .then(async (res) => setUser(res.ok ? (await res.json()).user : null))
+      .catch((err) => console.error('Error checking session:', err))
+      .finally(() => setAuthChecked(true));
+  }, []);
+
+  useEffect(() => {
+    if (user && from && to) {
+      fetchConflicts();
+    }
+  }, [user, from, to]);
+
+  const fetchConflicts = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/conflicts?from=${from}&to=${to}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load conflicts');
+        setConflicts([]);
+        setCounts(null);
+        return;
+      }
+      setConflicts(data.conflicts);
+      setCounts(data.counts);
+    } catch (err) {
+      console.error('Error fetching conflicts:', err);
+      setError('Failed to load conflicts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!authChecked) {
+    return <main className="min-h-screen" />;
+  }
+
+  if (!user) {
+    return (
+      <main className="min-h-screen p-6 md:p-10">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold text-white text-center">Session Conflicts</h1>
+          <LoginForm />
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-6 md:p-10">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Session Conflicts</h1>
+            <p className="text-slate-400 mt-1">
+              Sessions booked over unavailable or unset time, double bookings and inactive engineers
+            </p>
+          </div>
+          <Link href="/" className="text-sm text-blue-400 hover:text-blue-300">
+            Back to calendar
+          </Link>
+        </div>
+
+        {/* Range */}
+        <div className="flex flex-col md:flex-row md:items-center gap-3 bg-slate-800/30 rounded-xl p-4">
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            From
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="input" />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            To
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="input" />
+          </label>
+          {counts && (
+            <div className="text-sm text-slate-400 md:ml-auto">
+              {(Object.keys(COUNT_LABELS) as SessionConflictType[])
+                .filter((type) => counts[type] > 0)
+                .map((type) => `${counts[type]} ${COUNT_LABELS[type]}`)
+                .join(' · ') || 'All clear'}
+            </div>
+          )}
+        </div>
+
+        {error ? (
+          <div className="bg-red-500/10 text-red-300 rounded-xl p-4 text-sm">{error}</div>
+        ) : (
+          <ConflictReport conflicts={conflicts} loading={loading} />
+        )}
+      </div>
+    </main>
+  );
+}
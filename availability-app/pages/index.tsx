@@ -1,19 +1,34 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { format, startOfWeek, addDays, addWeeks, subWeeks } from 'date-fns';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { format, parseISO, isValid, startOfWeek, addDays, addWeeks, subWeeks } from 'date-fns';
 import WeeklyCalendar from '@/components/WeeklyCalendar';
 import StatusSelector from '@/components/StatusSelector';
 import EngineerSelector from '@/components/EngineerSelector';
 import RecurringRuleModal, { RecurringRule } from '@/components/RecurringRuleModal';
 import Legend from '@/components/Legend';
 import Toast from '@/components/Toast';
-import { Engineer } from '@/lib/airtable';
-import { DayAvailability, SlotStatus } from '@/lib/availability';
+import RuleManager from '@/components/RuleManager';
+import LoginForm from '@/components/LoginForm';
+import { Engineer, AvailabilityRule } from '@/lib/types';
+import type { AuthUser } from '@/lib/auth';
+import { DayAvailability, SlotStatus, TimeSlot, TIMEZONE } from '@/lib/availability';
 
 export default function Home() {
+  const router = useRouter();
+
   // State
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [engineers, setEngineers] = useState<Engineer[]>([]);
   const [selectedEngineer, setSelectedEngineer] = useState<Engineer | null>(null);
   const [availability, setAvailability] = useState<DayAvailability[]>([]);
+  // The server's studio zone; the browser can't read TIMEZONE itself
+  const [timeZone, setTimeZone] = useState(TIMEZONE);
+  const [rules, setRules] = useState<AvailabilityRule[]>([]);
+  const [rulesLoading, setRulesLoading] = useState(false);
+  const [editingRule, setEditingRule] = useState<AvailabilityRule | null>(null);
+  const [inspectedSlot, setInspectedSlot] = useState<string | undefined>();
   const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
   const [selectedStatus, setSelectedStatus] = useState<SlotStatus>('Available');
   const [isRecurringModalOpen, setIsRecurringModalOpen] = useState(false);
@@ -21,11 +36,17 @@ export default function Home() {
   const [saving, setSaving] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
 
-  // Fetch engineers on mount
+  // Check the session on mount, then load engineers once signed in
   useEffect(() => {
-    fetchEngineers();
+    fetchSession();
   }, []);
 
+  useEffect(() => {
+    if (user) {
+      fetchEngineers();
+    }
+  }, [user]);
+
   // Fetch availability when engineer or week changes
   useEffect(() => {
     if (selectedEngineer) {
@@ -33,11 +54,60 @@ export default function Home() {
     }
   }, [selectedEngineer, weekStart]);
 
+  // Fetch the engineer's rules when the engineer changes
+  useEffect(() => {
+    setInspectedSlot(undefined);
+    if (selectedEngineer) {
+      fetchRules();
+    }
+  }, [selectedEngineer]);
+
+  const fetchSession = async () => {
+    try {
+      const res = await fetch('/api/auth');
+      if (res.ok) {
+        const data = await res.json();
+        setUser(data.user);
+      } else {
+        setLoading(false);
+      }
+    } catch (error) {
+      console.error('Error checking session:', error);
+      setLoading(false);
+    } finally {
+      setAuthChecked(true);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth', { method: 'DELETE' });
+    setUser(null);
+    setEngineers([]);
+    setSelectedEngineer(null);
+  };
+
   const fetchEngineers = async () => {
+    if (!user) return;
+
     try {
       const res = await fetch('/api/engineers');
-      const data = await res.json();
-      setEngineers(data);
+      const data: Engineer[] = await res.json();
+
+      // Engineers can only edit themselves, so they only get their own calendar
+      const editable = user.admin ? data : data.filter((e) => e.id === user.engineerId);
+      setEngineers(editable);
+
+      // The team view links here with ?engineer=<id>&week=<yyyy-MM-dd>
+      const linked = editable.find((e) => e.id === router.query.engineer);
+      if (linked) {
+        setSelectedEngineer(linked);
+      } else if (!user.admin && editable.length === 1) {
+        setSelectedEngineer(editable[0]);
+      }
+      const week = typeof router.query.week === 'string' ? parseISO(router.query.week) : null;
+      if (week && isValid(week)) {
+        setWeekStart(startOfWeek(week, { weekStartsOn: 1 }));
+      }
       setLoading(false);
     } catch (error) {
       console.error('Error fetching engineers:', error);
@@ -55,93 +125,70 @@ export default function Home() {
       const endDate = format(addDays(weekStart, 6), 'yyyy-MM-dd');
       
       const res = await fetch(
-        `/api/availability?date=${startDate}&engineer=${encodeURIComponent(
-          selectedEngineer.name
+        `/api/availability?from=${startDate}&to=${endDate}&engineer=${encodeURIComponent(
+          selectedEngineer.id
         )}&detailed=true`
       );
       const data = await res.json();
-
-      if (data.engineers && data.engineers[selectedEngineer.name]) {
-        setAvailability(data.engineers[selectedEngineer.name]);
-      } else {
-        // Generate empty availability for the week
-        const emptyAvailability: DayAvailability[] = [];
-        for (let i = 0; i < 7; i++) {
-          const date = addDays(weekStart, i);
-          emptyAvailability.push({
-            date: format(date, 'yyyy-MM-dd'),
-            dayName: format(date, 'EEE'),
-            slots: Array.from({ length: 48 }, (_, j) => ({
-              time: `${Math.floor(j / 2)
-                .toString()
-                .padStart(2, '0')}:${j % 2 === 0 ? '00' : '30'}`,
-              datetime: new Date(date.setHours(Math.floor(j / 2), j % 2 === 0 ? 0 : 30)).toISOString(),
-              status: 'Blank' as SlotStatus,
-            })),
-          });
-        }
-        setAvailability(emptyAvailability);
+      // Never fall back to an empty grid: painting on it would overwrite real availability
+      if (!res.ok || !data.engineers?.[selectedEngineer.id]) {
+        throw new Error(data.error || 'Failed to load availability');
       }
+      if (data.timezone) setTimeZone(data.timezone);
+      setAvailability(data.engineers[selectedEngineer.id]);
     } catch (error) {
       console.error('Error fetching availability:', error);
-      setToast({ message: 'Failed to load availability', type: 'error' });
+      setAvailability([]);
+      setToast({
+        message: error instanceof Error ? error.message : 'Failed to load availability',
+        type: 'error',
+      });
     } finally {
       setLoading(false);
     }
   };
 
+  const fetchRules = async () => {
+    if (!selectedEngineer) return;
+
+    setRulesLoading(true);
+    try {
+      const res = await fetch(`/api/rules?engineerId=${encodeURIComponent(selectedEngineer.id)}`);
+      if (!res.ok) throw new Error('Failed to load');
+      setRules(await res.json());
+    } catch (error) {
+      console.error('Error fetching rules:', error);
+      setToast({ message: 'Failed to load rules', type: 'error' });
+    } finally {
+      setRulesLoading(false);
+    }
+  };
+
+  const refresh = () => {
+    fetchAvailability();
+    fetchRules();
+  };
+
   const handleSlotsSelected = async (slots: { date: string; time: string }[]) => {
-    if (!selectedEngineer || slots.length === 0 || selectedStatus === 'Blank' || selectedStatus === 'Booked') {
+    if (!selectedEngineer || slots.length === 0 || selectedStatus === 'Booked') {
       return;
     }
 
+    if (selectedStatus === 'Blank') {
+      return handleSlotsErased(slots);
+    }
+
     setSaving(true);
     
     try {
-      // Group consecutive slots by date to create minimal rules
-      const rulesByDate = new Map<string, string[]>();
-      slots.forEach(({ date, time }) => {
-        if (!rulesByDate.has(date)) {
-          rulesByDate.set(date, []);
-        }
-        rulesByDate.get(date)!.push(time);
-      });
-
-      const rules: any[] = [];
-
-      rulesByDate.forEach((times, date) => {
-        // Sort times and find consecutive ranges
-        const sortedTimes = times.sort();
-        const ranges: { start: string; end: string }[] = [];
-        let rangeStart = sortedTimes[0];
-        let rangeEnd = sortedTimes[0];
-
-        for (let i = 1; i < sortedTimes.length; i++) {
-          const prevMinutes = timeToMinutes(rangeEnd);
-          const currMinutes = timeToMinutes(sortedTimes[i]);
-
-          if (currMinutes - prevMinutes === 30) {
-            rangeEnd = sortedTimes[i];
-          } else {
-            ranges.push({ start: rangeStart, end: addMinutesToTime(rangeEnd, 30) });
-            rangeStart = sortedTimes[i];
-            rangeEnd = sortedTimes[i];
-          }
-        }
-        ranges.push({ start: rangeStart, end: addMinutesToTime(rangeEnd, 30) });
-
-        // Create rules for each range
-        ranges.forEach(({ start, end }) => {
-          rules.push({
-            engineerId: selectedEngineer.id,
-            status: selectedStatus,
-            ruleType: 'one-time',
-            startDateTime: `${date}T${start}:00`,
-            endDateTime: `${date}T${end}:00`,
-            source: 'web_app',
-          });
-        });
-      });
+      const rules = slotsToRanges(slots).map(({ start, end }) => ({
+        engineerId: selectedEngineer.id,
+        status: selectedStatus,
+        ruleType: 'one-time',
+        startDateTime: start,
+        endDateTime: end,
+        source: 'web_app',
+      }));
 
       const res = await fetch('/api/rules', {
         method: 'POST',
@@ -154,7 +201,7 @@ export default function Home() {
       setToast({ message: `Set ${slots.length} slots as ${selectedStatus}`, type: 'success' });
       
       // Refresh availability
-      fetchAvailability();
+      refresh();
     } catch (error) {
       console.error('Error saving availability:', error);
       setToast({ message: 'Failed to save availability', type: 'error' });
@@ -163,31 +210,78 @@ export default function Home() {
     }
   };
 
-  const handleRecurringRuleSave = async (rule: RecurringRule) => {
+  const handleSlotsErased = async (slots: { date: string; time: string }[]) => {
     if (!selectedEngineer) return;
 
     setSaving(true);
     try {
-      const res = await fetch('/api/rules', {
+      const res = await fetch('/api/erase', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          engineerId: selectedEngineer.id,
-          status: rule.status,
-          ruleType: 'recurring',
-          startTime: rule.startTime,
-          endTime: rule.endTime,
-          recurrenceDays: rule.days,
-          effectiveFrom: rule.effectiveFrom,
-          effectiveUntil: rule.effectiveUntil,
-          source: 'web_app',
-        }),
+        body: JSON.stringify({ engineerId: selectedEngineer.id, ranges: slotsToRanges(slots) }),
       });
 
+      if (!res.ok) throw new Error('Failed to erase');
+
+      setToast({ message: `Cleared ${slots.length} slots`, type: 'success' });
+      refresh();
+    } catch (error) {
+      console.error('Error erasing availability:', error);
+      setToast({ message: 'Failed to clear availability', type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecurringRuleSave = async (rule: RecurringRule) => {
+    if (!selectedEngineer) return;
+
+    setSaving(true);
+    try {
+      const fields = {
+        status: rule.status,
+        ruleType: 'recurring',
+        startTime: rule.startTime,
+        endTime: rule.endTime,
+        recurrenceDays: rule.days,
+        recurrenceFrequency: rule.frequency,
+        recurrenceInterval: rule.interval,
+        recurrenceWeeks: rule.weeksOfMonth,
+        effectiveFrom: rule.effectiveFrom,
+        effectiveUntil: rule.effectiveUntil,
+        exceptions: rule.exceptions,
+        priority: rule.priority,
+      };
+
+      const res = editingRule
+        ? await fetch(`/api/rules?ruleId=${encodeURIComponent(editingRule.id)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            // Send nulls so cleared effective dates are removed from the rule
+            body: JSON.stringify({
+              ...fields,
+              recurrenceInterval: rule.interval || null,
+              recurrenceWeeks: rule.weeksOfMonth || null,
+              effectiveFrom: rule.effectiveFrom || null,
+              effectiveUntil: rule.effectiveUntil || null,
+              exceptions: rule.exceptions || null,
+              priority: rule.priority || null,
+            }),
+          })
+        : await fetch('/api/rules', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              ...fields,
+              engineerId: selectedEngineer.id,
+              source: 'web_app',
+            }),
+          });
+
       if (!res.ok) throw new Error('Failed to save');
 
       setToast({ message: 'Recurring rule saved', type: 'success' });
-      fetchAvailability();
+      refresh();
     } catch (error) {
       console.error('Error saving recurring rule:', error);
       setToast({ message: 'Failed to save recurring rule', type: 'error' });
@@ -196,6 +290,172 @@ export default function Home() {
     }
   };
 
+  const handleOneTimeRuleUpdate = async (
+    rule: AvailabilityRule,
+    changes: Pick<AvailabilityRule, 'status' | 'startDateTime' | 'endDateTime'>
+  ) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/rules?ruleId=${encodeURIComponent(rule.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!res.ok) throw new Error('Failed to save');
+
+      setToast({ message: 'Rule updated', type: 'success' });
+      refresh();
+    } catch (error) {
+      console.error('Error updating rule:', error);
+      setToast({ message: 'Failed to update rule', type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRuleDelete = async (rule: AvailabilityRule) => {
+    if (!confirm('Delete this rule?')) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/rules?ruleId=${encodeURIComponent(rule.id)}`, {
+        method: 'DELETE',
+      });
+
+      if (!res.ok) throw new Error('Failed to delete');
+
+      setToast({ message: 'Rule deleted', type: 'success' });
+      refresh();
+    } catch (error) {
+      console.error('Error deleting rule:', error);
+      setToast({ message: 'Failed to delete rule', type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editingRecurringRule = useMemo(
+    () => (editingRule ? toRecurringRule(editingRule) : undefined),
+    [editingRule]
+  );
+
+  const handleCompact = async () => {
+    if (!selectedEngineer) return;
+
+    setSaving(true);
+    try {
+      const compact = (dryRun: boolean) =>
+        fetch('/api/compact', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ engineerId: selectedEngineer.id, dryRun }),
+        }).then((res) => {
+          if (!res.ok) throw new Error('Failed to compact');
+          return res.json();
+        });
+
+      // Preview first so the admin can see how many rows will change
+      const preview = await compact(true);
+      if (preview.deleted === 0 && preview.updated === 0) {
+        setToast({ message: 'Rules are already compact', type: 'success' });
+        return;
+      }
+      if (!confirm(`Compacting will delete ${preview.deleted} and update ${preview.updated} rules. Continue?`)) {
+        return;
+      }
+
+      const result = await compact(false);
+      setToast({
+        message: `Removed ${result.deleted} and merged ${result.updated} rules`,
+        type: 'success',
+      });
+      refresh();
+    } catch (error) {
+      console.error('Error compacting rules:', error);
+      setToast({ message: 'Failed to compact rules', type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Block out busy time from an .ics export, previewing the changes first
+  const handleImport = async (file: File) => {
+    if (!selectedEngineer) return;
+
+    setSaving(true);
+    try {
+      const ics = await file.text();
+      const importIcs = (dryRun: boolean) =>
+        fetch('/api/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ engineerId: selectedEngineer.id, ics, dryRun }),
+        }).then(async (res) => {
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || 'Failed to import');
+          return data;
+        });
+
+      const preview = await importIcs(true);
+      if (preview.created === 0 && preview.updated === 0 && preview.deleted === 0) {
+        setToast({ message: `Nothing to change from "${preview.calendar}"`, type: 'success' });
+        return;
+      }
+      const skipped = preview.skipped.length > 0 ? ` ${preview.skipped.length} events will be skipped.` : '';
+      if (
+        !confirm(
+          `Importing "${preview.calendar}" will add ${preview.created}, update ${preview.updated} and remove ${preview.deleted} Unavailable rules.${skipped} Continue?`
+        )
+      ) {
+        return;
+      }
+
+      const result = await importIcs(false);
+      setToast({
+        message: `Imported "${result.calendar}": ${result.created} added, ${result.updated} updated, ${result.deleted} removed`,
+        type: 'success',
+      });
+      refresh();
+    } catch (error) {
+      console.error('Error importing calendar:', error);
+      setToast({ message: error instanceof Error ? error.message : 'Failed to import calendar', type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Copy a calendar-app subscription link for the selected engineer. Regenerating
+  // revokes every link copied before.
+  const handleSubscribe = async (regenerate = false) => {
+    if (!selectedEngineer) return;
+    if (regenerate && !confirm('Reset the calendar link? Existing subscriptions will stop updating.')) return;
+
+    try {
+      const res = await fetch('/api/calendar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ engineerId: selectedEngineer.id, regenerate }),
+      });
+      if (!res.ok) throw new Error('Failed to create link');
+      const { webcal } = await res.json();
+      await navigator.clipboard.writeText(webcal);
+      setToast({ message: 'Calendar link copied; add it as a subscription in your calendar app', type: 'success' });
+    } catch (error) {
+      console.error('Error creating calendar link:', error);
+      setToast({ message: 'Failed to create calendar link', type: 'error' });
+    }
+  };
+
+  const handleSlotClick = (slot: TimeSlot) => {
+    setInspectedSlot(slot.datetime);
+  };
+
+  // The highlighted rule follows whatever rule currently produces the inspected slot
+  const highlightedRuleId = availability
+    .flatMap((day) => day.slots)
+    .find((slot) => slot.datetime === inspectedSlot)?.ruleId;
+
   const navigateWeek = (direction: 'prev' | 'next') => {
     setWeekStart((prev) =>
       direction === 'next' ? addWeeks(prev, 1) : subWeeks(prev, 1)
@@ -206,6 +466,21 @@ export default function Home() {
     setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }));
   };
 
+  if (!authChecked) {
+    return <main className="min-h-screen" />;
+  }
+
+  if (!user) {
+    return (
+      <main className="min-h-screen p-6 md:p-10">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold text-white text-center">Engineer Availability</h1>
+          <LoginForm expired={router.query.login === 'expired'} />
+        </div>
+      </main>
+    );
+  }
+
   return (
     <main className="min-h-screen p-6 md:p-10">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -215,12 +490,35 @@ export default function Home() {
             <h1 className="text-3xl font-bold text-white">Engineer Availability</h1>
             <p className="text-slate-400 mt-1">Click and drag to set availability</p>
           </div>
-          <EngineerSelector
-            engineers={engineers}
-            selected={selectedEngineer}
-            onSelect={setSelectedEngineer}
-            loading={loading && engineers.length === 0}
-          />
+          <div className="flex items-center gap-4">
+            {user.admin && (
+              <EngineerSelector
+                engineers={engineers}
+                selected={selectedEngineer}
+                onSelect={setSelectedEngineer}
+                loading={loading && engineers.length === 0}
+              />
+            )}
+            <div className="text-sm text-slate-400">
+              {user.name}
+              {user.admin && ' (admin)'} ·{' '}
+              <Link href="/team" className="text-blue-400 hover:text-blue-300">
+                Team
+              </Link>{' '}
+              ·{' '}
+              {user.admin && (
+                <>
+                  <Link href="/conflicts" className="text-blue-400 hover:text-blue-300">
+                    Conflicts
+                  </Link>{' '}
+                  ·{' '}
+                </>
+              )}
+              <button onClick={handleSignOut} className="text-blue-400 hover:text-blue-300">
+                Sign out
+              </button>
+            </div>
+          </div>
         </div>
 
         {selectedEngineer && (
@@ -230,6 +528,25 @@ export default function Home() {
               <StatusSelector selected={selectedStatus} onSelect={setSelectedStatus} />
               
               <div className="flex items-center gap-3">
+                <label className="btn btn-secondary cursor-pointer">
+                  Import .ics
+                  <input
+                    type="file"
+                    accept=".ics,text/calendar"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) handleImport(file);
+                    }}
+                  />
+                </label>
+                <button onClick={() => handleSubscribe()} className="btn btn-secondary">
+                  Subscribe
+                </button>
+                <button onClick={() => handleSubscribe(true)} className="btn btn-secondary">
+                  Reset link
+                </button>
                 <button
                   onClick={() => setIsRecurringModalOpen(true)}
                   className="btn btn-secondary flex items-center gap-2"
@@ -284,13 +601,27 @@ export default function Home() {
               </button>
             </div>
 
-            {/* Calendar */}
-            <WeeklyCalendar
-              availability={availability}
-              selectedStatus={selectedStatus}
-              onSlotsSelected={handleSlotsSelected}
-              loading={loading}
-            />
+            {/* Calendar and rule panel */}
+            <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+              <WeeklyCalendar
+                availability={availability}
+                selectedStatus={selectedStatus}
+                onSlotsSelected={handleSlotsSelected}
+                onSlotClick={handleSlotClick}
+                inspectedSlot={inspectedSlot}
+                loading={loading}
+              />
+              <RuleManager
+                rules={rules}
+                highlightedRuleId={highlightedRuleId}
+                onEdit={setEditingRule}
+                onUpdateOneTime={handleOneTimeRuleUpdate}
+                onDelete={handleRuleDelete}
+                onCompact={handleCompact}
+                loading={rulesLoading && rules.length === 0}
+                timeZone={timeZone}
+              />
+            </div>
 
             {/* Legend */}
             <div className="flex justify-center">
@@ -310,9 +641,13 @@ export default function Home() {
 
       {/* Recurring rule modal */}
       <RecurringRuleModal
-        isOpen={isRecurringModalOpen}
-        onClose={() => setIsRecurringModalOpen(false)}
+        isOpen={isRecurringModalOpen || editingRule !== null}
+        onClose={() => {
+          setIsRecurringModalOpen(false);
+          setEditingRule(null);
+        }}
         onSave={handleRecurringRuleSave}
+        initialRule={editingRecurringRule}
       />
 
       {/* Saving indicator */}
@@ -343,6 +678,65 @@ export default function Home() {
 }
 
 // Helper functions
+function toRecurringRule(rule: AvailabilityRule): RecurringRule {
+  return {
+    status: rule.status as RecurringRule['status'],
+    startTime: rule.startTime || '09:00',
+    endTime: rule.endTime || '17:00',
+    days: rule.recurrenceDays || [],
+    frequency: rule.recurrenceFrequency,
+    interval: rule.recurrenceInterval,
+    weeksOfMonth: rule.recurrenceWeeks,
+    effectiveFrom: rule.effectiveFrom,
+    effectiveUntil: rule.effectiveUntil,
+    exceptions: rule.exceptions,
+    priority: rule.priority,
+  };
+}
+
+// Group painted slots into consecutive ranges per date (studio wall-clock datetimes)
+function slotsToRanges(slots: { date: string; time: string }[]): { start: string; end: string }[] {
+  const timesByDate = new Map<string, string[]>();
+  slots.forEach(({ date, time }) => {
+    if (!timesByDate.has(date)) {
+      timesByDate.set(date, []);
+    }
+    timesByDate.get(date)!.push(time);
+  });
+
+  const ranges: { start: string; end: string }[] = [];
+
+  timesByDate.forEach((times, date) => {
+    // Sort times and find consecutive ranges
+    const sortedTimes = times.sort();
+    let rangeStart = sortedTimes[0];
+    let rangeEnd = sortedTimes[0];
+
+    const pushRange = () => {
+      const end = addMinutesToTime(rangeEnd, 30);
+      // A range ending at midnight ends on the following date
+      const endDate = end === '00:00' ? format(addDays(parseISO(date), 1), 'yyyy-MM-dd') : date;
+      ranges.push({ start: `${date}T${rangeStart}:00`, end: `${endDate}T${end}:00` });
+    };
+
+    for (let i = 1; i < sortedTimes.length; i++) {
+      const prevMinutes = timeToMinutes(rangeEnd);
+      const currMinutes = timeToMinutes(sortedTimes[i]);
+
+      if (currMinutes - prevMinutes === 30) {
+        rangeEnd = sortedTimes[i];
+      } else {
+        pushRange();
+        rangeStart = sortedTimes[i];
+        rangeEnd = sortedTimes[i];
+      }
+    }
+    pushRange();
+  });
+
+  return ranges;
+}
+
 function timeToMinutes(time: string): number {
   const [hours, minutes] = time.split(':').map(Number);
   return hours * 60 + minutes;
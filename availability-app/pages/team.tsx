@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { format, startOfWeek, addDays, addWeeks, subWeeks } from 'date-fns';
+import TeamHeatmap from '@/components/TeamHeatmap';
+import LoginForm from '@/components/LoginForm';
+import type { AuthUser } from '@/lib/auth';
+import type { HeatmapDay, HeatmapSlot } from '@/lib/availability';
+import { Engineer } from '@/lib/types';
+
+const STATUS_GROUPS: { key: keyof Omit<HeatmapSlot, 'time' | 'datetime'>; label: string; pill: string }[] = [
+  { key: 'available', label: 'Available', pill: 'available' },
+  { key: 'maybe', label: 'Maybe', pill: 'maybe' },
+  { key: 'booked', label: 'Booked', pill: 'booked' },
+  { key: 'unavailable', label: 'Unavailable', pill: 'unavailable' },
+  { key: 'not_set', label: 'Not set', pill: 'blank' },
+];
+
+export default function Team() {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [engineers, setEngineers] = useState<Engineer[]>([]);
+  const [heatmap, setHeatmap] = useState<HeatmapDay[]>([]);
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [selectedSlot, setSelectedSlot] = useState<HeatmapSlot | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth')
+      .then(async (res) => setUser(res.ok ? (await res.json()).user : null))
+      .catch((err) => console.error('Error checking session:', err))
+      .finally(() => setAuthChecked(true));
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      fetchHeatmap();
+    }
+  }, [user, weekStart]);
+
+  const fetchHeatmap = async () => {
+    setLoading(true);
+    setError(null);
+    setSelectedSlot(null);
+    try {
+      const from = format(weekStart, 'yyyy-MM-dd');
+      const to = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+      const [engineersRes, heatmapRes] = await Promise.all([
+        fetch('/api/engineers'),
+        fetch(`/api/availability?from=${from}&to=${to}&heatmap=true`),
+      ]);
+      if (!engineersRes.ok || !heatmapRes.ok) throw new Error('Failed to load');
+      setEngineers(await engineersRes.json());
+      setHeatmap((await heatmapRes.json()).heatmap);
+    } catch (err) {
+      console.error('Error fetching team availability:', err);
+      setError('Failed to load team availability');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Link a name to the engineer's editable calendar when the user may edit it
+  const renderName = (name: string) => {
+    const engineer = engineers.find((e) => e.name === name);
+    if (!user || !engineer || (!user.admin && engineer.id !== user.engineerId)) {
+      return <span className="text-slate-200">{name}</span>;
+    }
+    return (
+      <Link
+        href={`/?engineer=${encodeURIComponent(engineer.id)}&week=${format(weekStart, 'yyyy-MM-dd')}`}
+        className="text-blue-400 hover:text-blue-300"
+      >
+        {name}
+      </Link>
+    );
+  };
+
+  if (!authChecked) {
+    return <main className="min-h-screen" />;
+  }
+
+  if (!user) {
+    return (
+      <main className="min-h-screen p-6 md:p-10">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold text-white text-center">Team Availability</h1>
+          <LoginForm />
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-6 md:p-10">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Team Availability</h1>
+            <p className="text-slate-400 mt-1">How many engineers are free in each slot</p>
+          </div>
+          <Link href="/" className="text-sm text-blue-400 hover:text-blue-300">
+            Back to calendar
+          </Link>
+        </div>
+
+        {/* Week navigation */}
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setWeekStart((prev) => subWeeks(prev, 1))}
+            className="btn btn-secondary flex items-center gap-1"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Previous
+          </button>
+
+          <div className="flex items-center gap-4">
+            <h2 className="text-xl font-semibold text-white">
+              {format(weekStart, 'MMM d')} - {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+            </h2>
+            <button
+              onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+              className="text-sm text-blue-400 hover:text-blue-300"
+            >
+              Today
+            </button>
+          </div>
+
+          <button
+            onClick={() => setWeekStart((prev) => addWeeks(prev, 1))}
+            className="btn btn-secondary flex items-center gap-1"
+          >
+            Next
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+
+        {error ? (
+          <div className="bg-red-500/10 text-red-300 rounded-xl p-4 text-sm">{error}</div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+            <TeamHeatmap
+              heatmap={heatmap}
+              teamSize={engineers.length}
+              selectedSlot={selectedSlot?.datetime}
+              onSlotClick={setSelectedSlot}
+              loading={loading}
+            />
+
+            {/* Who's in the pinned slot */}
+            <div className="bg-slate-800/50 rounded-2xl p-4 space-y-4 self-start">
+              {selectedSlot ? (
+                <>
+                  <h3 className="text-white font-semibold">
+                    {format(new Date(selectedSlot.datetime), 'EEE MMM d, h:mm a')}
+                  </h3>
+                  {STATUS_GROUPS.filter(({ key }) => selectedSlot[key].length > 0).map(({ key, label, pill }) => (
+                    <div key={key} className="space-y-1">
+                      <span className={`status-pill ${pill} active`}>
+                        {label} ({selectedSlot[key].length})
+                      </span>
+                      <ul className="text-sm space-y-1 pl-1">
+                        {selectedSlot[key].map((name) => (
+                          <li key={name}>{renderName(name)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </>
+              ) : (
+                <>
+                  <h3 className="text-white font-semibold">Engineers</h3>
+                  <p className="text-sm text-slate-400">Click a slot to see who is free. Hover for a quick look.</p>
+                  <ul className="text-sm space-y-1">
+                    {engineers.map((engineer) => (
+                      <li key={engineer.id}>{renderName(engineer.name)}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['__tests__/**/*.test.ts'],
+    // Pin both zones so slot times don't depend on the machine running the tests
+    env: {
+      TZ: 'UTC',
+      TIMEZONE: 'America/New_York',
+    },
+  },
+});